@@ -0,0 +1,10 @@
+"use client"
+import { OrganizationSettings } from "@/components/organization-settings"
+
+export default function OrganizationPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <OrganizationSettings />
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+"use client"
+import { UserAdmin } from "@/components/user-admin"
+
+export default function UsersPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <UserAdmin />
+    </div>
+  )
+}
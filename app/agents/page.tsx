@@ -0,0 +1,10 @@
+"use client"
+import { Agents } from "@/components/agents"
+
+export default function AgentsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <Agents />
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAccount, serializeAccount } from "@/lib/accounts"
+import { parseBankStatement } from "@/lib/bank-statements"
+import { autoMatchBankLines, importBankStatement, unreadableBankLines } from "@/lib/reconciliation"
+
+// POST - Import an OFX, CAMT.053 or MT940 statement (multipart "file" field) into the account's bank lines,
+// then auto-match the unmatched lines to entries. Lines already imported from an earlier file are skipped.
+export async function POST(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reconcile")
+    if (response) return response
+
+    const file = (await request.formData()).get("file")
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    if (account.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+
+    const statement = parseBankStatement(await file.text())
+    if (!statement) {
+      return NextResponse.json({ error: "Not an OFX, CAMT.053 or MT940 statement" }, { status: 400 })
+    }
+    if (statement.lines.length === 0) {
+      return NextResponse.json({ error: "The statement has no transactions" }, { status: 400 })
+    }
+    const unreadable = unreadableBankLines(statement.lines)
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: `Could not read the date or amount of transaction ${unreadable.slice(0, 5).join(", ")}` },
+        { status: 400 },
+      )
+    }
+    const { baseCurrency } = serializeAccount(account)
+    if (statement.currency && statement.currency !== baseCurrency) {
+      return NextResponse.json(
+        { error: `The statement is in ${statement.currency} but the account is kept in ${baseCurrency}` },
+        { status: 400 },
+      )
+    }
+
+    const context = auditContext(request, session)
+    const result = await importBankStatement(
+      db,
+      session.organizationId,
+      account._id,
+      file.name,
+      statement,
+      context.actor,
+    )
+    const matched = await autoMatchBankLines(db, account._id, context)
+
+    return NextResponse.json(
+      {
+        ...result,
+        format: statement.format,
+        openingBalance: statement.openingBalance,
+        closingBalance: statement.closingBalance,
+        matched,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error importing bank statement:", error)
+    return NextResponse.json({ error: "Failed to import bank statement" }, { status: 500 })
+  }
+}
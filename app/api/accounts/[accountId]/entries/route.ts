@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { entrySchema, validationErrorBody } from "@/lib/entry-schema"
+import { findAccount } from "@/lib/accounts"
+import { createAccountEntry, listAccountEntries, parseEntryQuery, validateEntryRefs } from "@/lib/entries"
+
+// GET - Fetch a page of the account's entries with running balance (same query parameters as /api/entries)
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const { accountId } = params
+    const query = parseEntryQuery(request.nextUrl.searchParams)
+    if ("error" in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const page = await listAccountEntries(db, accountId, query)
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error("Error fetching entries:", error)
+    return NextResponse.json({ error: "Failed to fetch entries" }, { status: 500 })
+  }
+}
+
+// POST - Create new entry in the account
+export async function POST(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:create")
+    if (response) return response
+
+    const { accountId } = params
+    const parsed = entrySchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(validationErrorBody(parsed.error), { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    if (account.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+    const baseCurrency = account.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const refsError = await validateEntryRefs(db, session.organizationId, parsed.data, baseCurrency)
+    if (refsError) {
+      return NextResponse.json(refsError.body, { status: refsError.status })
+    }
+
+    const entry = await createAccountEntry(
+      db,
+      session.organizationId,
+      accountId,
+      parsed.data,
+      auditContext(request, session),
+    )
+
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    console.error("Error creating entry:", error)
+    return NextResponse.json({ error: "Failed to create entry" }, { status: 500 })
+  }
+}
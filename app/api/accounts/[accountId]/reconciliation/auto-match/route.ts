@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAccount } from "@/lib/accounts"
+import { autoMatchBankLines } from "@/lib/reconciliation"
+
+// POST - Run auto-matching again, e.g. after entries were added for lines that had no match
+export async function POST(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reconcile")
+    if (response) return response
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const matched = await autoMatchBankLines(db, account._id, auditContext(request, session))
+
+    return NextResponse.json({ matched })
+  } catch (error) {
+    console.error("Error auto-matching bank lines:", error)
+    return NextResponse.json({ error: "Failed to auto-match bank lines" }, { status: 500 })
+  }
+}
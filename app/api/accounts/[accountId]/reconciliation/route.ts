@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount } from "@/lib/accounts"
+import { BANK_LINE_STATUSES, countReconciliation, listBankLines, type BankLineStatus } from "@/lib/reconciliation"
+
+// GET - The account's imported bank lines with their matches (?status=unmatched|matched|all, default unmatched)
+// and counts of matched and unmatched lines and of entries not yet reconciled
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const status = request.nextUrl.searchParams.get("status") ?? "unmatched"
+    if (!(BANK_LINE_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: "status must be unmatched, matched or all" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const [lines, summary] = await Promise.all([
+      listBankLines(db, account._id, status as BankLineStatus),
+      countReconciliation(db, account._id),
+    ])
+
+    return NextResponse.json({ lines, summary })
+  } catch (error) {
+    console.error("Error fetching reconciliation:", error)
+    return NextResponse.json({ error: "Failed to fetch reconciliation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { findAccount, isAccountType, serializeAccount, type AccountDoc } from "@/lib/accounts"
+import { DEFAULT_BASE_CURRENCY, isCurrencyCode } from "@/lib/currency"
+import type { EntryDoc } from "@/lib/entries"
+import { resyncAccountJournals } from "@/lib/ledger"
+
+// GET - Fetch a single account
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeAccount(account))
+  } catch (error) {
+    console.error("Error fetching account:", error)
+    return NextResponse.json({ error: "Failed to fetch account" }, { status: 500 })
+  }
+}
+
+// PUT - Rename, retype, change base currency, archive or unarchive an account
+export async function PUT(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "accounts:manage")
+    if (response) return response
+
+    const body = (await request.json().catch(() => null)) ?? {}
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === "string" ? body.name.trim() : ""
+      if (!name) {
+        return NextResponse.json({ error: "Account name cannot be empty" }, { status: 400 })
+      }
+      updateData.name = name
+    }
+    if (body.type !== undefined) {
+      if (!isAccountType(body.type)) {
+        return NextResponse.json({ error: "Invalid account type" }, { status: 400 })
+      }
+      updateData.type = body.type
+    }
+    if (body.baseCurrency !== undefined) {
+      const baseCurrency = typeof body.baseCurrency === "string" ? body.baseCurrency.trim().toUpperCase() : ""
+      if (!isCurrencyCode(baseCurrency)) {
+        return NextResponse.json({ error: "Invalid base currency" }, { status: 400 })
+      }
+      updateData.baseCurrency = baseCurrency
+    }
+    if (body.archived !== undefined) {
+      updateData.archived = Boolean(body.archived)
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    // Stored amounts and balances are in the base currency, so it is only chosen while the account is empty.
+    // Entries in the trash count too, as restoring one would bring back amounts in the old currency.
+    if (
+      updateData.baseCurrency !== undefined &&
+      updateData.baseCurrency !== (account.baseCurrency ?? DEFAULT_BASE_CURRENCY) &&
+      (await db.collection<EntryDoc>("entries").findOne({ accountId: account._id }))
+    ) {
+      return NextResponse.json(
+        { error: "The account has entries; its base currency cannot change" },
+        { status: 409 },
+      )
+    }
+
+    await db.collection<AccountDoc>("accounts").updateOne({ _id: account._id }, { $set: updateData })
+    // The type picks the control account and the base currency is the journal currency
+    if (updateData.type !== undefined || updateData.baseCurrency !== undefined) {
+      await resyncAccountJournals(db, session.organizationId, account._id)
+    }
+
+    return NextResponse.json(serializeAccount({ ...account, ...updateData }))
+  } catch (error) {
+    console.error("Error updating account:", error)
+    return NextResponse.json({ error: "Failed to update account" }, { status: 500 })
+  }
+}
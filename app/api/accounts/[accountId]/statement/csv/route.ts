@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount, serializeAccount } from "@/lib/accounts"
+import { parseEntryQuery } from "@/lib/entries"
+import { CSV_DELIMITERS, parseStatementColumns, type CsvDelimiter } from "@/lib/statement-columns"
+import { buildAccountStatementExport, statementFilename } from "@/lib/statements"
+import { DEFAULT_CSV_LOCALE, isSupportedLocale, renderStatementCsv } from "@/lib/statement-csv"
+
+// GET - Statement as CSV. Takes the entry list filters (?particulars=&startDate=&endDate=) plus
+// ?columns=date,particulars,...&delimiter=comma|semicolon|tab&locale=de-DE&bom=true
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const searchParams = request.nextUrl.searchParams
+    const query = parseEntryQuery(searchParams)
+    if ("error" in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    const columns = parseStatementColumns(searchParams.get("columns"))
+    if (!columns) {
+      return NextResponse.json({ error: "Unknown column" }, { status: 400 })
+    }
+    const delimiter = searchParams.get("delimiter") ?? "comma"
+    if (!Object.hasOwn(CSV_DELIMITERS, delimiter)) {
+      return NextResponse.json({ error: "delimiter must be comma, semicolon or tab" }, { status: 400 })
+    }
+    const locale = searchParams.get("locale") || DEFAULT_CSV_LOCALE
+    if (!isSupportedLocale(locale)) {
+      return NextResponse.json({ error: "Unsupported locale" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const statement = await buildAccountStatementExport(db, serializeAccount(account), query)
+    const csv = renderStatementCsv(statement, {
+      columns,
+      delimiter: delimiter as CsvDelimiter,
+      locale,
+      bom: searchParams.get("bom") === "true",
+    })
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${statementFilename(statement, "csv")}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting statement CSV:", error)
+    return NextResponse.json({ error: "Failed to export statement CSV" }, { status: 500 })
+  }
+}
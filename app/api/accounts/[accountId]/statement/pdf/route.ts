@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount, serializeAccount } from "@/lib/accounts"
+import { parseEntryQuery } from "@/lib/entries"
+import { getLetterhead } from "@/lib/organization"
+import { buildAccountStatementExport, statementFilename } from "@/lib/statements"
+import { renderStatementPdf } from "@/lib/statement-pdf"
+
+// GET - Printable PDF statement (?particulars=&startDate=&endDate=, as for the entry list)
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const query = parseEntryQuery(request.nextUrl.searchParams)
+    if ("error" in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const statement = await buildAccountStatementExport(db, serializeAccount(account), query)
+    const pdf = renderStatementPdf(statement, await getLetterhead(db, session.organizationId))
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${statementFilename(statement, "pdf")}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating statement PDF:", error)
+    return NextResponse.json({ error: "Failed to generate statement PDF" }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount, serializeAccount } from "@/lib/accounts"
+import { parseEntryQuery } from "@/lib/entries"
+import { buildAccountStatementExport, statementFilename } from "@/lib/statements"
+import { renderStatementXlsx } from "@/lib/statement-xlsx"
+
+// GET - Statement as an Excel workbook (?particulars=&startDate=&endDate=, as for the entry list)
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const query = parseEntryQuery(request.nextUrl.searchParams)
+    if ("error" in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const statement = await buildAccountStatementExport(db, serializeAccount(account), query)
+
+    return new NextResponse(renderStatementXlsx(statement), {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="${statementFilename(statement, "xlsx")}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting statement workbook:", error)
+    return NextResponse.json({ error: "Failed to export statement workbook" }, { status: 500 })
+  }
+}
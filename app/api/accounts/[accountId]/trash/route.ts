@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount } from "@/lib/accounts"
+import { listVoidedEntries } from "@/lib/entries"
+
+// GET - Voided entries of the account, most recently voided first
+export async function GET(request: NextRequest, { params }: { params: { accountId: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, params.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(await listVoidedEntries(db, account._id))
+  } catch (error) {
+    console.error("Error fetching trash:", error)
+    return NextResponse.json({ error: "Failed to fetch trash" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { isAccountType, serializeAccount, type AccountDoc } from "@/lib/accounts"
+import { DEFAULT_BASE_CURRENCY, isCurrencyCode } from "@/lib/currency"
+
+// GET - List accounts (archived ones only with ?includeArchived=true)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true"
+    const db = await getDatabase()
+
+    const filter = {
+      organizationId: session.organizationId,
+      ...(!includeArchived && { archived: { $ne: true } }),
+    }
+    const accounts = await db.collection<AccountDoc>("accounts").find(filter).sort({ name: 1 }).toArray()
+
+    return NextResponse.json(accounts.map(serializeAccount))
+  } catch (error) {
+    console.error("Error fetching accounts:", error)
+    return NextResponse.json({ error: "Failed to fetch accounts" }, { status: 500 })
+  }
+}
+
+// POST - Create new account
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "accounts:manage")
+    if (response) return response
+
+    const body = (await request.json().catch(() => null)) ?? {}
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const type = body.type ?? "customer"
+    const baseCurrency =
+      typeof body.baseCurrency === "string" ? body.baseCurrency.trim().toUpperCase() : DEFAULT_BASE_CURRENCY
+
+    if (!name || !isAccountType(type)) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+    if (!isCurrencyCode(baseCurrency)) {
+      return NextResponse.json({ error: "Invalid base currency" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const newAccount = {
+      organizationId: session.organizationId,
+      name,
+      type,
+      baseCurrency,
+      archived: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    const result = await db.collection<AccountDoc>("accounts").insertOne(newAccount)
+
+    return NextResponse.json(serializeAccount({ ...newAccount, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating account:", error)
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 })
+  }
+}
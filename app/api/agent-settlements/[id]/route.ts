@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAgentSettlement, undoAgentSettlement } from "@/lib/agents"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+
+// DELETE - Undo a settlement, reopening its transfers and voiding its payment in the journal
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "agents:settle")
+    if (response) return response
+
+    const db = await getDatabase()
+    const settlement = await findAgentSettlement(db, session.organizationId, params.id)
+    if (!settlement || settlement.voided) {
+      return NextResponse.json({ error: "Settlement not found" }, { status: 404 })
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(settlement.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    if (!(await undoAgentSettlement(db, settlement, auditContext(request, session)))) {
+      return NextResponse.json({ error: "Settlement not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Settlement undone" })
+  } catch (error) {
+    console.error("Error undoing settlement:", error)
+    return NextResponse.json({ error: "Failed to undo settlement" }, { status: 500 })
+  }
+}
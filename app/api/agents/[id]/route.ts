@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { agentSchema, findAgent, getAgentLedger, getAgentPosition, serializeAgent } from "@/lib/agents"
+
+// GET - An agent with its position, its running ledger of transfers and settlements, and its settlements
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const agent = await findAgent(db, session.organizationId, params.id)
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 })
+    }
+
+    const [position, ledger] = await Promise.all([getAgentPosition(db, agent._id), getAgentLedger(db, agent._id)])
+
+    return NextResponse.json({ agent: serializeAgent(agent), position, ...ledger })
+  } catch (error) {
+    console.error("Error fetching agent:", error)
+    return NextResponse.json({ error: "Failed to fetch agent" }, { status: 500 })
+  }
+}
+
+// PUT - Rename, move, archive or unarchive an agent
+// Body: { name?, country?, currency?, settlementCurrency?, archived? }
+// Its currencies are fixed once entries are tagged with it, and it is archived only once it is fully settled.
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "agents:manage")
+    if (response) return response
+
+    const body = (await request.json().catch(() => null)) ?? {}
+    const parsed = agentSchema.partial().safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const agent = await findAgent(db, session.organizationId, params.id)
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 })
+    }
+
+    const currencyChanged =
+      (parsed.data.currency && parsed.data.currency !== agent.currency) ||
+      (parsed.data.settlementCurrency && parsed.data.settlementCurrency !== agent.settlementCurrency)
+    if (currencyChanged && (await db.collection("entries").findOne({ agentId: agent._id }))) {
+      return NextResponse.json(
+        { error: "The agent already has transfers; its currencies cannot change" },
+        { status: 409 },
+      )
+    }
+    if (body.archived && !agent.archived && (await getAgentPosition(db, agent._id)).openTransfers > 0) {
+      return NextResponse.json({ error: "Settle the agent's open transfers before archiving it" }, { status: 409 })
+    }
+
+    const updateData = {
+      ...parsed.data,
+      ...(body.archived !== undefined && { archived: Boolean(body.archived) }),
+      updatedAt: new Date(),
+    }
+    await db.collection("agents").updateOne({ _id: agent._id }, { $set: updateData })
+
+    return NextResponse.json(serializeAgent({ ...agent, ...updateData }))
+  } catch (error) {
+    console.error("Error updating agent:", error)
+    return NextResponse.json({ error: "Failed to update agent" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { agentSettlementSchema, findAgent, settleAgentTransfers } from "@/lib/agents"
+import { findPostingAccount } from "@/lib/ledger"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+
+// POST - Record a net-off payment with the agent that clears the chosen transfers
+// Body: { date, entryIds, counterAccountId?, reference? }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "agents:settle")
+    if (response) return response
+
+    const parsed = agentSettlementSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const agent = await findAgent(db, session.organizationId, params.id)
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 })
+    }
+    if (
+      parsed.data.counterAccountId &&
+      !(await findPostingAccount(db, session.organizationId, parsed.data.counterAccountId))
+    ) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: { counterAccountId: ["Choose an open ledger account"] } },
+        { status: 400 },
+      )
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(parsed.data.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    const settlement = await settleAgentTransfers(
+      db,
+      session.organizationId,
+      agent,
+      parsed.data,
+      auditContext(request, session),
+    )
+    if (!settlement) {
+      return NextResponse.json(
+        { error: "Some of the transfers are no longer open; reload and try again" },
+        { status: 409 },
+      )
+    }
+
+    return NextResponse.json(settlement, { status: 201 })
+  } catch (error) {
+    console.error("Error settling agent transfers:", error)
+    return NextResponse.json({ error: "Failed to settle agent transfers" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { agentSchema, ensureAgentIndexes, listAgentsWithPositions, serializeAgent } from "@/lib/agents"
+
+// GET - The organization's agents, each with its position over unsettled transfers
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const agents = await listAgentsWithPositions(db, session.organizationId)
+
+    return NextResponse.json(agents)
+  } catch (error) {
+    console.error("Error fetching agents:", error)
+    return NextResponse.json({ error: "Failed to fetch agents" }, { status: 500 })
+  }
+}
+
+// POST - Add an agent. Body: { name, country, currency, settlementCurrency }
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "agents:manage")
+    if (response) return response
+
+    const parsed = agentSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    await ensureAgentIndexes(db)
+
+    const newAgent = {
+      organizationId: session.organizationId,
+      ...parsed.data,
+      archived: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection("agents").insertOne(newAgent)
+
+    return NextResponse.json(serializeAgent({ ...newAgent, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating agent:", error)
+    return NextResponse.json({ error: "Failed to create agent" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { AUDIT_PAGE_SIZE, isEntryEventType, listAuditEvents } from "@/lib/audit"
+
+// GET - Organization-wide entry events, newest first
+// Optional: type (create|update|void|restore|delete|reverse|status|settlement|reconciliation), accountId, cursor
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "audit:view")
+    if (response) return response
+
+    const searchParams = request.nextUrl.searchParams
+    const type = searchParams.get("type") || undefined
+    if (type !== undefined && !isEntryEventType(type)) {
+      return NextResponse.json({ error: "Invalid event type" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const page = await listAuditEvents(db, session.organizationId, {
+      type,
+      accountId: searchParams.get("accountId") ?? undefined,
+      cursor: searchParams.get("cursor") ?? undefined,
+      limit: AUDIT_PAGE_SIZE,
+    })
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    return NextResponse.json({ error: "Failed to fetch audit log" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { createSession, setSessionCookie, verifyPassword } from "@/lib/auth"
+
+// POST - Sign in with email and password
+export async function POST(request: NextRequest) {
+  try {
+    // A body that is not JSON, or not an object, is answered like one without credentials
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : ""
+    const password = typeof body?.password === "string" ? body.password : ""
+
+    if (!email || !password) {
+      return NextResponse.json({ error: "Email and password are required" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const user = await db.collection("users").findOne({ email, disabled: { $ne: true } })
+
+    // Same answer for unknown email and wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json({ error: "Invalid email or password" }, { status: 401 })
+    }
+
+    const { token, expiresAt } = await createSession(db, { _id: user._id, organizationId: user.organizationId })
+    const response = NextResponse.json({ name: user.name, email: user.email })
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    console.error("Error logging in:", error)
+    return NextResponse.json({ error: "Failed to log in" }, { status: 500 })
+  }
+}
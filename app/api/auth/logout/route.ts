@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { SESSION_COOKIE, clearSessionCookie, deleteSession } from "@/lib/auth"
+
+// POST - End the current session
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value
+    if (token) {
+      const db = await getDatabase()
+      await deleteSession(db, token)
+    }
+
+    const response = NextResponse.json({ message: "Logged out" })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    console.error("Error logging out:", error)
+    return NextResponse.json({ error: "Failed to log out" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getDatabase } from "@/lib/mongodb"
+import { claimLegacyData, createSession, ensureAuthIndexes, hashPassword, setSessionCookie } from "@/lib/auth"
+
+const registerSchema = z.object({
+  organizationName: z.string().trim().min(1, "Organization name is required").max(100),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+})
+
+// POST - Create an organization with its first user and sign them in
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = registerSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const { organizationName, name, email, password } = parsed.data
+    const db = await getDatabase()
+    await ensureAuthIndexes(db)
+
+    if (await db.collection("users").findOne({ email })) {
+      return NextResponse.json({ error: "An account with this email already exists" }, { status: 409 })
+    }
+
+    const isFirstOrganization = (await db.collection("organizations").countDocuments()) === 0
+    const organization = await db.collection("organizations").insertOne({
+      name: organizationName,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    if (isFirstOrganization) {
+      await claimLegacyData(db, organization.insertedId)
+    }
+
+    const user = {
+      organizationId: organization.insertedId,
+      name,
+      email,
+      role: "admin",
+      passwordHash: await hashPassword(password),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection("users").insertOne(user)
+
+    const { token, expiresAt } = await createSession(db, { ...user, _id: result.insertedId })
+    const response = NextResponse.json({ name, email, organizationName }, { status: 201 })
+    setSessionCookie(response, token, expiresAt)
+    return response
+  } catch (error) {
+    console.error("Error registering:", error)
+    return NextResponse.json({ error: "Failed to register" }, { status: 500 })
+  }
+}
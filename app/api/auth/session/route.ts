@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+
+// GET - Current user and organization
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const organization = await db.collection("organizations").findOne({ _id: session.organizationId })
+
+    return NextResponse.json({
+      id: session.userId.toString(),
+      name: session.name,
+      email: session.email,
+      role: session.role,
+      organization: { id: session.organizationId.toString(), name: organization?.name },
+    })
+  } catch (error) {
+    console.error("Error fetching session:", error)
+    return NextResponse.json({ error: "Failed to fetch session" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findBankLine, listMatchCandidates } from "@/lib/reconciliation"
+
+// GET - Unreconciled entries the bank line could be matched to, same amount first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const line = await findBankLine(db, session.organizationId, params.id)
+    if (!line) {
+      return NextResponse.json({ error: "Bank line not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(await listMatchCandidates(db, line))
+  } catch (error) {
+    console.error("Error fetching match candidates:", error)
+    return NextResponse.json({ error: "Failed to fetch match candidates" }, { status: 500 })
+  }
+}
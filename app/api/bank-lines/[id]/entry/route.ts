@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAccount } from "@/lib/accounts"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { createAccountEntry, findAccountEntry, validateEntryRefs } from "@/lib/entries"
+import { entrySchema, validationErrorBody } from "@/lib/entry-schema"
+import { ensureChartOfAccounts } from "@/lib/ledger"
+import { findBankLine, linkBankLine } from "@/lib/reconciliation"
+
+// POST - Post a new entry for an unmatched bank line, dated and sized like the line, and match the two.
+// The entry's counter account is the Bank ledger account since the money moved through the bank.
+// Body: { particulars?, contactId? } - particulars defaults to the line's description
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reconcile")
+    if (response) return response
+
+    const body = (await request.json().catch(() => null)) ?? {}
+    const db = await getDatabase()
+    const line = await findBankLine(db, session.organizationId, params.id)
+    if (!line) {
+      return NextResponse.json({ error: "Bank line not found" }, { status: 404 })
+    }
+    if (line.match) {
+      return NextResponse.json({ error: "The line is already matched" }, { status: 409 })
+    }
+
+    const chart = await ensureChartOfAccounts(db, session.organizationId)
+    const parsed = entrySchema.safeParse({
+      date: line.date,
+      particulars: body.particulars || line.description || line.reference,
+      debit: line.amount < 0 ? -line.amount : 0,
+      credit: line.amount > 0 ? line.amount : 0,
+      contactId: body.contactId,
+      counterAccountId: chart.get("bank")!.toString(),
+    })
+    if (!parsed.success) {
+      return NextResponse.json(validationErrorBody(parsed.error), { status: 400 })
+    }
+
+    const account = await findAccount(db, session.organizationId, line.accountId.toString())
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    if (account.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+    const baseCurrency = account.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const refsError = await validateEntryRefs(db, session.organizationId, parsed.data, baseCurrency)
+    if (refsError) {
+      return NextResponse.json(refsError.body, { status: refsError.status })
+    }
+
+    const context = auditContext(request, session)
+    const entry = await createAccountEntry(db, session.organizationId, account._id.toString(), parsed.data, context)
+    const created = await findAccountEntry(db, session.organizationId, entry.id!)
+    const linked = created && (await linkBankLine(db, line, created, "created", context))
+    if (!linked) {
+      // The entry stands on its own; the line was matched by someone else in the meantime
+      return NextResponse.json({ error: "The line was matched meanwhile", entry }, { status: 409 })
+    }
+
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    console.error("Error creating entry from bank line:", error)
+    return NextResponse.json({ error: "Failed to create entry from bank line" }, { status: 500 })
+  }
+}
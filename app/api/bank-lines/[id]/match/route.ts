@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAccountEntry } from "@/lib/entries"
+import { findBankLine, linkBankLine, unlinkBankLine } from "@/lib/reconciliation"
+
+const matchSchema = z.object({
+  entryId: z.string({ required_error: "Choose an entry" }).regex(/^[a-f\d]{24}$/i, "Choose an entry"),
+})
+
+// POST - Match the bank line to an entry of the same account by hand and mark the entry reconciled
+// Body: { entryId }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reconcile")
+    if (response) return response
+
+    const parsed = matchSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const line = await findBankLine(db, session.organizationId, params.id)
+    if (!line) {
+      return NextResponse.json({ error: "Bank line not found" }, { status: 404 })
+    }
+    const entry = await findAccountEntry(db, session.organizationId, parsed.data.entryId)
+    if (!entry || entry.voided || !entry.accountId.equals(line.accountId)) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+
+    const linked = await linkBankLine(db, line, entry, "manual", auditContext(request, session))
+    if (!linked) {
+      return NextResponse.json({ error: "The line or the entry is already matched" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error matching bank line:", error)
+    return NextResponse.json({ error: "Failed to match bank line" }, { status: 500 })
+  }
+}
+
+// DELETE - Undo the bank line's match; the entry is no longer reconciled
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reconcile")
+    if (response) return response
+
+    const db = await getDatabase()
+    const line = await findBankLine(db, session.organizationId, params.id)
+    if (!line) {
+      return NextResponse.json({ error: "Bank line not found" }, { status: 404 })
+    }
+    if (!(await unlinkBankLine(db, line, auditContext(request, session)))) {
+      return NextResponse.json({ error: "The line is not matched" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error unmatching bank line:", error)
+    return NextResponse.json({ error: "Failed to unmatch bank line" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { contactSchema, findContact, serializeContact, type ContactDoc } from "@/lib/contacts"
+
+// GET - Fetch a single contact
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const contact = await findContact(db, session.organizationId, params.id)
+
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeContact(contact))
+  } catch (error) {
+    console.error("Error fetching contact:", error)
+    return NextResponse.json({ error: "Failed to fetch contact" }, { status: 500 })
+  }
+}
+
+// PUT - Update a contact
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "contacts:manage")
+    if (response) return response
+
+    const parsed = contactSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const contact = await findContact(db, session.organizationId, params.id)
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 })
+    }
+
+    // Cleared optional fields are stored as null so $set overwrites the old value
+    const { name, phone, country, idDocumentNumber, notes } = parsed.data
+    const updateData = {
+      name,
+      phone: phone ?? null,
+      country: country ?? null,
+      idDocumentNumber: idDocumentNumber ?? null,
+      notes: notes ?? null,
+      updatedAt: new Date(),
+    }
+    await db.collection<ContactDoc>("contacts").updateOne({ _id: contact._id }, { $set: updateData })
+
+    return NextResponse.json(serializeContact({ ...contact, ...updateData }))
+  } catch (error) {
+    console.error("Error updating contact:", error)
+    return NextResponse.json({ error: "Failed to update contact" }, { status: 500 })
+  }
+}
+
+// DELETE - Delete a contact that no entry refers to
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "contacts:manage")
+    if (response) return response
+
+    const db = await getDatabase()
+    const contact = await findContact(db, session.organizationId, params.id)
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 })
+    }
+
+    if (await db.collection("entries").findOne({ contactId: contact._id }, { projection: { _id: 1 } })) {
+      return NextResponse.json(
+        { error: "Contact has entries. Merge it into another contact instead." },
+        { status: 409 },
+      )
+    }
+
+    await db.collection<ContactDoc>("contacts").deleteOne({ _id: contact._id })
+
+    return NextResponse.json({ message: "Contact deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting contact:", error)
+    return NextResponse.json({ error: "Failed to delete contact" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { buildContactStatement, findContact, serializeContact } from "@/lib/contacts"
+import { DATE_PATTERN } from "@/lib/entries"
+
+// GET - A contact's own statement across accounts (?startDate=&endDate=)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const searchParams = request.nextUrl.searchParams
+    const range: { startDate?: string; endDate?: string } = {}
+    for (const key of ["startDate", "endDate"] as const) {
+      const value = searchParams.get(key)
+      if (!value) continue
+      if (!DATE_PATTERN.test(value)) {
+        return NextResponse.json({ error: `${key} must be YYYY-MM-DD` }, { status: 400 })
+      }
+      range[key] = value
+    }
+
+    const db = await getDatabase()
+    const contact = await findContact(db, session.organizationId, params.id)
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 })
+    }
+
+    const statement = await buildContactStatement(db, session.organizationId, contact._id, range)
+
+    return NextResponse.json({ contact: serializeContact(contact), ...statement })
+  } catch (error) {
+    console.error("Error fetching contact statement:", error)
+    return NextResponse.json({ error: "Failed to fetch contact statement" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findContact, mergeIntoContact, mergeSchema } from "@/lib/contacts"
+
+// POST - Link entries with any of the given particulars to a contact and fold duplicate contacts into it
+// Body: { targetId, particulars?: string[], contactIds?: string[] }
+// Responds with { linked, skipped }; entries in the locked period are skipped and keep their contact
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "contacts:merge")
+    if (response) return response
+
+    const parsed = mergeSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const { targetId, particulars, contactIds } = parsed.data
+    if (particulars.length === 0 && contactIds.length === 0) {
+      return NextResponse.json({ error: "Nothing to merge" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const target = await findContact(db, session.organizationId, targetId)
+    if (!target) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 })
+    }
+
+    const result = await mergeIntoContact(
+      db,
+      session.organizationId,
+      target,
+      particulars,
+      contactIds,
+      auditContext(request, session),
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error merging contacts:", error)
+    return NextResponse.json({ error: "Failed to merge contacts" }, { status: 500 })
+  }
+}
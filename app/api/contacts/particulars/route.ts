@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { listUnlinkedParticulars } from "@/lib/contacts"
+
+// GET - Particulars of entries without a contact, grouped by spelling so duplicates can be merged
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "contacts:merge")
+    if (response) return response
+
+    const db = await getDatabase()
+    return NextResponse.json(await listUnlinkedParticulars(db, session.organizationId))
+  } catch (error) {
+    console.error("Error fetching particulars:", error)
+    return NextResponse.json({ error: "Failed to fetch particulars" }, { status: 500 })
+  }
+}
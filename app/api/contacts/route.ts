@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import {
+  contactSchema,
+  ensureContactIndexes,
+  searchContacts,
+  serializeContact,
+  type ContactDoc,
+} from "@/lib/contacts"
+
+// GET - Search contacts by name, phone or ID document number (?q=)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const contacts = await searchContacts(db, session.organizationId, request.nextUrl.searchParams.get("q") ?? "")
+
+    return NextResponse.json(contacts)
+  } catch (error) {
+    console.error("Error fetching contacts:", error)
+    return NextResponse.json({ error: "Failed to fetch contacts" }, { status: 500 })
+  }
+}
+
+// POST - Create a contact
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "contacts:manage")
+    if (response) return response
+
+    const parsed = contactSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    await ensureContactIndexes(db)
+
+    const newContact = {
+      organizationId: session.organizationId,
+      ...parsed.data,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection<ContactDoc>("contacts").insertOne(newContact)
+
+    return NextResponse.json(serializeContact({ ...newContact, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating contact:", error)
+    return NextResponse.json({ error: "Failed to create contact" }, { status: 500 })
+  }
+}
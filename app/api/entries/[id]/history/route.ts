@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { listEntryEvents } from "@/lib/audit"
+
+// GET - Every recorded change to an entry, oldest first. Still available after the entry is deleted.
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "audit:view")
+    if (response) return response
+
+    const db = await getDatabase()
+    const events = await listEntryEvents(db, session.organizationId, params.id)
+
+    return NextResponse.json(events)
+  } catch (error) {
+    console.error("Error fetching entry history:", error)
+    return NextResponse.json({ error: "Failed to fetch entry history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { purgeAccountEntry } from "@/lib/entries"
+
+// POST - Permanently delete a voided entry. Its history stays in the audit log.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:purge")
+    if (response) return response
+
+    const db = await getDatabase()
+    const purged = await purgeAccountEntry(db, session.organizationId, params.id, auditContext(request, session))
+
+    if (!purged) {
+      return NextResponse.json({ error: "Entry not found in trash" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Entry permanently deleted" })
+  } catch (error) {
+    console.error("Error purging entry:", error)
+    return NextResponse.json({ error: "Failed to purge entry" }, { status: 500 })
+  }
+}
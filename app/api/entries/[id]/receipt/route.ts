@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccountEntry } from "@/lib/entries"
+import { getEntryReceipt } from "@/lib/receipts"
+
+// GET - Receipt of an entry: the entry with its reference, account, letterhead, contact and paying agent
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const entry = await findAccountEntry(db, session.organizationId, params.id)
+    if (!entry) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+    if (entry.voided) {
+      return NextResponse.json(
+        { error: "Restore the entry from the trash before printing its receipt" },
+        { status: 409 },
+      )
+    }
+
+    return NextResponse.json(await getEntryReceipt(db, session.organizationId, entry))
+  } catch (error) {
+    console.error("Error fetching receipt:", error)
+    return NextResponse.json({ error: "Failed to fetch receipt" }, { status: 500 })
+  }
+}
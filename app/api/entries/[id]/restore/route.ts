@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { entryDelta } from "@/lib/balances"
+import { findAccountEntry, restoreAccountEntry, type EntryDoc } from "@/lib/entries"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+
+// POST - Restore a voided entry from the trash
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:delete")
+    if (response) return response
+
+    const db = await getDatabase()
+    const existing = await findAccountEntry(db, session.organizationId, params.id)
+    if (!existing?.voided) {
+      return NextResponse.json({ error: "Entry not found in trash" }, { status: 404 })
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(existing.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    // A voided reversal can only come back while its original has not been reversed again and still
+    // carries the amount it cancels
+    if (existing.reversalOf) {
+      const original = await db.collection<EntryDoc>("entries").findOne({ _id: existing.reversalOf })
+      if (original?.reversedBy) {
+        return NextResponse.json({ error: "The original entry has already been reversed again" }, { status: 409 })
+      }
+      if (!original || original.voided || Math.abs(entryDelta(original) + entryDelta(existing)) >= 0.005) {
+        return NextResponse.json(
+          { error: "The original entry has changed since it was reversed; post a new reversal instead" },
+          { status: 409 },
+        )
+      }
+    }
+
+    const restored = await restoreAccountEntry(db, session.organizationId, params.id, auditContext(request, session))
+
+    if (!restored) {
+      return NextResponse.json({ error: "Entry not found in trash" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Entry restored successfully" })
+  } catch (error) {
+    console.error("Error restoring entry:", error)
+    return NextResponse.json({ error: "Failed to restore entry" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { isoDate } from "@/lib/entry-schema"
+import { findAccountEntry, reverseAccountEntry } from "@/lib/entries"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+import { countsInBalance } from "@/lib/transfer-status"
+import type { AccountDoc } from "@/lib/accounts"
+
+const reverseSchema = z.object({
+  date: isoDate.optional(),
+})
+
+// POST - Post a counter-entry that cancels this one. Body: { date? } (defaults to today)
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:reverse")
+    if (response) return response
+
+    const parsed = reverseSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+    const date = parsed.data.date ?? new Date().toISOString().split("T")[0]
+
+    const db = await getDatabase()
+    const original = await findAccountEntry(db, session.organizationId, params.id)
+    if (!original || original.voided) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+    if (original.reversedBy) {
+      return NextResponse.json({ error: "Entry has already been reversed" }, { status: 409 })
+    }
+    if (!countsInBalance(original.status)) {
+      return NextResponse.json({ error: "A cancelled or refunded transfer has no amount to reverse" }, { status: 409 })
+    }
+
+    const account = await db.collection<AccountDoc>("accounts").findOne({ _id: original.accountId })
+    if (account?.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    const reversal = await reverseAccountEntry(db, session.organizationId, original, date, auditContext(request, session))
+    if (!reversal) {
+      return NextResponse.json({ error: "Entry has already been reversed" }, { status: 409 })
+    }
+
+    return NextResponse.json(reversal, { status: 201 })
+  } catch (error) {
+    console.error("Error reversing entry:", error)
+    return NextResponse.json({ error: "Failed to reverse entry" }, { status: 500 })
+  }
+}
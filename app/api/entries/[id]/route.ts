@@ -1,32 +1,63 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getDatabase } from "@/lib/mongodb"
-import { ObjectId } from "mongodb"
+import { forbidden, requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { entrySchema, validationErrorBody, voidEntrySchema } from "@/lib/entry-schema"
+import {
+  findAccountEntry,
+  REVERSED_MESSAGE,
+  SETTLED_MESSAGE,
+  updateAccountEntry,
+  validateEntryRefs,
+  voidAccountEntry,
+} from "@/lib/entries"
+import { canEditEntryDated } from "@/lib/roles"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+import type { AccountDoc } from "@/lib/accounts"
 
 // PUT - Update entry
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const { id } = params
-    const body = await request.json()
-    const { date, particulars, debitCountry, debit, creditCountry, credit } = body
+    const { session, response } = await requirePermission(request, "entries:edit")
+    if (response) return response
 
-    if (!particulars || (!debit && !credit)) {
-      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    const { id } = params
+    const parsed = entrySchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(validationErrorBody(parsed.error), { status: 400 })
     }
 
     const db = await getDatabase()
-    const updateData = {
-      date,
-      particulars,
-      debitCountry: Number(debitCountry) || 0,
-      debit: Number(debit) || 0,
-      creditCountry: Number(creditCountry) || 0,
-      credit: Number(credit) || 0,
-      updatedAt: new Date(),
+    const existing = await findAccountEntry(db, session.organizationId, id)
+    if (!existing) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+    if (existing.voided) {
+      return NextResponse.json({ error: "Restore the entry from the trash before editing it" }, { status: 409 })
+    }
+    if (existing.settlement) {
+      return NextResponse.json({ error: SETTLED_MESSAGE }, { status: 409 })
+    }
+    if (existing.reversedBy || existing.reversalOf) {
+      return NextResponse.json({ error: REVERSED_MESSAGE }, { status: 409 })
+    }
+    const account = await db.collection<AccountDoc>("accounts").findOne({ _id: existing.accountId })
+    const baseCurrency = account?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const refsError = await validateEntryRefs(db, session.organizationId, parsed.data, baseCurrency, {
+      date: existing.date,
+      agentId: existing.agentId,
+    })
+    if (refsError) {
+      return NextResponse.json(refsError.body, { status: refsError.status })
     }
 
-    const result = await db.collection("entries").updateOne({ _id: new ObjectId(id) }, { $set: updateData })
+    if (!canEditEntryDated(session.role, existing.date, parsed.data.date)) {
+      return forbidden("Only approvers can edit entries dated before today")
+    }
 
-    if (result.matchedCount === 0) {
+    const entry = await updateAccountEntry(db, session.organizationId, id, parsed.data, auditContext(request, session))
+    if (!entry) {
       return NextResponse.json({ error: "Entry not found" }, { status: 404 })
     }
 
@@ -37,19 +68,52 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
   }
 }
 
-// DELETE - Delete entry
+// DELETE - Void an entry, moving it to the trash. Body: { reason }
+// Voiding a reversal undoes it; a reversed original stays until its reversal is voided.
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const { session, response } = await requirePermission(request, "entries:delete")
+    if (response) return response
+
     const { id } = params
+    const parsed = voidEntrySchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
     const db = await getDatabase()
+    const existing = await findAccountEntry(db, session.organizationId, id)
+    if (!existing) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+    if (existing.settlement) {
+      return NextResponse.json({ error: SETTLED_MESSAGE }, { status: 409 })
+    }
+    if (existing.reversedBy) {
+      return NextResponse.json({ error: REVERSED_MESSAGE }, { status: 409 })
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(existing.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
 
-    const result = await db.collection("entries").deleteOne({ _id: new ObjectId(id) })
+    const voided = await voidAccountEntry(
+      db,
+      session.organizationId,
+      id,
+      parsed.data.reason,
+      auditContext(request, session),
+    )
 
-    if (result.deletedCount === 0) {
+    if (!voided) {
       return NextResponse.json({ error: "Entry not found" }, { status: 404 })
     }
 
-    return NextResponse.json({ message: "Entry deleted successfully" })
+    return NextResponse.json({ message: "Entry moved to trash" })
   } catch (error) {
     console.error("Error deleting entry:", error)
     return NextResponse.json({ error: "Failed to delete entry" }, { status: 500 })
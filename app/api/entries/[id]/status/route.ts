@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { REVERSED_MESSAGE, SETTLED_MESSAGE, changeEntryStatus, findAccountEntry } from "@/lib/entries"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+import {
+  DEFAULT_TRANSFER_STATUS,
+  TRANSFER_STATUS_LABELS,
+  canChangeStatus,
+  countsInBalance,
+  statusChangeSchema,
+  type TransferStatus,
+} from "@/lib/transfer-status"
+
+// POST - Move a transfer along its lifecycle, e.g. mark a pending transfer paid out. Body: { status }
+// Marking a transfer paid out leaves the balances alone and is allowed in a locked period too; cancelling or
+// refunding takes the amount out of them, so the entry's date must be open. Entries of a reversal pair keep
+// their status.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:edit")
+    if (response) return response
+
+    const parsed = statusChangeSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const existing = await findAccountEntry(db, session.organizationId, params.id)
+    if (!existing || existing.voided) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 })
+    }
+
+    const from: TransferStatus = existing.status ?? DEFAULT_TRANSFER_STATUS
+    if (!canChangeStatus(from, parsed.data.status)) {
+      const to = parsed.data.status
+      return NextResponse.json(
+        { error: `A transfer cannot go from ${TRANSFER_STATUS_LABELS[from]} to ${TRANSFER_STATUS_LABELS[to]}` },
+        { status: 409 },
+      )
+    }
+    if (existing.settlement) {
+      return NextResponse.json({ error: SETTLED_MESSAGE }, { status: 409 })
+    }
+    // Both halves of a reversal pair keep the same status, so they cancel out in every balance and account
+    if (existing.reversedBy || existing.reversalOf) {
+      return NextResponse.json({ error: REVERSED_MESSAGE }, { status: 409 })
+    }
+
+    if (countsInBalance(from) !== countsInBalance(parsed.data.status)) {
+      const lockDate = await getLockDate(db, session.organizationId)
+      if (lockDate && isLocked(existing.date, lockDate)) {
+        return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+      }
+    }
+
+    const entry = await changeEntryStatus(
+      db,
+      session.organizationId,
+      existing,
+      parsed.data.status,
+      auditContext(request, session),
+    )
+    if (!entry) {
+      return NextResponse.json({ error: "The entry changed in the meantime; reload and try again" }, { status: 409 })
+    }
+
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error("Error changing entry status:", error)
+    return NextResponse.json({ error: "Failed to change entry status" }, { status: 500 })
+  }
+}
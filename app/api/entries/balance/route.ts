@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount } from "@/lib/accounts"
+import { ensureBalances, getBalanceAsOf, getPendingTotal } from "@/lib/balances"
+
+// GET - Account balance as of a date (?accountId=&asOf=YYYY-MM-DD, asOf defaults to today)
+// Optional: pending=exclude leaves out transfers not yet paid out
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const accountId = request.nextUrl.searchParams.get("accountId")
+    const asOf = request.nextUrl.searchParams.get("asOf") || new Date().toISOString().split("T")[0]
+
+    if (!accountId) {
+      return NextResponse.json({ error: "accountId is required" }, { status: 400 })
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return NextResponse.json({ error: "asOf must be YYYY-MM-DD" }, { status: 400 })
+    }
+    const pending = request.nextUrl.searchParams.get("pending") ?? "include"
+    if (pending !== "include" && pending !== "exclude") {
+      return NextResponse.json({ error: "pending must be include or exclude" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    await ensureBalances(db, account._id)
+    let balance = await getBalanceAsOf(db, account._id, asOf)
+    if (pending === "exclude") {
+      balance -= await getPendingTotal(db, account._id, asOf)
+    }
+
+    return NextResponse.json({ accountId, asOf, pending, balance })
+  } catch (error) {
+    console.error("Error fetching balance:", error)
+    return NextResponse.json({ error: "Failed to fetch balance" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { parseCsv } from "@/lib/csv"
+import { MAX_IMPORT_FILE_BYTES, MAX_IMPORT_ROWS } from "@/lib/import-mapping"
+import { readXlsxRows } from "@/lib/xlsx-reader"
+
+const FILE_TOO_LARGE = `The file must be at most ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB`
+
+// POST - Read an uploaded CSV or XLSX file (multipart "file" field) into a header row and data rows
+// for the import wizard to map, with serialDates set for workbooks so their date numbers are read as
+// Excel serials. Nothing is stored. Files over MAX_IMPORT_FILE_BYTES get a 413.
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, "entries:import")
+    if (response) return response
+
+    // Refuse oversized uploads before reading the body into memory, allowing for the multipart framing
+    if (Number(request.headers.get("content-length")) > MAX_IMPORT_FILE_BYTES + 64 * 1024) {
+      return NextResponse.json({ error: FILE_TOO_LARGE }, { status: 413 })
+    }
+
+    const file = (await request.formData()).get("file")
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return NextResponse.json({ error: FILE_TOO_LARGE }, { status: 413 })
+    }
+
+    const data = Buffer.from(await file.arrayBuffer())
+    // XLSX files are ZIP archives and start with "PK"
+    const isWorkbook = data[0] === 0x50 && data[1] === 0x4b
+    const rows = isWorkbook ? readXlsxRows(data) : parseCsv(data.toString("utf8"))
+    if (!rows) {
+      return NextResponse.json({ error: "Could not read the workbook" }, { status: 400 })
+    }
+
+    const [header, ...dataRows] = rows
+    if (!header || dataRows.length === 0) {
+      return NextResponse.json({ error: "The file needs a header row and at least one data row" }, { status: 400 })
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }, { status: 400 })
+    }
+
+    return NextResponse.json({ header, rows: dataRows, serialDates: isWorkbook })
+  } catch (error) {
+    console.error("Error reading import file:", error)
+    return NextResponse.json({ error: "Failed to read import file" }, { status: 500 })
+  }
+}
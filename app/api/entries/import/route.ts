@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findAccount } from "@/lib/accounts"
+import { importAccountEntries } from "@/lib/entries"
+import { previewImport } from "@/lib/entry-import"
+import { importRequestSchema } from "@/lib/import-mapping"
+import { getLockDate } from "@/lib/periods"
+
+// POST - Validate mapped spreadsheet rows and, with commit: true, insert them into the account in one bulk write.
+// Body: { accountId, rows, firstLine?, mapping, dateFormat?, serialDates?, numberFormat?, defaultCountryCurrency?,
+// commit?, skipDuplicates? }
+// A commit is all or nothing: any invalid row rejects the whole import.
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:import")
+    if (response) return response
+
+    const parsed = importRequestSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, parsed.data.accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    if (account.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+
+    const rows = await previewImport(db, parsed.data, await getLockDate(db, session.organizationId))
+    if (!parsed.data.commit) {
+      return NextResponse.json({ rows })
+    }
+
+    if (rows.some((row) => row.errors.length > 0)) {
+      return NextResponse.json({ error: "Some rows are invalid", rows }, { status: 400 })
+    }
+
+    const entries = rows
+      .filter((row) => !(row.duplicate && parsed.data.skipDuplicates))
+      .map((row) => row.entry!)
+    const imported = await importAccountEntries(
+      db,
+      session.organizationId,
+      parsed.data.accountId,
+      entries,
+      auditContext(request, session),
+    )
+
+    return NextResponse.json({ imported, skipped: rows.length - imported }, { status: 201 })
+  } catch (error) {
+    console.error("Error importing entries:", error)
+    return NextResponse.json({ error: "Failed to import entries" }, { status: 500 })
+  }
+}
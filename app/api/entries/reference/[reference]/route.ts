@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { serializeEntry } from "@/lib/entries"
+import { findEntryByReference, normalizeReference } from "@/lib/references"
+
+// GET - The entry with a reference, e.g. when an agent pays out against the code on a receipt.
+// Entries in the trash are returned too, with `voided` set, so a payout against one can be refused.
+export async function GET(request: NextRequest, { params }: { params: { reference: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const reference = normalizeReference(params.reference)
+    if (!reference) {
+      return NextResponse.json({ error: "Not a valid reference; check the digits" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const entry = await findEntryByReference(db, session.organizationId, reference)
+    if (!entry) {
+      return NextResponse.json({ error: "No entry has this reference" }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeEntry(entry))
+  } catch (error) {
+    console.error("Error looking up reference:", error)
+    return NextResponse.json({ error: "Failed to look up reference" }, { status: 500 })
+  }
+}
@@ -1,77 +1,87 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { entrySchema, validationErrorBody } from "@/lib/entry-schema"
+import { findAccount } from "@/lib/accounts"
+import { createAccountEntry, listAccountEntries, parseEntryQuery, validateEntryRefs } from "@/lib/entries"
 
-export interface AccountEntry {
-  _id?: string
-  id?: string
-  date: string
-  particulars: string
-  debitCountry: number
-  debit: number
-  creditCountry: number
-  credit: number
-  balance: number
-  createdAt?: Date
-  updatedAt?: Date
-}
+export type { AccountEntry } from "@/lib/entries"
 
-// GET - Fetch all entries
-export async function GET() {
+// GET - Fetch a page of an account's entries (?accountId=)
+// Optional: particulars, startDate, endDate, minAmount, maxAmount, status, pending, sort, order, limit, cursor
+// particulars also matches the reference and the sender's and beneficiary's names, phones and ID numbers
+export async function GET(request: NextRequest) {
   try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const accountId = request.nextUrl.searchParams.get("accountId")
+    if (!accountId) {
+      return NextResponse.json({ error: "accountId is required" }, { status: 400 })
+    }
+
+    const query = parseEntryQuery(request.nextUrl.searchParams)
+    if ("error" in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 })
+    }
+
     const db = await getDatabase()
-    const entries = await db.collection("entries").find({}).sort({ date: 1 }).toArray()
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
 
-    // Convert MongoDB _id to id and calculate running balance
-    let runningBalance = 0
-    const processedEntries = entries.map((entry) => {
-      runningBalance = runningBalance + entry.credit - entry.debit
-      return {
-        ...entry,
-        id: entry._id.toString(),
-        balance: runningBalance,
-        _id: undefined,
-      }
-    })
+    const page = await listAccountEntries(db, accountId, query)
 
-    return NextResponse.json(processedEntries)
+    return NextResponse.json(page)
   } catch (error) {
     console.error("Error fetching entries:", error)
     return NextResponse.json({ error: "Failed to fetch entries" }, { status: 500 })
   }
 }
 
-// POST - Create new entry
+// POST - Create new entry in the account named by body.accountId
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { date, particulars, debitCountry, debit, creditCountry, credit } = body
+    const { session, response } = await requirePermission(request, "entries:create")
+    if (response) return response
 
-    if (!particulars || (!debit && !credit)) {
-      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    const body = await request.json().catch(() => null)
+    const parsed = entrySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(validationErrorBody(parsed.error), { status: 400 })
     }
 
-    const db = await getDatabase()
-    const newEntry = {
-      date,
-      particulars,
-      debitCountry: Number(debitCountry) || 0,
-      debit: Number(debit) || 0,
-      creditCountry: Number(creditCountry) || 0,
-      credit: Number(credit) || 0,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    const { accountId } = body
+    if (!accountId) {
+      return NextResponse.json({ error: "accountId is required" }, { status: 400 })
     }
 
-    const result = await db.collection("entries").insertOne(newEntry)
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+    if (account.archived) {
+      return NextResponse.json({ error: "Account is archived" }, { status: 409 })
+    }
+    const baseCurrency = account.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const refsError = await validateEntryRefs(db, session.organizationId, parsed.data, baseCurrency)
+    if (refsError) {
+      return NextResponse.json(refsError.body, { status: refsError.status })
+    }
 
-    return NextResponse.json(
-      {
-        ...newEntry,
-        id: result.insertedId.toString(),
-        _id: undefined,
-      },
-      { status: 201 },
+    const entry = await createAccountEntry(
+      db,
+      session.organizationId,
+      accountId,
+      parsed.data,
+      auditContext(request, session),
     )
+
+    return NextResponse.json(entry, { status: 201 })
   } catch (error) {
     console.error("Error creating entry:", error)
     return NextResponse.json({ error: "Failed to create entry" }, { status: 500 })
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { DATE_PATTERN } from "@/lib/entries"
+import { findLedgerAccount, getLedgerAccountView, serializeLedgerAccount, type LedgerViewQuery } from "@/lib/ledger"
+
+// GET - A ledger account's journal lines as statement rows with a running balance
+// Optional: startDate, endDate, currency (defaults to the first the account holds), partyAccountId
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const searchParams = request.nextUrl.searchParams
+    const query: LedgerViewQuery = {}
+    for (const key of ["startDate", "endDate"] as const) {
+      const value = searchParams.get(key)
+      if (!value) continue
+      if (!DATE_PATTERN.test(value)) {
+        return NextResponse.json({ error: `${key} must be YYYY-MM-DD` }, { status: 400 })
+      }
+      query[key] = value
+    }
+    const currency = searchParams.get("currency")
+    if (currency) query.currency = currency.toUpperCase()
+    const partyAccountId = searchParams.get("partyAccountId")
+    if (partyAccountId) {
+      if (!ObjectId.isValid(partyAccountId)) {
+        return NextResponse.json({ error: "Invalid partyAccountId" }, { status: 400 })
+      }
+      query.partyAccountId = new ObjectId(partyAccountId)
+    }
+
+    const db = await getDatabase()
+    const account = await findLedgerAccount(db, session.organizationId, params.id)
+    if (!account) {
+      return NextResponse.json({ error: "Ledger account not found" }, { status: 404 })
+    }
+
+    const view = await getLedgerAccountView(db, session.organizationId, account._id, query)
+
+    return NextResponse.json({ account: serializeLedgerAccount(account), ...view })
+  } catch (error) {
+    console.error("Error fetching ledger account entries:", error)
+    return NextResponse.json({ error: "Failed to fetch ledger account entries" }, { status: 500 })
+  }
+}
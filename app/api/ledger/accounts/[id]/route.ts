@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { ledgerAccountSchema } from "@/lib/chart-of-accounts"
+import { findLedgerAccount, serializeLedgerAccount } from "@/lib/ledger"
+
+// PUT - Rename, renumber, retype, archive or unarchive a ledger account. Body: { code?, name?, type?, archived? }
+// System accounts keep their type and cannot be archived since statement entries post to them.
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "accounts:manage")
+    if (response) return response
+
+    const body = (await request.json().catch(() => null)) ?? {}
+    const parsed = ledgerAccountSchema.partial().safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const account = await findLedgerAccount(db, session.organizationId, params.id)
+    if (!account) {
+      return NextResponse.json({ error: "Ledger account not found" }, { status: 404 })
+    }
+    if (account.key && ((parsed.data.type && parsed.data.type !== account.type) || body.archived)) {
+      return NextResponse.json({ error: "System accounts cannot be retyped or archived" }, { status: 409 })
+    }
+    if (
+      parsed.data.code &&
+      (await db.collection("ledger_accounts").findOne({
+        organizationId: session.organizationId,
+        code: parsed.data.code,
+        _id: { $ne: account._id },
+      }))
+    ) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: { code: ["Another account already uses this code"] } },
+        { status: 409 },
+      )
+    }
+
+    const updateData = {
+      ...parsed.data,
+      ...(body.archived !== undefined && { archived: Boolean(body.archived) }),
+      updatedAt: new Date(),
+    }
+    await db.collection("ledger_accounts").updateOne({ _id: account._id }, { $set: updateData })
+
+    return NextResponse.json(serializeLedgerAccount({ ...account, ...updateData }))
+  } catch (error) {
+    console.error("Error updating ledger account:", error)
+    return NextResponse.json({ error: "Failed to update ledger account" }, { status: 500 })
+  }
+}
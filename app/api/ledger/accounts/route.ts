@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { ledgerAccountSchema } from "@/lib/chart-of-accounts"
+import { ensureChartOfAccounts, listLedgerAccounts, serializeLedgerAccount } from "@/lib/ledger"
+
+// GET - The organization's chart of accounts by code, archived accounts included
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    return NextResponse.json(await listLedgerAccounts(db, session.organizationId))
+  } catch (error) {
+    console.error("Error fetching ledger accounts:", error)
+    return NextResponse.json({ error: "Failed to fetch ledger accounts" }, { status: 500 })
+  }
+}
+
+// POST - Add a ledger account. Body: { code, name, type }
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "accounts:manage")
+    if (response) return response
+
+    const parsed = ledgerAccountSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    await ensureChartOfAccounts(db, session.organizationId)
+    const duplicate = await db
+      .collection("ledger_accounts")
+      .findOne({ organizationId: session.organizationId, code: parsed.data.code })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: { code: ["Another account already uses this code"] } },
+        { status: 409 },
+      )
+    }
+
+    const account = {
+      organizationId: session.organizationId,
+      ...parsed.data,
+      key: null,
+      archived: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection("ledger_accounts").insertOne(account)
+
+    return NextResponse.json(serializeLedgerAccount({ ...account, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating ledger account:", error)
+    return NextResponse.json({ error: "Failed to create ledger account" }, { status: 500 })
+  }
+}
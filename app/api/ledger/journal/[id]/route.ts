@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { findJournalEntry, voidManualJournal } from "@/lib/ledger"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+
+// DELETE - Void a manual journal entry. Postings of statement entries are voided with their entry.
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:delete")
+    if (response) return response
+
+    const db = await getDatabase()
+    const journal = await findJournalEntry(db, session.organizationId, params.id)
+    if (!journal) {
+      return NextResponse.json({ error: "Journal entry not found" }, { status: 404 })
+    }
+    if (journal.source?.type !== "manual") {
+      return NextResponse.json({ error: "Void the statement entry this was posted from instead" }, { status: 409 })
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(journal.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    if (!(await voidManualJournal(db, journal, auditContext(request, session).actor))) {
+      return NextResponse.json({ error: "Journal entry is already voided" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error voiding journal entry:", error)
+    return NextResponse.json({ error: "Failed to void journal entry" }, { status: 500 })
+  }
+}
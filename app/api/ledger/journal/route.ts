@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { DATE_PATTERN } from "@/lib/entries"
+import { journalEntrySchema } from "@/lib/chart-of-accounts"
+import { findPostingAccount, listJournalEntries, postManualJournal } from "@/lib/ledger"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+
+// GET - The most recent journal entries, statement postings and manual ones (?startDate=&endDate=)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const startDate = request.nextUrl.searchParams.get("startDate") ?? undefined
+    const endDate = request.nextUrl.searchParams.get("endDate") ?? undefined
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ error: "Dates must be YYYY-MM-DD" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    return NextResponse.json(await listJournalEntries(db, session.organizationId, { startDate, endDate }))
+  } catch (error) {
+    console.error("Error fetching journal:", error)
+    return NextResponse.json({ error: "Failed to fetch journal" }, { status: 500 })
+  }
+}
+
+// POST - Post a manual journal entry, e.g. a cash deposit to the bank or an expense paid in cash
+// Body: { date, memo, currency, lines: [{ ledgerAccountId, debit, credit }] }
+// Control accounts only take statement entries and agent settlements, so they cannot appear on manual lines.
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "entries:create")
+    if (response) return response
+
+    const parsed = journalEntrySchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    for (const line of parsed.data.lines) {
+      if (!(await findPostingAccount(db, session.organizationId, line.ledgerAccountId))) {
+        return NextResponse.json(
+          {
+            error: "Validation failed",
+            fieldErrors: { lines: ["Lines must use open accounts other than the party control accounts"] },
+          },
+          { status: 400 },
+        )
+      }
+    }
+
+    const lockDate = await getLockDate(db, session.organizationId)
+    if (lockDate && isLocked(parsed.data.date, lockDate)) {
+      return NextResponse.json({ error: periodLockedMessage(lockDate) }, { status: 409 })
+    }
+
+    const journal = await postManualJournal(
+      db,
+      session.organizationId,
+      parsed.data,
+      auditContext(request, session).actor,
+    )
+
+    return NextResponse.json(journal, { status: 201 })
+  } catch (error) {
+    console.error("Error posting journal entry:", error)
+    return NextResponse.json({ error: "Failed to post journal entry" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { DATE_PATTERN } from "@/lib/entries"
+import { getTrialBalance } from "@/lib/ledger"
+
+// GET - Debit and credit totals per ledger account and currency (?asOf=YYYY-MM-DD, default today)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const asOf = request.nextUrl.searchParams.get("asOf") ?? new Date().toISOString().split("T")[0]
+    if (!DATE_PATTERN.test(asOf)) {
+      return NextResponse.json({ error: "asOf must be YYYY-MM-DD" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const rows = await getTrialBalance(db, session.organizationId, asOf)
+
+    return NextResponse.json({ asOf, rows })
+  } catch (error) {
+    console.error("Error fetching trial balance:", error)
+    return NextResponse.json({ error: "Failed to fetch trial balance" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { getLetterhead, letterheadSchema } from "@/lib/organization"
+
+// GET - The organization's name, address and logo
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    return NextResponse.json(await getLetterhead(db, session.organizationId))
+  } catch (error) {
+    console.error("Error fetching organization:", error)
+    return NextResponse.json({ error: "Failed to fetch organization" }, { status: 500 })
+  }
+}
+
+// PUT - Update the letterhead printed on statements
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "organization:manage")
+    if (response) return response
+
+    const parsed = letterheadSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    await db
+      .collection("organizations")
+      .updateOne({ _id: session.organizationId }, { $set: { ...parsed.data, updatedAt: new Date() } })
+
+    return NextResponse.json(parsed.data)
+  } catch (error) {
+    console.error("Error updating organization:", error)
+    return NextResponse.json({ error: "Failed to update organization" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findPeriodClose, serializePeriodClose } from "@/lib/periods"
+
+// GET - Closing report of a period: every account's opening balance, totals and closing balance
+export async function GET(request: NextRequest, { params }: { params: { key: string } }) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    const close = await findPeriodClose(db, session.organizationId, params.key)
+
+    if (!close) {
+      return NextResponse.json({ error: "Period is not closed" }, { status: 404 })
+    }
+
+    return NextResponse.json(serializePeriodClose(close))
+  } catch (error) {
+    console.error("Error fetching period close:", error)
+    return NextResponse.json({ error: "Failed to fetch period close" }, { status: 500 })
+  }
+}
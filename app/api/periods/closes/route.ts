@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase, isDuplicateKeyError } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { closePeriod, findPeriodClose, listPeriodCloses, periodCloseSchema } from "@/lib/periods"
+import { parsePeriod } from "@/lib/period-keys"
+
+// GET - Closed periods, most recent first (without the per-account snapshot)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    return NextResponse.json(await listPeriodCloses(db, session.organizationId))
+  } catch (error) {
+    console.error("Error fetching period closes:", error)
+    return NextResponse.json({ error: "Failed to fetch period closes" }, { status: 500 })
+  }
+}
+
+// POST - Close a month or year. Body: { period: "YYYY-MM" | "YYYY" }
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "periods:manage")
+    if (response) return response
+
+    const parsed = periodCloseSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const period = parsePeriod(parsed.data.period)!
+    if (period.endDate >= new Date().toISOString().split("T")[0]) {
+      return NextResponse.json({ error: "The period has not ended yet" }, { status: 409 })
+    }
+
+    const db = await getDatabase()
+    if (await findPeriodClose(db, session.organizationId, period.key)) {
+      return NextResponse.json({ error: "The period is already closed" }, { status: 409 })
+    }
+
+    const close = await closePeriod(db, session.organizationId, period, auditContext(request, session).actor)
+
+    return NextResponse.json(close, { status: 201 })
+  } catch (error) {
+    // Another request closed the same period between the check above and the insert
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: "The period is already closed" }, { status: 409 })
+    }
+    console.error("Error closing period:", error)
+    return NextResponse.json({ error: "Failed to close period" }, { status: 500 })
+  }
+}
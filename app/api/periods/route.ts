@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { auditContext } from "@/lib/audit"
+import { getClosedThrough, getLockDate, periodLockSchema, setLockDate } from "@/lib/periods"
+
+// GET - The organization's period lock date
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const db = await getDatabase()
+    return NextResponse.json({ lockedThrough: await getLockDate(db, session.organizationId) })
+  } catch (error) {
+    console.error("Error fetching period lock:", error)
+    return NextResponse.json({ error: "Failed to fetch period lock" }, { status: 500 })
+  }
+}
+
+// PUT - Lock every entry dated on or before lockedThrough, or unlock with null.
+// The lock cannot be cleared or moved before the end of the latest closed period.
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "periods:manage")
+    if (response) return response
+
+    const parsed = periodLockSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const { lockedThrough } = parsed.data
+    const closedThrough = await getClosedThrough(db, session.organizationId)
+    if (closedThrough && (!lockedThrough || lockedThrough < closedThrough)) {
+      return NextResponse.json(
+        { error: `Periods are closed through ${closedThrough}; the lock date cannot be earlier` },
+        { status: 409 },
+      )
+    }
+
+    const { actor } = auditContext(request, session)
+    const periodLock = await setLockDate(db, session.organizationId, lockedThrough, actor)
+
+    return NextResponse.json({ lockedThrough: periodLock.lockedThrough })
+  } catch (error) {
+    console.error("Error updating period lock:", error)
+    return NextResponse.json({ error: "Failed to update period lock" }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { rateSchema, serializeRate, type RateDoc } from "@/lib/rates"
+
+// PUT - Update rate
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "rates:manage")
+    if (response) return response
+
+    const { id } = params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Rate not found" }, { status: 404 })
+    }
+
+    const parsed = rateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const { fromCurrency, toCurrency, effectiveDate } = parsed.data
+    const clash = await db
+      .collection<RateDoc>("rates")
+      .findOne({
+        organizationId: session.organizationId,
+        fromCurrency,
+        toCurrency,
+        effectiveDate,
+        _id: { $ne: new ObjectId(id) },
+      })
+    if (clash) {
+      return NextResponse.json({ error: "A rate for this pair and date already exists" }, { status: 409 })
+    }
+
+    const result = await db
+      .collection<RateDoc>("rates")
+      .findOneAndUpdate(
+        { _id: new ObjectId(id), organizationId: session.organizationId },
+        { $set: { ...parsed.data, updatedAt: new Date() } },
+        { returnDocument: "after" },
+      )
+
+    if (!result) {
+      return NextResponse.json({ error: "Rate not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(serializeRate(result))
+  } catch (error) {
+    console.error("Error updating rate:", error)
+    return NextResponse.json({ error: "Failed to update rate" }, { status: 500 })
+  }
+}
+
+// DELETE - Delete rate. Entries keep the snapshot of any rate they were saved with.
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "rates:manage")
+    if (response) return response
+
+    const { id } = params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Rate not found" }, { status: 404 })
+    }
+
+    const db = await getDatabase()
+    const result = await db.collection("rates").deleteOne({ _id: new ObjectId(id), organizationId: session.organizationId })
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: "Rate not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Rate deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting rate:", error)
+    return NextResponse.json({ error: "Failed to delete rate" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findEffectiveRate } from "@/lib/rates"
+
+// GET - Rate in effect for a pair on a date (?from=&to=&date=YYYY-MM-DD)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const from = request.nextUrl.searchParams.get("from")?.toUpperCase()
+    const to = request.nextUrl.searchParams.get("to")?.toUpperCase()
+    const date = request.nextUrl.searchParams.get("date") || new Date().toISOString().split("T")[0]
+
+    if (!from || !to) {
+      return NextResponse.json({ error: "from and to are required" }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    const rate = await findEffectiveRate(db, session.organizationId, from, to, date)
+
+    if (!rate) {
+      return NextResponse.json({ error: "No rate found for this pair and date" }, { status: 404 })
+    }
+
+    return NextResponse.json(rate)
+  } catch (error) {
+    console.error("Error fetching effective rate:", error)
+    return NextResponse.json({ error: "Failed to fetch rate" }, { status: 500 })
+  }
+}
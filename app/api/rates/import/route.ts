@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { ensureRateIndexes, parseRateSheet } from "@/lib/rates"
+
+// POST - Import a CSV rate sheet (columns: date, from, to, rate), sent as a multipart "file" field or a raw text body.
+// Rows for a pair and date that already exist replace the stored rate.
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "rates:manage")
+    if (response) return response
+
+    let text: string
+    if (request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const file = (await request.formData()).get("file")
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "file is required" }, { status: 400 })
+      }
+      text = await file.text()
+    } else {
+      text = await request.text()
+    }
+
+    const { rates, errors } = parseRateSheet(text)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Rate sheet has invalid rows", errors }, { status: 400 })
+    }
+
+    const db = await getDatabase()
+    await ensureRateIndexes(db)
+
+    if (rates.length > 0) {
+      await db.collection("rates").bulkWrite(
+        rates.map((rate) => ({
+          updateOne: {
+            filter: {
+              organizationId: session.organizationId,
+              fromCurrency: rate.fromCurrency,
+              toCurrency: rate.toCurrency,
+              effectiveDate: rate.effectiveDate,
+            },
+            update: {
+              $set: { rate: rate.rate, source: "import", updatedAt: new Date() },
+              $setOnInsert: { createdAt: new Date() },
+            },
+            upsert: true,
+          },
+        })),
+        { ordered: false },
+      )
+    }
+
+    return NextResponse.json({ imported: rates.length })
+  } catch (error) {
+    console.error("Error importing rates:", error)
+    return NextResponse.json({ error: "Failed to import rates" }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, requirePermission, unauthorized } from "@/lib/auth"
+import { ensureRateIndexes, rateSchema, serializeRate, type RateDoc } from "@/lib/rates"
+
+// GET - List rates, newest first (optional ?from=&to= currency filters)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const from = request.nextUrl.searchParams.get("from")?.toUpperCase()
+    const to = request.nextUrl.searchParams.get("to")?.toUpperCase()
+
+    const db = await getDatabase()
+    const rates = await db
+      .collection<RateDoc>("rates")
+      .find({
+        organizationId: session.organizationId,
+        ...(from && { fromCurrency: from }),
+        ...(to && { toCurrency: to }),
+      })
+      .sort({ effectiveDate: -1, fromCurrency: 1, toCurrency: 1 })
+      .toArray()
+
+    return NextResponse.json(rates.map(serializeRate))
+  } catch (error) {
+    console.error("Error fetching rates:", error)
+    return NextResponse.json({ error: "Failed to fetch rates" }, { status: 500 })
+  }
+}
+
+// POST - Create a dated rate for a currency pair
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "rates:manage")
+    if (response) return response
+
+    const parsed = rateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    await ensureRateIndexes(db)
+
+    const { fromCurrency, toCurrency, effectiveDate } = parsed.data
+    const existing = await db.collection("rates").findOne({ organizationId: session.organizationId, fromCurrency, toCurrency, effectiveDate })
+    if (existing) {
+      return NextResponse.json({ error: "A rate for this pair and date already exists" }, { status: 409 })
+    }
+
+    const newRate: RateDoc = {
+      organizationId: session.organizationId,
+      ...parsed.data,
+      source: "manual",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection<RateDoc>("rates").insertOne(newRate)
+
+    return NextResponse.json(serializeRate({ ...newRate, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating rate:", error)
+    return NextResponse.json({ error: "Failed to create rate" }, { status: 500 })
+  }
+}
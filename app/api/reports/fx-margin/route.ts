@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { getSession, unauthorized } from "@/lib/auth"
+import { findAccount, serializeAccount } from "@/lib/accounts"
+import { buildFxMarginReport, type FxMarginQuery } from "@/lib/reports"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET - FX margin per transfer, per period and per particulars for an account
+// (?accountId=&startDate=&endDate=&period=day|month&referenceRate=)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return unauthorized()
+
+    const params = request.nextUrl.searchParams
+    const accountId = params.get("accountId")
+    if (!accountId) {
+      return NextResponse.json({ error: "accountId is required" }, { status: 400 })
+    }
+
+    const query: FxMarginQuery = { period: params.get("period") === "day" ? "day" : "month" }
+    for (const key of ["startDate", "endDate"] as const) {
+      const value = params.get(key)
+      if (!value) continue
+      if (!DATE_PATTERN.test(value)) {
+        return NextResponse.json({ error: `${key} must be YYYY-MM-DD` }, { status: 400 })
+      }
+      query[key] = value
+    }
+
+    const referenceRate = params.get("referenceRate")
+    if (referenceRate) {
+      const rate = Number(referenceRate)
+      if (!Number.isFinite(rate) || rate <= 0) {
+        return NextResponse.json({ error: "referenceRate must be a positive number" }, { status: 400 })
+      }
+      query.referenceRate = rate
+    }
+
+    const db = await getDatabase()
+    const account = await findAccount(db, session.organizationId, accountId)
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    const { baseCurrency } = serializeAccount(account)
+    const report = await buildFxMarginReport(db, session.organizationId, account._id, baseCurrency, query)
+
+    return NextResponse.json({ baseCurrency, ...report })
+  } catch (error) {
+    console.error("Error building FX margin report:", error)
+    return NextResponse.json({ error: "Failed to build FX margin report" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { requirePermission } from "@/lib/auth"
+import { countActiveAdmins, serializeUser, userUpdateSchema, type UserDoc } from "@/lib/users"
+
+// PUT - Change a user's role or disable/enable them
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { session, response } = await requirePermission(request, "users:manage")
+    if (response) return response
+
+    const { id } = params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const parsed = userUpdateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const db = await getDatabase()
+    const user = await db
+      .collection<UserDoc>("users")
+      .findOne({ _id: new ObjectId(id), organizationId: session.organizationId })
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const { role, disabled } = parsed.data
+    const current = serializeUser(user)
+    const losesAdmin =
+      current.role === "admin" && !current.disabled && ((role && role !== "admin") || disabled === true)
+    if (losesAdmin && (await countActiveAdmins(db, session.organizationId)) <= 1) {
+      return NextResponse.json({ error: "The organization needs at least one active admin" }, { status: 409 })
+    }
+
+    const updateData = {
+      ...(role && { role }),
+      ...(disabled !== undefined && { disabled }),
+      updatedAt: new Date(),
+    }
+    await db.collection<UserDoc>("users").updateOne({ _id: user._id }, { $set: updateData })
+    if (disabled) {
+      await db.collection("sessions").deleteMany({ userId: user._id })
+    }
+
+    return NextResponse.json(serializeUser({ ...user, ...updateData }))
+  } catch (error) {
+    console.error("Error updating user:", error)
+    return NextResponse.json({ error: "Failed to update user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { ensureAuthIndexes, hashPassword, requirePermission } from "@/lib/auth"
+import { newUserSchema, serializeUser, type UserDoc } from "@/lib/users"
+
+// GET - List the organization's users
+export async function GET(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "users:manage")
+    if (response) return response
+
+    const db = await getDatabase()
+    const users = await db
+      .collection<UserDoc>("users")
+      .find({ organizationId: session.organizationId })
+      .sort({ name: 1 })
+      .toArray()
+
+    return NextResponse.json(users.map(serializeUser))
+  } catch (error) {
+    console.error("Error fetching users:", error)
+    return NextResponse.json({ error: "Failed to fetch users" }, { status: 500 })
+  }
+}
+
+// POST - Add a user to the organization with an initial password
+export async function POST(request: NextRequest) {
+  try {
+    const { session, response } = await requirePermission(request, "users:manage")
+    if (response) return response
+
+    const parsed = newUserSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", fieldErrors: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const { name, email, password, role } = parsed.data
+    const db = await getDatabase()
+    await ensureAuthIndexes(db)
+
+    if (await db.collection<UserDoc>("users").findOne({ email })) {
+      return NextResponse.json({ error: "An account with this email already exists" }, { status: 409 })
+    }
+
+    const newUser = {
+      organizationId: session.organizationId,
+      name,
+      email,
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    const result = await db.collection<UserDoc>("users").insertOne(newUser)
+
+    return NextResponse.json(serializeUser({ ...newUser, _id: result.insertedId }), { status: 201 })
+  } catch (error) {
+    console.error("Error creating user:", error)
+    return NextResponse.json({ error: "Failed to create user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,10 @@
+"use client"
+import { AuditLog } from "@/components/audit-log"
+
+export default function AuditPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <AuditLog />
+    </div>
+  )
+}
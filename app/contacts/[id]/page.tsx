@@ -0,0 +1,13 @@
+"use client"
+import { useParams } from "next/navigation"
+import { ContactStatement } from "@/components/contact-statement"
+
+export default function ContactStatementPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <ContactStatement contactId={id} />
+    </div>
+  )
+}
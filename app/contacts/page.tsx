@@ -0,0 +1,10 @@
+"use client"
+import { ContactsDirectory } from "@/components/contacts-directory"
+
+export default function ContactsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <ContactsDirectory />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+"use client"
+import { useParams } from "next/navigation"
+import { EntryReceipt } from "@/components/entry-receipt"
+
+export default function EntryReceiptPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 print:bg-white print:p-0">
+      <EntryReceipt entryId={id} />
+    </div>
+  )
+}
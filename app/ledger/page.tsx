@@ -0,0 +1,10 @@
+"use client"
+import { Ledger } from "@/components/ledger"
+
+export default function LedgerPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <Ledger />
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+"use client"
+import { LoginForm } from "@/components/login-form"
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+      <LoginForm />
+    </div>
+  )
+}
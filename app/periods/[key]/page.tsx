@@ -0,0 +1,13 @@
+"use client"
+import { useParams } from "next/navigation"
+import { PeriodCloseReport } from "@/components/period-close-report"
+
+export default function PeriodCloseReportPage() {
+  const { key } = useParams<{ key: string }>()
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <PeriodCloseReport periodKey={key} />
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+import { useState } from "react"
+import { PeriodLock } from "@/components/period-lock"
+import { PeriodCloses } from "@/components/period-closes"
+
+export default function PeriodsPage() {
+  // Closing a period moves the lock date, so the lock card reloads after each close
+  const [closeCount, setCloseCount] = useState(0)
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <PeriodLock key={closeCount} />
+      <PeriodCloses onClosed={() => setCloseCount((count) => count + 1)} />
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+"use client"
+import { ExchangeRates } from "@/components/exchange-rates"
+
+export default function RatesPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <ExchangeRates />
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+"use client"
+import { FxMarginReport } from "@/components/fx-margin-report"
+
+export default function FxMarginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <FxMarginReport />
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Plus, Archive, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+
+export interface Account {
+  id: string
+  name: string
+  type: "customer" | "agent" | "other"
+  baseCurrency: string
+  archived: boolean
+}
+
+interface AccountPickerProps {
+  value: Account | null
+  onChange: (account: Account | null) => void
+}
+
+export function AccountPicker({ value, onChange }: AccountPickerProps) {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [creating, setCreating] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [newAccount, setNewAccount] = useState<{ name: string; type: Account["type"]; baseCurrency: string }>({
+    name: "",
+    type: "customer",
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+  })
+  const { toast } = useToast()
+  const canManage = can(useCurrentUser()?.role, "accounts:manage")
+
+  const fetchAccounts = async (selectId?: string) => {
+    try {
+      const response = await fetch("/api/accounts")
+      if (!response.ok) throw new Error("Failed to fetch accounts")
+      const data: Account[] = await response.json()
+      setAccounts(data)
+
+      const wanted = selectId ?? value?.id
+      onChange(data.find((account) => account.id === wanted) ?? data[0] ?? null)
+    } catch (error) {
+      console.error("Error fetching accounts:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch accounts from database",
+        variant: "destructive",
+      })
+    }
+  }
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [])
+
+  const handleCreateAccount = async () => {
+    if (!newAccount.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter an account name",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch("/api/accounts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newAccount),
+      })
+
+      if (!response.ok) throw new Error("Failed to create account")
+      const created: Account = await response.json()
+
+      toast({
+        title: "Success",
+        description: `Account "${created.name}" created`,
+      })
+
+      setCreating(false)
+      setNewAccount({ name: "", type: "customer", baseCurrency: DEFAULT_BASE_CURRENCY })
+      await fetchAccounts(created.id)
+    } catch (error) {
+      console.error("Error creating account:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create account",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleArchiveAccount = async () => {
+    if (!value) return
+    if (!confirm(`Archive "${value.name}"? Its entries are kept but no new entries can be added.`)) return
+
+    try {
+      const response = await fetch(`/api/accounts/${value.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ archived: true }),
+      })
+
+      if (!response.ok) throw new Error("Failed to archive account")
+
+      toast({
+        title: "Success",
+        description: "Account archived",
+      })
+
+      await fetchAccounts("")
+    } catch (error) {
+      console.error("Error archiving account:", error)
+      toast({
+        title: "Error",
+        description: "Failed to archive account",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value?.id ?? ""}
+        onValueChange={(id) => onChange(accounts.find((account) => account.id === id) ?? null)}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select account" />
+        </SelectTrigger>
+        <SelectContent>
+          {accounts.map((account) => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {canManage && (
+        <>
+          <Button variant="outline" size="icon" onClick={() => setCreating(true)} title="New account">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleArchiveAccount}
+            disabled={!value}
+            title="Archive account"
+          >
+            <Archive className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Account</DialogTitle>
+            <DialogDescription>Each account keeps its own entries and running balance.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                placeholder="Customer or agent name"
+                value={newAccount.name}
+                onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-type">Type</Label>
+              <Select
+                value={newAccount.type}
+                onValueChange={(type) => setNewAccount({ ...newAccount, type: type as Account["type"] })}
+              >
+                <SelectTrigger id="account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="customer">Customer</SelectItem>
+                  <SelectItem value="agent">Agent</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="account-currency">Base Currency</Label>
+              <Input
+                id="account-currency"
+                placeholder={DEFAULT_BASE_CURRENCY}
+                maxLength={3}
+                value={newAccount.baseCurrency}
+                onChange={(e) => setNewAccount({ ...newAccount, baseCurrency: e.target.value.toUpperCase() })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateAccount} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                "Create Account"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
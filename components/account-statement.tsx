@@ -1,57 +1,198 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Plus, Edit, Trash2, ArrowLeft, Search, Download, Share, Loader2 } from "lucide-react"
+import Link from "next/link"
+import {
+  Plus,
+  Edit,
+  Trash2,
+  ArrowLeft,
+  Search,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Share,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  History,
+  ArchiveRestore,
+  Landmark,
+  Undo2,
+  Upload,
+  Printer,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
 import { useToast } from "@/hooks/use-toast"
+import { AccountPicker, type Account } from "@/components/account-picker"
+import { UserMenu } from "@/components/user-menu"
+import { EntryHistory } from "@/components/entry-history"
+import { EntryTrash } from "@/components/entry-trash"
+import { EntryImport } from "@/components/entry-import"
+import { BankReconciliation } from "@/components/bank-reconciliation"
+import { VoidEntryDialog } from "@/components/void-entry-dialog"
+import { ReverseEntryDialog } from "@/components/reverse-entry-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can, canEditEntryDated } from "@/lib/roles"
+import { parsePeriod, periodLabel, recentPeriods } from "@/lib/period-keys"
+import { EntryForm, emptyEntryFormValues, type EntryFormValues } from "@/components/entry-form"
+import type { EntryFieldErrors, EntryInput, PayoutMethod } from "@/lib/entry-schema"
+import { DEFAULT_BASE_CURRENCY, formatMoney, formatRate } from "@/lib/currency"
+import {
+  DEFAULT_TRANSFER_STATUS,
+  TRANSFER_STATUSES,
+  TRANSFER_STATUS_LABELS,
+  TRANSFER_STATUS_TRANSITIONS,
+  countsInBalance,
+  type TransferStatus,
+} from "@/lib/transfer-status"
+import {
+  STATEMENT_COLUMNS,
+  STATEMENT_COLUMN_LABELS,
+  type CsvDelimiter,
+  type StatementColumn,
+} from "@/lib/statement-columns"
 
 interface AccountEntry {
   id: string
+  accountId: string
+  reference?: string | null
   date: string
   particulars: string
   debitCountry: number
   debit: number
   creditCountry: number
   credit: number
+  countryCurrency?: string | null
+  exchangeRate: number | null
+  appliedRate?: { rate: number; effectiveDate: string } | null
   balance: number
+  reversalOf?: string | null
+  reversedBy?: string | null
+  contactId?: string | null
+  counterAccountId?: string | null
+  reconciled?: { bankLineId: string; at: string } | null
+  agentId?: string | null
+  settlement?: { settlementId: string; at: string } | null
+  status?: TransferStatus
+  senderName?: string | null
+  senderPhone?: string | null
+  senderIdNumber?: string | null
+  beneficiaryName?: string | null
+  beneficiaryPhone?: string | null
+  beneficiaryIdNumber?: string | null
+  beneficiaryCountry?: string | null
+  payoutMethod?: PayoutMethod | null
 }
 
-type ViewMode = "statement" | "add" | "edit" | "export"
+interface EntryPage {
+  entries: AccountEntry[]
+  nextCursor: string | null
+  openingBalance: number
+}
+
+type ViewMode = "statement" | "add" | "edit" | "export" | "trash" | "import" | "reconcile"
+
+type SortField = "date" | "particulars" | "debit" | "credit"
+
+const PAGE_SIZE = 50
+const EXPORT_PAGE_SIZE = 500
 
 export function AccountStatement() {
+  const [account, setAccount] = useState<Account | null>(null)
   const [entries, setEntries] = useState<AccountEntry[]>([])
   const [loading, setLoading] = useState(true)
-  const [saving, setSaving] = useState(false)
+  const [sort, setSort] = useState<{ field: SortField; order: "asc" | "desc" }>({ field: "date", order: "asc" })
+  // Cursors of the pages visited so far; the last one is the page on screen ("" is the first page)
+  const [cursorStack, setCursorStack] = useState<string[]>([""])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [openingBalance, setOpeningBalance] = useState(0)
   const [currentView, setCurrentView] = useState<ViewMode>("statement")
   const [editingEntry, setEditingEntry] = useState<AccountEntry | null>(null)
-  const [formData, setFormData] = useState({
-    date: new Date().toISOString().split("T")[0],
-    particulars: "",
-    debitCountry: "",
-    debit: "",
-    creditCountry: "",
-    credit: "",
-  })
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null)
+  const [voidingEntry, setVoidingEntry] = useState<AccountEntry | null>(null)
+  const [reversingEntry, setReversingEntry] = useState<AccountEntry | null>(null)
+  // Entries dated on or before this are locked and can only be reversed
+  const [lockDate, setLockDate] = useState<string | null>(null)
+  // Period key ("yyyy-mm" or "yyyy") the statement is scoped to, or "all"
+  const [period, setPeriod] = useState("all")
+  const [closedPeriods, setClosedPeriods] = useState<string[]>([])
+  // Transfer status the statement is narrowed to, or "all"
+  const [statusFilter, setStatusFilter] = useState("all")
+  // Leave transfers not yet paid out out of the running and opening balances
+  const [excludePending, setExcludePending] = useState(false)
+  const [formData, setFormData] = useState<EntryFormValues>(emptyEntryFormValues)
   const [exportFilters, setExportFilters] = useState({
     particulars: "",
     startDate: "",
     endDate: "",
   })
+  const [csvOptions, setCsvOptions] = useState({
+    columns: [...STATEMENT_COLUMNS] as StatementColumn[],
+    delimiter: "comma" as CsvDelimiter,
+    locale: "en-US",
+    bom: true,
+  })
   const [filteredEntries, setFilteredEntries] = useState<AccountEntry[]>([])
+  const [searching, setSearching] = useState(false)
   const { toast } = useToast()
+  const role = useCurrentUser()?.role
+  const baseCurrency = account?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+
+  const fetchEntryPage = async (params: Record<string, string>): Promise<EntryPage> => {
+    const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value !== ""))
+    const response = await fetch(`/api/accounts/${account!.id}/entries?${query}`)
+    if (!response.ok) throw new Error("Failed to fetch entries")
+    return response.json()
+  }
+
+  // Fetch the page of the selected account's entries at the top of the cursor stack
+  const fetchEntries = async (cursor = cursorStack[cursorStack.length - 1]) => {
+    if (!account) {
+      setEntries([])
+      setNextCursor(null)
+      setLoading(false)
+      return
+    }
 
-  // Fetch entries from database
-  const fetchEntries = async () => {
     try {
       setLoading(true)
-      const response = await fetch("/api/entries")
-      if (!response.ok) throw new Error("Failed to fetch entries")
-      const data = await response.json()
-      setEntries(data)
+      const range = parsePeriod(period)
+      const data = await fetchEntryPage({
+        sort: sort.field,
+        order: sort.order,
+        limit: String(PAGE_SIZE),
+        cursor,
+        startDate: range?.startDate ?? "",
+        endDate: range?.endDate ?? "",
+        status: statusFilter === "all" ? "" : statusFilter,
+        pending: excludePending ? "exclude" : "",
+      })
+      setEntries(data.entries)
+      setNextCursor(data.nextCursor)
+      setOpeningBalance(data.openingBalance)
     } catch (error) {
       console.error("Error fetching entries:", error)
       toast({
@@ -65,41 +206,73 @@ export function AccountStatement() {
   }
 
   useEffect(() => {
-    fetchEntries()
+    fetch("/api/periods")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setLockDate(data?.lockedThrough ?? null))
+      .catch((error) => console.error("Error fetching period lock:", error))
+    fetch("/api/periods/closes")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((closes: { key: string }[]) => setClosedPeriods(closes.map((close) => close.key)))
+      .catch((error) => console.error("Error fetching period closes:", error))
   }, [])
 
+  useEffect(() => {
+    setFilteredEntries([])
+    setCursorStack([""])
+    fetchEntries("")
+  }, [account?.id, sort, period, statusFilter, excludePending])
+
+  const goToNextPage = () => {
+    if (!nextCursor) return
+    setCursorStack([...cursorStack, nextCursor])
+    fetchEntries(nextCursor)
+  }
+
+  const goToPreviousPage = () => {
+    if (cursorStack.length <= 1) return
+    const stack = cursorStack.slice(0, -1)
+    setCursorStack(stack)
+    fetchEntries(stack[stack.length - 1])
+  }
+
+  const toggleSort = (field: SortField) => {
+    setSort((current) =>
+      current.field === field ? { field, order: current.order === "asc" ? "desc" : "asc" } : { field, order: "asc" },
+    )
+  }
+
   const resetFormData = () => {
-    setFormData({
-      date: new Date().toISOString().split("T")[0],
-      particulars: "",
-      debitCountry: "",
-      debit: "",
-      creditCountry: "",
-      credit: "",
-    })
+    setFormData(emptyEntryFormValues())
   }
 
-  const handleAddEntry = async () => {
-    if (!formData.particulars || (!formData.debit && !formData.credit)) {
-      toast({
-        title: "Validation Error",
-        description: "Please fill in particulars and at least one amount field",
-        variant: "destructive",
-      })
-      return
+  // Returns the server's per-field errors so the form can show them inline
+  const saveEntry = async (url: string, method: "POST" | "PUT", values: EntryInput) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(values),
+    })
+
+    if (response.status === 400) {
+      const data = await response.json()
+      if (data.fieldErrors) return data.fieldErrors as EntryFieldErrors
+    }
+    // Clerks may only work on today's entries and nobody on locked periods; show why against the date field
+    if (response.status === 403 || response.status === 409) {
+      const data = await response.json()
+      return { date: [data.error] } as EntryFieldErrors
     }
+    if (!response.ok) throw new Error(`Failed to save entry`)
+  }
 
-    try {
-      setSaving(true)
-      const response = await fetch("/api/entries", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(formData),
-      })
+  const handleAddEntry = async (values: EntryInput) => {
+    if (!account) return
 
-      if (!response.ok) throw new Error("Failed to create entry")
+    try {
+      const fieldErrors = await saveEntry(`/api/accounts/${account.id}/entries`, "POST", values)
+      if (fieldErrors) return fieldErrors
 
       toast({
         title: "Success",
@@ -117,69 +290,96 @@ export function AccountStatement() {
         description: "Failed to add entry",
         variant: "destructive",
       })
-    } finally {
-      setSaving(false)
     }
   }
 
-  const handleEditEntry = async () => {
-    if (!editingEntry || !formData.particulars || (!formData.debit && !formData.credit)) {
+  const handleEditEntry = async (values: EntryInput) => {
+    if (!editingEntry) return
+
+    try {
+      const fieldErrors = await saveEntry(`/api/entries/${editingEntry.id}`, "PUT", values)
+      if (fieldErrors) return fieldErrors
+
+      toast({
+        title: "Success",
+        description: "Entry updated successfully",
+      })
+
+      setEditingEntry(null)
+      resetFormData()
+      setCurrentView("statement")
+      await fetchEntries() // Refresh entries
+    } catch (error) {
+      console.error("Error updating entry:", error)
       toast({
-        title: "Validation Error",
-        description: "Please fill in particulars and at least one amount field",
+        title: "Error",
+        description: "Failed to update entry",
         variant: "destructive",
       })
-      return
     }
+  }
+
+  const handleReverseEntry = async (date: string) => {
+    if (!reversingEntry) return
 
     try {
-      setSaving(true)
-      const response = await fetch(`/api/entries/${editingEntry.id}`, {
-        method: "PUT",
+      const response = await fetch(`/api/entries/${reversingEntry.id}/reverse`, {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ date }),
       })
 
-      if (!response.ok) throw new Error("Failed to update entry")
+      if (response.status === 400 || response.status === 409) {
+        const data = await response.json()
+        return data.fieldErrors?.date?.[0] ?? data.error
+      }
+      if (!response.ok) throw new Error("Failed to reverse entry")
 
       toast({
         title: "Success",
-        description: "Entry updated successfully",
+        description: "Reversal posted successfully",
       })
 
-      setEditingEntry(null)
-      resetFormData()
-      setCurrentView("statement")
+      setReversingEntry(null)
       await fetchEntries() // Refresh entries
     } catch (error) {
-      console.error("Error updating entry:", error)
+      console.error("Error reversing entry:", error)
       toast({
         title: "Error",
-        description: "Failed to update entry",
+        description: "Failed to reverse entry",
         variant: "destructive",
       })
-    } finally {
-      setSaving(false)
     }
   }
 
-  const handleDeleteEntry = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this entry?")) return
+  const handleVoidEntry = async (reason: string) => {
+    if (!voidingEntry) return
 
     try {
-      const response = await fetch(`/api/entries/${id}`, {
+      const response = await fetch(`/api/entries/${voidingEntry.id}`, {
         method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason }),
       })
 
-      if (!response.ok) throw new Error("Failed to delete entry")
+      // Validation, lock and conflict errors are shown in the dialog
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        const message = data.fieldErrors?.reason?.[0] ?? data.error
+        if (message) return message
+        throw new Error("Failed to delete entry")
+      }
 
       toast({
         title: "Success",
-        description: "Entry deleted successfully",
+        description: "Entry moved to trash",
       })
 
+      setVoidingEntry(null)
       await fetchEntries() // Refresh entries
     } catch (error) {
       console.error("Error deleting entry:", error)
@@ -200,70 +400,153 @@ export function AccountStatement() {
       debit: entry.debit.toString(),
       creditCountry: entry.creditCountry.toString(),
       credit: entry.credit.toString(),
+      countryCurrency: entry.countryCurrency ?? "",
+      contactId: entry.contactId ?? "",
+      counterAccountId: entry.counterAccountId ?? "",
+      agentId: entry.agentId ?? "",
+      status: entry.status ?? DEFAULT_TRANSFER_STATUS,
+      senderName: entry.senderName ?? "",
+      senderPhone: entry.senderPhone ?? "",
+      senderIdNumber: entry.senderIdNumber ?? "",
+      beneficiaryName: entry.beneficiaryName ?? "",
+      beneficiaryPhone: entry.beneficiaryPhone ?? "",
+      beneficiaryIdNumber: entry.beneficiaryIdNumber ?? "",
+      beneficiaryCountry: entry.beneficiaryCountry ?? "",
+      payoutMethod: entry.payoutMethod ?? "",
     })
     setCurrentView("edit")
   }
 
-  const handleSearch = () => {
-    let filtered = [...entries]
+  const handleStatusChange = async (entry: AccountEntry, status: TransferStatus) => {
+    try {
+      const response = await fetch(`/api/entries/${entry.id}/status`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        toast({
+          title: "Error",
+          description: data.error ?? "Failed to change status",
+          variant: "destructive",
+        })
+        return
+      }
 
-    if (exportFilters.particulars) {
-      filtered = filtered.filter((entry) =>
-        entry.particulars.toLowerCase().includes(exportFilters.particulars.toLowerCase()),
-      )
+      toast({
+        title: "Success",
+        description: `Marked as ${TRANSFER_STATUS_LABELS[status].toLowerCase()}`,
+      })
+      await fetchEntries() // Refresh entries
+    } catch (error) {
+      console.error("Error changing status:", error)
+      toast({
+        title: "Error",
+        description: "Failed to change status",
+        variant: "destructive",
+      })
     }
+  }
 
-    if (exportFilters.startDate) {
-      filtered = filtered.filter((entry) => entry.date >= exportFilters.startDate)
-    }
+  // Filtering happens on the server; every matching page is collected so export and share see all rows
+  const handleSearch = async (filters = exportFilters) => {
+    if (!account) return
+
+    try {
+      setSearching(true)
+      const results: AccountEntry[] = []
+      let cursor = ""
+      do {
+        const data = await fetchEntryPage({ ...filters, limit: String(EXPORT_PAGE_SIZE), cursor })
+        results.push(...data.entries)
+        cursor = data.nextCursor ?? ""
+      } while (cursor)
 
-    if (exportFilters.endDate) {
-      filtered = filtered.filter((entry) => entry.date <= exportFilters.endDate)
+      setFilteredEntries(results)
+    } catch (error) {
+      console.error("Error searching entries:", error)
+      toast({
+        title: "Error",
+        description: "Failed to search entries",
+        variant: "destructive",
+      })
+    } finally {
+      setSearching(false)
     }
+  }
 
-    setFilteredEntries(filtered)
+  const openExportView = () => {
+    setCurrentView("export")
+    handleSearch()
   }
 
-  const exportToCSV = () => {
-    const dataToExport = filteredEntries.length > 0 ? filteredEntries : entries
-    const csvContent = [
-      ["Date", "Particulars", "Debit Country", "Debit (Out)", "Credit Country", "Credit (In)", "Balance"],
-      ...dataToExport.map((entry) => [
-        entry.date,
-        entry.particulars,
-        entry.debitCountry || "-",
-        entry.debit || "-",
-        entry.creditCountry || "-",
-        entry.credit || "-",
-        entry.balance,
-      ]),
-    ]
-      .map((row) => row.join(","))
-      .join("\n")
-
-    const blob = new Blob([csvContent], { type: "text/csv" })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = "account-statement.csv"
-    a.click()
-    window.URL.revokeObjectURL(url)
+  // Downloads are rendered on the server from the same filters the results above were searched with
+  const exportQuery = () => new URLSearchParams(Object.entries(exportFilters).filter(([, value]) => value))
 
-    toast({
-      title: "Success",
-      description: "Statement exported to CSV successfully",
-    })
+  // Fetch a rendered statement and save it under the filename the server chose
+  const downloadStatement = async (format: "csv" | "xlsx", params: URLSearchParams, label: string) => {
+    if (!account) return
+
+    try {
+      const response = await fetch(`/api/accounts/${account.id}/statement/${format}?${params}`)
+      if (!response.ok) {
+        const data = await response.json()
+        toast({
+          title: `Could not export ${label}`,
+          description: data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1]
+      const url = window.URL.createObjectURL(await response.blob())
+      const a = document.createElement("a")
+      a.href = url
+      a.download = filename ?? `account-statement.${format}`
+      a.click()
+      window.URL.revokeObjectURL(url)
+
+      toast({
+        title: "Success",
+        description: `Statement exported to ${label} successfully`,
+      })
+    } catch (error) {
+      console.error(`Error exporting ${label}:`, error)
+      toast({
+        title: "Error",
+        description: `Failed to export ${label}`,
+        variant: "destructive",
+      })
+    }
   }
 
+  const exportToCSV = () => {
+    const params = exportQuery()
+    params.set("columns", csvOptions.columns.join(","))
+    params.set("delimiter", csvOptions.delimiter)
+    params.set("locale", csvOptions.locale)
+    params.set("bom", String(csvOptions.bom))
+    return downloadStatement("csv", params, "CSV")
+  }
+
+  const exportToExcel = () => downloadStatement("xlsx", exportQuery(), "Excel")
+
   const shareViaWhatsApp = () => {
-    const dataToShare = filteredEntries.length > 0 ? filteredEntries : entries
-    let message = "Account Statement:\n\n"
+    const dataToShare = filteredEntries
+    let message = `Account Statement${account ? ` - ${account.name}` : ""}:\n\n`
 
     dataToShare.forEach((entry) => {
+      const countryCurrency = entry.countryCurrency ?? null
       message += `${entry.date} | ${entry.particulars} | `
-      message += `Debit Country: ${entry.debitCountry || "-"} | Debit: ${entry.debit || "-"} | `
-      message += `Credit Country: ${entry.creditCountry || "-"} | Credit: ${entry.credit || "-"} | `
-      message += `Balance: ${entry.balance}\n`
+      message += `Debit Country: ${entry.debitCountry ? formatCurrency(entry.debitCountry, countryCurrency) : "-"} | `
+      message += `Debit: ${entry.debit ? formatCurrency(entry.debit) : "-"} | `
+      message += `Credit Country: ${entry.creditCountry ? formatCurrency(entry.creditCountry, countryCurrency) : "-"} | `
+      message += `Credit: ${entry.credit ? formatCurrency(entry.credit) : "-"} | `
+      message += `Balance: ${formatCurrency(entry.balance)}\n`
     })
 
     const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`
@@ -275,22 +558,55 @@ export function AccountStatement() {
     })
   }
 
-  const formatCurrency = (amount: number) => {
-    return amount.toLocaleString()
+  // Local columns and balances are in the account's base currency; country columns pass the entry's own currency
+  const formatCurrency = (amount: number, currency: string | null = baseCurrency) => {
+    return formatMoney(amount, currency)
   }
 
+  // Entries in a locked period or cleared by an agent settlement can only be reversed
+  const isEntryLocked = (entry: AccountEntry) =>
+    (lockDate !== null && entry.date <= lockDate) || Boolean(entry.settlement)
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-GB")
   }
 
-  if (loading) {
+  const renderSortableHead = (field: SortField, label: string) => (
+    <TableHead>
+      <button type="button" onClick={() => toggleSort(field)} className="flex items-center gap-1">
+        {label}
+        {sort.field === field &&
+          (sort.order === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  )
+
+  // Status badge; users who may edit entries pick the next status from it
+  const renderStatus = (entry: AccountEntry) => {
+    const status = entry.status ?? DEFAULT_TRANSFER_STATUS
+    const badge = (
+      <Badge variant={status === "pending" ? "secondary" : "outline"}>{TRANSFER_STATUS_LABELS[status]}</Badge>
+    )
+    const next = TRANSFER_STATUS_TRANSITIONS[status]
+    // Both halves of a reversal pair keep the status they were reversed in
+    if (next.length === 0 || entry.reversedBy || entry.reversalOf || !can(role, "entries:edit")) return badge
+
     return (
-      <Card className="max-w-6xl mx-auto">
-        <CardContent className="flex items-center justify-center p-8">
-          <Loader2 className="h-8 w-8 animate-spin mr-2" />
-          <span>Loading account statement...</span>
-        </CardContent>
-      </Card>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button type="button" title="Change status">
+            {badge}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Mark as</DropdownMenuLabel>
+          {next.map((to) => (
+            <DropdownMenuItem key={to} onClick={() => handleStatusChange(entry, to)}>
+              {TRANSFER_STATUS_LABELS[to]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
     )
   }
 
@@ -301,94 +617,23 @@ export function AccountStatement() {
           <Button variant="ghost" size="icon" onClick={() => setCurrentView("statement")} className="mr-2">
             <ArrowLeft className="h-4 w-4" />
           </Button>
-          <CardTitle className="text-2xl font-bold">Add New Entry</CardTitle>
+          <CardTitle className="text-2xl font-bold">Add New Entry{account ? ` - ${account.name}` : ""}</CardTitle>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <Label htmlFor="date">Date</Label>
-            <Input
-              id="date"
-              type="date"
-              value={formData.date}
-              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-            />
-          </div>
-          <div>
-            <Label htmlFor="particulars">Particulars</Label>
-            <Input
-              id="particulars"
-              placeholder="Person name or identifier"
-              value={formData.particulars}
-              onChange={(e) => setFormData({ ...formData, particulars: e.target.value })}
-            />
-          </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="debit-country">Debit Country Amount</Label>
-              <Input
-                id="debit-country"
-                type="number"
-                placeholder="0.00"
-                value={formData.debitCountry}
-                onChange={(e) => setFormData({ ...formData, debitCountry: e.target.value })}
-              />
-            </div>
-            <div>
-              <Label htmlFor="debit">Debit (Out)</Label>
-              <Input
-                id="debit"
-                type="number"
-                placeholder="0.00"
-                value={formData.debit}
-                onChange={(e) => setFormData({ ...formData, debit: e.target.value })}
-              />
-            </div>
-          </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="credit-country">Credit Country Amount</Label>
-              <Input
-                id="credit-country"
-                type="number"
-                placeholder="0.00"
-                value={formData.creditCountry}
-                onChange={(e) => setFormData({ ...formData, creditCountry: e.target.value })}
-              />
-            </div>
-            <div>
-              <Label htmlFor="credit">Credit (In)</Label>
-              <Input
-                id="credit"
-                type="number"
-                placeholder="0.00"
-                value={formData.credit}
-                onChange={(e) => setFormData({ ...formData, credit: e.target.value })}
-              />
-            </div>
-          </div>
-          <div className="flex gap-2 pt-4">
-            <Button onClick={handleAddEntry} className="flex-1" disabled={saving}>
-              {saving ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Saving...
-                </>
-              ) : (
-                "Save Entry"
-              )}
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => {
-                resetFormData()
-                setEditingEntry(null)
-                setCurrentView("statement")
-              }}
-              disabled={saving}
-            >
-              Cancel
-            </Button>
-          </div>
+        <CardContent>
+          <EntryForm
+            defaultValues={formData}
+            submitLabel="Save Entry"
+            savingLabel="Saving..."
+            particularsPlaceholder="Person name or identifier"
+            baseCurrency={baseCurrency}
+            showStatus
+            onSubmit={handleAddEntry}
+            onCancel={() => {
+              resetFormData()
+              setEditingEntry(null)
+              setCurrentView("statement")
+            }}
+          />
         </CardContent>
       </Card>
     )
@@ -403,92 +648,46 @@ export function AccountStatement() {
           </Button>
           <CardTitle className="text-2xl font-bold">Edit Entry</CardTitle>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <Label htmlFor="date">Date</Label>
-            <Input
-              id="date"
-              type="date"
-              value={formData.date}
-              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-            />
-          </div>
-          <div>
-            <Label htmlFor="particulars">Particulars</Label>
-            <Input
-              id="particulars"
-              value={formData.particulars}
-              onChange={(e) => setFormData({ ...formData, particulars: e.target.value })}
-            />
-          </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="debit-country">Debit Country Amount</Label>
-              <Input
-                id="debit-country"
-                type="number"
-                value={formData.debitCountry}
-                onChange={(e) => setFormData({ ...formData, debitCountry: e.target.value })}
-              />
-            </div>
-            <div>
-              <Label htmlFor="debit">Debit (Out)</Label>
-              <Input
-                id="debit"
-                type="number"
-                value={formData.debit}
-                onChange={(e) => setFormData({ ...formData, debit: e.target.value })}
-              />
-            </div>
-          </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="credit-country">Credit Country Amount</Label>
-              <Input
-                id="credit-country"
-                type="number"
-                value={formData.creditCountry}
-                onChange={(e) => setFormData({ ...formData, creditCountry: e.target.value })}
-              />
-            </div>
-            <div>
-              <Label htmlFor="credit">Credit (In)</Label>
-              <Input
-                id="credit"
-                type="number"
-                value={formData.credit}
-                onChange={(e) => setFormData({ ...formData, credit: e.target.value })}
-              />
-            </div>
-          </div>
-          <div className="flex gap-2 pt-4">
-            <Button onClick={handleEditEntry} className="flex-1" disabled={saving}>
-              {saving ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Updating...
-                </>
-              ) : (
-                "Update Entry"
-              )}
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => {
-                resetFormData()
-                setEditingEntry(null)
-                setCurrentView("statement")
-              }}
-              disabled={saving}
-            >
-              Cancel
-            </Button>
-          </div>
+        <CardContent>
+          <EntryForm
+            defaultValues={formData}
+            submitLabel="Update Entry"
+            savingLabel="Updating..."
+            baseCurrency={baseCurrency}
+            onSubmit={handleEditEntry}
+            onCancel={() => {
+              resetFormData()
+              setEditingEntry(null)
+              setCurrentView("statement")
+            }}
+          />
         </CardContent>
       </Card>
     )
   }
 
+  if (currentView === "trash" && account) {
+    return (
+      <EntryTrash account={account} onBack={() => setCurrentView("statement")} onRestored={() => fetchEntries()} />
+    )
+  }
+
+  if (currentView === "import" && account) {
+    return (
+      <EntryImport account={account} onBack={() => setCurrentView("statement")} onImported={() => fetchEntries()} />
+    )
+  }
+
+  if (currentView === "reconcile" && account) {
+    return (
+      <BankReconciliation
+        account={account}
+        onBack={() => setCurrentView("statement")}
+        onChanged={() => fetchEntries()}
+      />
+    )
+  }
+
   if (currentView === "export") {
     return (
       <Card className="max-w-6xl mx-auto">
@@ -501,10 +700,10 @@ export function AccountStatement() {
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <Label htmlFor="particulars-filter">Particulars</Label>
+              <Label htmlFor="particulars-filter">Search</Label>
               <Input
                 id="particulars-filter"
-                placeholder="Search person or reference"
+                placeholder="Particulars, reference, sender or beneficiary"
                 value={exportFilters.particulars}
                 onChange={(e) => setExportFilters({ ...exportFilters, particulars: e.target.value })}
               />
@@ -529,8 +728,8 @@ export function AccountStatement() {
             </div>
           </div>
           <div className="flex justify-center">
-            <Button onClick={handleSearch} className="flex items-center gap-2">
-              <Search className="h-4 w-4" />
+            <Button onClick={() => handleSearch()} className="flex items-center gap-2" disabled={searching}>
+              {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
               Search
             </Button>
           </div>
@@ -547,24 +746,26 @@ export function AccountStatement() {
                     <TableHead>Debit (Out)</TableHead>
                     <TableHead>Credit Country</TableHead>
                     <TableHead>Credit (In)</TableHead>
+                    <TableHead>Rate</TableHead>
                     <TableHead>Balance</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {(filteredEntries.length > 0 ? filteredEntries : entries).map((entry) => (
+                  {filteredEntries.map((entry) => (
                     <TableRow key={entry.id}>
                       <TableCell>{formatDate(entry.date)}</TableCell>
                       <TableCell>{entry.particulars}</TableCell>
                       <TableCell className="text-red-600">
-                        {entry.debitCountry ? formatCurrency(entry.debitCountry) : "-"}
+                        {entry.debitCountry ? formatCurrency(entry.debitCountry, entry.countryCurrency ?? null) : "-"}
                       </TableCell>
                       <TableCell className="text-red-600">{entry.debit ? formatCurrency(entry.debit) : "-"}</TableCell>
                       <TableCell className="text-green-600">
-                        {entry.creditCountry ? formatCurrency(entry.creditCountry) : "-"}
+                        {entry.creditCountry ? formatCurrency(entry.creditCountry, entry.countryCurrency ?? null) : "-"}
                       </TableCell>
                       <TableCell className="text-green-600">
                         {entry.credit ? formatCurrency(entry.credit) : "-"}
                       </TableCell>
+                      <TableCell>{formatRate(entry.exchangeRate)}</TableCell>
                       <TableCell className="font-medium">{formatCurrency(entry.balance)}</TableCell>
                     </TableRow>
                   ))}
@@ -573,15 +774,87 @@ export function AccountStatement() {
             </div>
           </div>
 
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">CSV Options</h3>
+            <div className="flex flex-wrap gap-4">
+              {STATEMENT_COLUMNS.map((column) => (
+                <label key={column} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={csvOptions.columns.includes(column)}
+                    onCheckedChange={(checked) =>
+                      setCsvOptions({
+                        ...csvOptions,
+                        columns: STATEMENT_COLUMNS.filter((c) =>
+                          c === column ? checked === true : csvOptions.columns.includes(c),
+                        ),
+                      })
+                    }
+                  />
+                  {STATEMENT_COLUMN_LABELS[column]}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="csv-delimiter">Delimiter</Label>
+                <Select
+                  value={csvOptions.delimiter}
+                  onValueChange={(delimiter) => setCsvOptions({ ...csvOptions, delimiter: delimiter as CsvDelimiter })}
+                >
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="comma">Comma (,)</SelectItem>
+                    <SelectItem value="semicolon">Semicolon (;)</SelectItem>
+                    <SelectItem value="tab">Tab</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="csv-locale">Number Format Locale</Label>
+                <Input
+                  id="csv-locale"
+                  placeholder="en-US"
+                  value={csvOptions.locale}
+                  onChange={(e) => setCsvOptions({ ...csvOptions, locale: e.target.value })}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm h-10">
+                <Checkbox
+                  checked={csvOptions.bom}
+                  onCheckedChange={(checked) => setCsvOptions({ ...csvOptions, bom: checked === true })}
+                />
+                Byte order mark for Excel
+              </label>
+            </div>
+          </div>
+
           <div className="flex justify-center gap-4">
-            <Button onClick={exportToCSV} className="bg-green-600 hover:bg-green-700 flex items-center gap-2">
+            <Button
+              onClick={exportToCSV}
+              disabled={csvOptions.columns.length === 0}
+              className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
+            >
               <Download className="h-4 w-4" />
               Export to CSV
             </Button>
+            <Button onClick={exportToExcel} className="bg-green-600 hover:bg-green-700 flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              Export to Excel
+            </Button>
             <Button onClick={shareViaWhatsApp} className="bg-green-600 hover:bg-green-700 flex items-center gap-2">
               <Share className="h-4 w-4" />
               Share via WhatsApp
             </Button>
+            {account && (
+              <Button asChild className="bg-green-600 hover:bg-green-700 flex items-center gap-2">
+                <a href={`/api/accounts/${account.id}/statement/pdf?${exportQuery()}`} download>
+                  <FileText className="h-4 w-4" />
+                  Download PDF
+                </a>
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -592,81 +865,298 @@ export function AccountStatement() {
     <Card className="max-w-6xl mx-auto">
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="text-3xl font-bold">Account Statement</CardTitle>
-        <Button
-          onClick={() => {
-            resetFormData()
-            setEditingEntry(null)
-            setCurrentView("add")
-          }}
-          className="flex items-center gap-2"
-        >
-          <Plus className="h-4 w-4" />
-          Add Entry
-        </Button>
+        <div className="flex items-center gap-2">
+          <AccountPicker value={account} onChange={setAccount} />
+          <Button variant="outline" asChild>
+            <Link href="/rates">Rates</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/reports/fx-margin">FX Margin</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/contacts">Contacts</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/ledger">Ledger</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/agents">Agents</Link>
+          </Button>
+          <Button
+            onClick={() => {
+              resetFormData()
+              setEditingEntry(null)
+              setCurrentView("add")
+            }}
+            className="flex items-center gap-2"
+            disabled={!account || account.archived || !can(role, "entries:create")}
+          >
+            <Plus className="h-4 w-4" />
+            Add Entry
+          </Button>
+          <UserMenu />
+        </div>
       </CardHeader>
       <CardContent>
-        <div className="border rounded-lg overflow-hidden mb-6">
-          <Table>
-            <TableHeader>
-              <TableRow className="bg-gray-50">
-                <TableHead>Date</TableHead>
-                <TableHead>Particulars</TableHead>
-                <TableHead>Debit Country</TableHead>
-                <TableHead>Debit (Out)</TableHead>
-                <TableHead>Credit Country</TableHead>
-                <TableHead>Credit (In)</TableHead>
-                <TableHead>Balance</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {entries.map((entry) => (
-                <TableRow key={entry.id}>
-                  <TableCell>{formatDate(entry.date)}</TableCell>
-                  <TableCell>{entry.particulars}</TableCell>
-                  <TableCell className="text-red-600">
-                    {entry.debitCountry ? formatCurrency(entry.debitCountry) : "-"}
-                  </TableCell>
-                  <TableCell className="text-red-600">{entry.debit ? formatCurrency(entry.debit) : "-"}</TableCell>
-                  <TableCell className="text-green-600">
-                    {entry.creditCountry ? formatCurrency(entry.creditCountry) : "-"}
-                  </TableCell>
-                  <TableCell className="text-green-600">{entry.credit ? formatCurrency(entry.credit) : "-"}</TableCell>
-                  <TableCell className="font-medium">{formatCurrency(entry.balance)}</TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => startEdit(entry)}
-                        className="bg-yellow-500 hover:bg-yellow-600 text-white border-yellow-500"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDeleteEntry(entry.id)}
-                        className="bg-red-500 hover:bg-red-600 text-white border-red-500"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
+        <div className="flex items-center gap-2 mb-4">
+          <Label htmlFor="statement-period">Period</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger id="statement-period" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All time</SelectItem>
+              {[...new Set([...recentPeriods(), ...closedPeriods])].map((key) => (
+                <SelectItem key={key} value={key}>
+                  {periodLabel(key)}
+                  {closedPeriods.includes(key) ? " (closed)" : ""}
+                </SelectItem>
               ))}
-            </TableBody>
-          </Table>
+            </SelectContent>
+          </Select>
+          <Label htmlFor="statement-status" className="ml-4">
+            Status
+          </Label>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger id="statement-status" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {TRANSFER_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {TRANSFER_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Switch
+            id="statement-exclude-pending"
+            className="ml-4"
+            checked={excludePending}
+            onCheckedChange={setExcludePending}
+          />
+          <Label htmlFor="statement-exclude-pending">Exclude pending from balance</Label>
         </div>
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin mr-2" />
+            <span>Loading account statement...</span>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-hidden mb-6">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  {renderSortableHead("date", "Date")}
+                  {renderSortableHead("particulars", "Particulars")}
+                  <TableHead>Debit Country</TableHead>
+                  {renderSortableHead("debit", "Debit (Out)")}
+                  <TableHead>Credit Country</TableHead>
+                  {renderSortableHead("credit", "Credit (In)")}
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sort.field === "date" && sort.order === "asc" && (entries.length > 0 || period !== "all") && (
+                  <TableRow className="bg-gray-50/50">
+                    <TableCell />
+                    <TableCell className="italic">Opening balance</TableCell>
+                    <TableCell colSpan={6} />
+                    <TableCell className="font-medium">{formatCurrency(openingBalance)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                )}
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell>
+                      {entry.contactId ? (
+                        <Link href={`/contacts/${entry.contactId}`} className="hover:underline">
+                          {entry.particulars}
+                        </Link>
+                      ) : (
+                        entry.particulars
+                      )}
+                      {entry.reversalOf && (
+                        <Badge variant="secondary" className="ml-2">
+                          Reversal
+                        </Badge>
+                      )}
+                      {entry.reversedBy && (
+                        <Badge variant="outline" className="ml-2">
+                          Reversed
+                        </Badge>
+                      )}
+                      {entry.reconciled && (
+                        <Badge variant="outline" className="ml-2 border-green-600 text-green-700">
+                          Reconciled
+                        </Badge>
+                      )}
+                      {entry.settlement && (
+                        <Badge variant="outline" className="ml-2">
+                          Settled
+                        </Badge>
+                      )}
+                      {(entry.senderName || entry.beneficiaryName) && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.senderName ?? "-"} → {entry.beneficiaryName ?? "-"}
+                        </div>
+                      )}
+                      {entry.reference && (
+                        <div className="font-mono text-xs text-muted-foreground">{entry.reference}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-red-600">
+                      {entry.debitCountry ? formatCurrency(entry.debitCountry, entry.countryCurrency ?? null) : "-"}
+                    </TableCell>
+                    <TableCell className="text-red-600">{entry.debit ? formatCurrency(entry.debit) : "-"}</TableCell>
+                    <TableCell className="text-green-600">
+                      {entry.creditCountry ? formatCurrency(entry.creditCountry, entry.countryCurrency ?? null) : "-"}
+                    </TableCell>
+                    <TableCell className="text-green-600">{entry.credit ? formatCurrency(entry.credit) : "-"}</TableCell>
+                    <TableCell
+                      title={
+                        entry.appliedRate
+                          ? `Reference rate ${formatRate(entry.appliedRate.rate)} (${entry.appliedRate.effectiveDate})`
+                          : undefined
+                      }
+                    >
+                      {formatRate(entry.exchangeRate)}
+                    </TableCell>
+                    <TableCell>{renderStatus(entry)}</TableCell>
+                    <TableCell className="font-medium">{formatCurrency(entry.balance)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {!isEntryLocked(entry) &&
+                          !entry.reversedBy &&
+                          !entry.reversalOf &&
+                          canEditEntryDated(role, entry.date) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => startEdit(entry)}
+                            className="bg-yellow-500 hover:bg-yellow-600 text-white border-yellow-500"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" asChild title="Receipt">
+                          <Link href={`/entries/${entry.id}/receipt`}>
+                            <Printer className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {can(role, "audit:view") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryEntryId(entry.id)}
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can(role, "entries:reverse") && !entry.reversedBy && countsInBalance(entry.status) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReversingEntry(entry)}
+                            title="Reverse"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {/* A reversed original stays until its reversal is moved to the trash */}
+                        {!isEntryLocked(entry) && !entry.reversedBy && can(role, "entries:delete") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setVoidingEntry(entry)}
+                            className="bg-red-500 hover:bg-red-600 text-white border-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <Pagination className="mb-6">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                onClick={goToPreviousPage}
+                aria-disabled={cursorStack.length <= 1}
+                className={cursorStack.length <= 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-4 text-sm text-muted-foreground">Page {cursorStack.length}</span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                onClick={goToNextPage}
+                aria-disabled={!nextCursor}
+                className={!nextCursor ? "pointer-events-none opacity-50" : "cursor-pointer"}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
         <div className="flex justify-center">
           <Button
-            onClick={() => setCurrentView("export")}
+            onClick={openExportView}
+            disabled={!account}
             className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
           >
             <Share className="h-4 w-4" />
             Export / Share
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setCurrentView("trash")}
+            disabled={!account}
+            className="flex items-center gap-2 ml-2"
+          >
+            <ArchiveRestore className="h-4 w-4" />
+            Trash
+          </Button>
+          {can(role, "entries:import") && (
+            <Button
+              variant="outline"
+              onClick={() => setCurrentView("import")}
+              disabled={!account || account.archived}
+              className="flex items-center gap-2 ml-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+          )}
+          {can(role, "entries:reconcile") && (
+            <Button
+              variant="outline"
+              onClick={() => setCurrentView("reconcile")}
+              disabled={!account}
+              className="flex items-center gap-2 ml-2"
+            >
+              <Landmark className="h-4 w-4" />
+              Reconcile
+            </Button>
+          )}
         </div>
+        <EntryHistory entryId={historyEntryId} onClose={() => setHistoryEntryId(null)} />
+        <VoidEntryDialog entry={voidingEntry} onClose={() => setVoidingEntry(null)} onConfirm={handleVoidEntry} />
+        <ReverseEntryDialog
+          entry={reversingEntry}
+          onClose={() => setReversingEntry(null)}
+          onConfirm={handleReverseEntry}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,333 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ArrowLeft, Loader2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { formatMoney } from "@/lib/currency"
+import { BALANCE_TOLERANCE, DEFAULT_COUNTER_KEY, isPostingAccount, type LedgerAccount } from "@/lib/chart-of-accounts"
+
+export interface Agent {
+  id: string
+  name: string
+  country: string
+  currency: string
+  settlementCurrency: string
+  archived: boolean
+}
+
+interface AgentLedgerRow {
+  id: string
+  kind: "transfer" | "settlement"
+  date: string
+  particulars: string
+  accountName: string | null
+  foreign: number
+  local: number
+  foreignBalance: number
+  localBalance: number
+  settlementId: string | null
+}
+
+interface AgentLedgerData {
+  agent: Agent
+  position: { openTransfers: number; foreign: number; local: number }
+  rows: AgentLedgerRow[]
+}
+
+// Positive positions are owed to the agent, negative ones by it
+export function PositionBadge({ amount }: { amount: number }) {
+  if (Math.abs(amount) < BALANCE_TOLERANCE) return <Badge variant="secondary">Settled</Badge>
+  return amount > 0 ? (
+    <Badge variant="outline" className="border-red-600 text-red-700">
+      Payable
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="border-green-600 text-green-700">
+      Receivable
+    </Badge>
+  )
+}
+
+interface AgentLedgerProps {
+  agentId: string
+  onBack: () => void
+}
+
+// An agent's transfers and settlements with the running position in both currencies. Open transfers can be
+// ticked and cleared together by one net-off settlement.
+export function AgentLedger({ agentId, onBack }: AgentLedgerProps) {
+  const [data, setData] = useState<AgentLedgerData | null>(null)
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [settlementDate, setSettlementDate] = useState(new Date().toISOString().split("T")[0])
+  const [counterAccountId, setCounterAccountId] = useState("")
+  const [reference, setReference] = useState("")
+  const [settling, setSettling] = useState(false)
+  const role = useCurrentUser()?.role
+  const canSettle = can(role, "agents:settle")
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const fetchLedger = async () => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}`)
+      if (!response.ok) throw new Error("Failed to fetch agent")
+      setData(await response.json())
+      setSelected(new Set())
+    } catch (error) {
+      console.error("Error fetching agent:", error)
+      showError("Failed to fetch agent")
+    }
+  }
+
+  useEffect(() => {
+    fetchLedger()
+    fetch("/api/ledger/accounts")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setLedgerAccounts)
+      .catch((error) => console.error("Error fetching ledger accounts:", error))
+  }, [agentId])
+
+  const handleSettle = async () => {
+    try {
+      setSettling(true)
+      const response = await fetch(`/api/agents/${agentId}/settlements`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ date: settlementDate, entryIds: [...selected], counterAccountId, reference }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        const fieldMessages = Object.values(result.fieldErrors ?? {}).flat()
+        showError(fieldMessages.length > 0 ? fieldMessages.join(". ") : result.error)
+        return
+      }
+      toast({
+        title: "Success",
+        description: `${selected.size} transfer${selected.size === 1 ? "" : "s"} settled`,
+      })
+      setReference("")
+      await fetchLedger()
+    } catch (error) {
+      console.error("Error settling agent transfers:", error)
+      showError("Failed to settle agent transfers")
+    } finally {
+      setSettling(false)
+    }
+  }
+
+  const handleUndo = async (settlementId: string) => {
+    try {
+      const response = await fetch(`/api/agent-settlements/${settlementId}`, { method: "DELETE" })
+      const result = await response.json()
+      if (!response.ok) {
+        showError(result.error)
+        return
+      }
+      toast({
+        title: "Success",
+        description: "Settlement undone",
+      })
+      await fetchLedger()
+    } catch (error) {
+      console.error("Error undoing settlement:", error)
+      showError("Failed to undo settlement")
+    }
+  }
+
+  if (!data) {
+    return (
+      <Card className="max-w-6xl mx-auto">
+        <CardContent className="py-8">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { agent, position, rows } = data
+  const openRows = rows.filter((row) => row.kind === "transfer" && !row.settlementId)
+  const selectedRows = openRows.filter((row) => selected.has(row.id))
+  const netForeign = selectedRows.reduce((sum, row) => sum + row.foreign, 0)
+  const netLocal = selectedRows.reduce((sum, row) => sum + row.local, 0)
+  const foreign = (amount: number) => formatMoney(amount, agent.currency)
+  const local = (amount: number) => formatMoney(amount, agent.settlementCurrency)
+  const defaultCounterAccount = ledgerAccounts.find((account) => account.key === DEFAULT_COUNTER_KEY)
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) next.add(id)
+    else next.delete(id)
+    setSelected(next)
+  }
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">{agent.name}</CardTitle>
+        <Badge variant="outline">
+          {agent.country} · {agent.currency} / {agent.settlementCurrency}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="border rounded-lg p-4">
+            <p className="text-sm text-muted-foreground">Open transfers</p>
+            <p className="text-xl font-semibold">{position.openTransfers}</p>
+          </div>
+          <div className="border rounded-lg p-4">
+            <p className="text-sm text-muted-foreground">Position in {agent.currency}</p>
+            <p className="text-xl font-semibold">{foreign(Math.abs(position.foreign))}</p>
+          </div>
+          <div className="border rounded-lg p-4">
+            <p className="text-sm text-muted-foreground">Position in {agent.settlementCurrency}</p>
+            <p className="text-xl font-semibold flex items-center gap-2">
+              {local(Math.abs(position.local))}
+              <PositionBadge amount={position.local} />
+            </p>
+          </div>
+        </div>
+
+        {canSettle && selectedRows.length > 0 && (
+          <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+            <p className="font-medium">
+              Settle {selectedRows.length} transfer{selectedRows.length === 1 ? "" : "s"}:{" "}
+              {netLocal >= 0 ? "pay" : "receive"} {local(Math.abs(netLocal))} ({foreign(Math.abs(netForeign))})
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="settlement-date">Date</Label>
+                <Input
+                  id="settlement-date"
+                  type="date"
+                  value={settlementDate}
+                  onChange={(e) => setSettlementDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="settlement-counter">{netLocal >= 0 ? "Paid From" : "Received Into"}</Label>
+                <Select value={counterAccountId || defaultCounterAccount?.id || ""} onValueChange={setCounterAccountId}>
+                  <SelectTrigger id="settlement-counter">
+                    <SelectValue placeholder="Cash in Hand" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ledgerAccounts.filter(isPostingAccount).map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.code} · {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="settlement-reference">Reference</Label>
+                <Input id="settlement-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+              </div>
+              <Button onClick={handleSettle} disabled={settling}>
+                {settling && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Record Settlement
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                {canSettle && (
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={openRows.length > 0 && selectedRows.length === openRows.length}
+                      onCheckedChange={(checked) => setSelected(new Set(checked ? openRows.map((row) => row.id) : []))}
+                      aria-label="Select all open transfers"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Date</TableHead>
+                <TableHead>Particulars</TableHead>
+                <TableHead className="text-right">{agent.currency}</TableHead>
+                <TableHead className="text-right">{agent.settlementCurrency}</TableHead>
+                <TableHead className="text-right">Balance ({agent.currency})</TableHead>
+                <TableHead className="text-right">Balance ({agent.settlementCurrency})</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No transfers tagged with this agent
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.id} className={row.kind === "settlement" ? "bg-gray-50 font-medium" : undefined}>
+                    {canSettle && (
+                      <TableCell>
+                        {row.kind === "transfer" && !row.settlementId && (
+                          <Checkbox
+                            checked={selected.has(row.id)}
+                            onCheckedChange={(checked) => toggle(row.id, checked === true)}
+                            aria-label="Select transfer"
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell className="whitespace-nowrap">{row.date}</TableCell>
+                    <TableCell>
+                      {row.particulars}
+                      {row.accountName && <span className="text-muted-foreground"> · {row.accountName}</span>}
+                      {row.kind === "transfer" && row.settlementId && (
+                        <Badge variant="outline" className="ml-2">
+                          Settled
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{foreign(row.foreign)}</TableCell>
+                    <TableCell className="text-right">{local(row.local)}</TableCell>
+                    <TableCell className="text-right">{foreign(row.foreignBalance)}</TableCell>
+                    <TableCell className="text-right">{local(row.localBalance)}</TableCell>
+                    <TableCell>
+                      {row.kind === "settlement" && canSettle && (
+                        <Button variant="ghost" size="icon" title="Undo settlement" onClick={() => handleUndo(row.id)}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Amounts paid out through the agent add to what is owed to it; amounts it collected and settlements take
+          away from it.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Archive, ArchiveRestore, Edit, Loader2, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AgentLedger, PositionBadge, type Agent } from "@/components/agent-ledger"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { DEFAULT_BASE_CURRENCY, formatMoney } from "@/lib/currency"
+
+interface AgentWithPosition extends Agent {
+  position: { openTransfers: number; foreign: number; local: number }
+}
+
+const emptyAgentForm = () => ({ name: "", country: "", currency: "", settlementCurrency: DEFAULT_BASE_CURRENCY })
+
+// Partner agents per corridor with what is owed to or by each over its unsettled transfers
+export function Agents() {
+  const [agents, setAgents] = useState<AgentWithPosition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [viewingAgent, setViewingAgent] = useState<Agent | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingAgent, setEditingAgent] = useState<Agent | null>(null)
+  const [agentForm, setAgentForm] = useState(emptyAgentForm)
+  const role = useCurrentUser()?.role
+  const canManage = can(role, "agents:manage")
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const fetchAgents = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/agents")
+      if (!response.ok) throw new Error("Failed to fetch agents")
+      setAgents(await response.json())
+    } catch (error) {
+      console.error("Error fetching agents:", error)
+      showError("Failed to fetch agents")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAgents()
+  }, [])
+
+  const openDialog = (agent: Agent | null) => {
+    setEditingAgent(agent)
+    setAgentForm(
+      agent
+        ? {
+            name: agent.name,
+            country: agent.country,
+            currency: agent.currency,
+            settlementCurrency: agent.settlementCurrency,
+          }
+        : emptyAgentForm(),
+    )
+    setDialogOpen(true)
+  }
+
+  const saveAgent = async (fields: Record<string, unknown>, agent: Agent | null) => {
+    try {
+      const response = await fetch(agent ? `/api/agents/${agent.id}` : "/api/agents", {
+        method: agent ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(fields),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        showError(fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error)
+        return false
+      }
+      await fetchAgents()
+      return true
+    } catch (error) {
+      console.error("Error saving agent:", error)
+      showError("Failed to save agent")
+      return false
+    }
+  }
+
+  const handleSave = async () => {
+    if (await saveAgent(agentForm, editingAgent)) setDialogOpen(false)
+  }
+
+  if (viewingAgent) {
+    return (
+      <AgentLedger
+        agentId={viewingAgent.id}
+        onBack={() => {
+          setViewingAgent(null)
+          fetchAgents()
+        }}
+      />
+    )
+  }
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Agents</CardTitle>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Agent
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Agent</TableHead>
+                <TableHead>Corridor</TableHead>
+                <TableHead className="text-right">Open Transfers</TableHead>
+                <TableHead className="text-right">Position (Country)</TableHead>
+                <TableHead className="text-right">Position (Local)</TableHead>
+                <TableHead />
+                {canManage && <TableHead className="w-24">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : agents.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No agents yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                agents.map((agent) => (
+                  <TableRow key={agent.id} className={agent.archived ? "text-muted-foreground" : undefined}>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="hover:underline text-left"
+                        onClick={() => setViewingAgent(agent)}
+                      >
+                        {agent.name}
+                      </button>
+                      {agent.archived && (
+                        <Badge variant="outline" className="ml-2">
+                          Archived
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {agent.country} · {agent.currency} / {agent.settlementCurrency}
+                    </TableCell>
+                    <TableCell className="text-right">{agent.position.openTransfers}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(Math.abs(agent.position.foreign), agent.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(Math.abs(agent.position.local), agent.settlementCurrency)}
+                    </TableCell>
+                    <TableCell>
+                      <PositionBadge amount={agent.position.local} />
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openDialog(agent)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={agent.archived ? "Unarchive" : "Archive"}
+                            onClick={() => saveAgent({ archived: !agent.archived }, agent)}
+                          >
+                            {agent.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingAgent ? "Edit Agent" : "Add Agent"}</DialogTitle>
+              <DialogDescription>
+                An agent works one corridor: it pays out in the country currency and settles in the local one.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="agent-name">Name</Label>
+                <Input
+                  id="agent-name"
+                  value={agentForm.name}
+                  onChange={(e) => setAgentForm({ ...agentForm, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="agent-country">Country</Label>
+                <Input
+                  id="agent-country"
+                  value={agentForm.country}
+                  onChange={(e) => setAgentForm({ ...agentForm, country: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="agent-currency">Payout Currency</Label>
+                  <Input
+                    id="agent-currency"
+                    placeholder="e.g. INR"
+                    maxLength={3}
+                    value={agentForm.currency}
+                    onChange={(e) => setAgentForm({ ...agentForm, currency: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="agent-settlement-currency">Settlement Currency</Label>
+                  <Input
+                    id="agent-settlement-currency"
+                    maxLength={3}
+                    value={agentForm.settlementCurrency}
+                    onChange={(e) => setAgentForm({ ...agentForm, settlementCurrency: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!agentForm.name.trim() || !agentForm.country.trim()}>
+                {editingAgent ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { EventChanges, EventTypeBadge, type EntryEvent } from "@/components/entry-history"
+
+export function AuditLog() {
+  const [events, setEvents] = useState<EntryEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [type, setType] = useState("all")
+  const { toast } = useToast()
+
+  const fetchEvents = async (cursor?: string) => {
+    try {
+      setLoading(true)
+      const query = new URLSearchParams({
+        ...(type !== "all" && { type }),
+        ...(cursor && { cursor }),
+      })
+      const response = await fetch(`/api/audit?${query}`)
+      if (!response.ok) throw new Error("Failed to fetch audit log")
+      const data: { events: EntryEvent[]; nextCursor: string | null } = await response.json()
+
+      setEvents(cursor ? [...events, ...data.events] : data.events)
+      setNextCursor(data.nextCursor)
+    } catch (error) {
+      console.error("Error fetching audit log:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch audit log",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEvents()
+  }, [type])
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Audit Log</CardTitle>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="audit-type">Show</Label>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger id="audit-type" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All changes</SelectItem>
+              <SelectItem value="create">Created</SelectItem>
+              <SelectItem value="update">Updated</SelectItem>
+              <SelectItem value="void">Voided</SelectItem>
+              <SelectItem value="restore">Restored</SelectItem>
+              <SelectItem value="delete">Purged</SelectItem>
+              <SelectItem value="reverse">Reversed</SelectItem>
+              <SelectItem value="status">Status changed</SelectItem>
+              <SelectItem value="settlement">Settlement</SelectItem>
+              <SelectItem value="reconciliation">Reconciliation</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} className="align-top">
+                  <TableCell className="whitespace-nowrap">{new Date(event.at).toLocaleString("en-GB")}</TableCell>
+                  <TableCell>
+                    <div>{event.actor.name}</div>
+                    <div className="text-xs text-muted-foreground">{event.actor.email}</div>
+                  </TableCell>
+                  <TableCell>{event.ip ?? "-"}</TableCell>
+                  <TableCell>
+                    <EventTypeBadge type={event.type} />
+                  </TableCell>
+                  <TableCell>
+                    <EventChanges event={event} />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && events.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No changes recorded yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {loading && (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            <span>Loading audit log...</span>
+          </div>
+        )}
+        {nextCursor && !loading && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchEvents(nextCursor)}>
+              Load More
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,463 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { ArrowLeft, Link2, Link2Off, Loader2, Plus, Upload, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ContactCombobox, type Contact } from "@/components/contact-combobox"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { formatMoney } from "@/lib/currency"
+import { BANK_STATEMENT_FORMAT_LABELS, type BankStatementFormat } from "@/lib/bank-statements"
+
+interface BankLine {
+  id: string
+  date: string
+  amount: number
+  reference: string
+  description: string
+  match: { method: "auto" | "manual" | "created"; actor: { name: string } } | null
+  entry: { id: string; date: string; particulars: string; debit: number; credit: number } | null
+}
+
+interface CandidateEntry {
+  id: string
+  date: string
+  particulars: string
+  debit: number
+  credit: number
+}
+
+type LineStatus = "unmatched" | "matched" | "all"
+
+const MATCH_METHOD_LABELS = {
+  auto: "Auto",
+  manual: "Manual",
+  created: "New entry",
+}
+
+interface BankReconciliationProps {
+  account: { id: string; name: string; baseCurrency?: string; archived?: boolean }
+  onBack: () => void
+  // Called after entries were created or reconciled so the statement can refresh
+  onChanged: () => void
+}
+
+// Import bank statements for the account and match their lines to ledger entries
+export function BankReconciliation({ account, onBack, onChanged }: BankReconciliationProps) {
+  const [status, setStatus] = useState<LineStatus>("unmatched")
+  const [lines, setLines] = useState<BankLine[]>([])
+  const [summary, setSummary] = useState({ unmatched: 0, matched: 0, unreconciledEntries: 0 })
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [matchingLine, setMatchingLine] = useState<BankLine | null>(null)
+  const [candidates, setCandidates] = useState<CandidateEntry[] | null>(null)
+  const [creatingLine, setCreatingLine] = useState<BankLine | null>(null)
+  const [newEntry, setNewEntry] = useState({ particulars: "", contactId: "" })
+  const fileInput = useRef<HTMLInputElement>(null)
+  const role = useCurrentUser()?.role
+  const canReconcile = can(role, "entries:reconcile")
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const fetchLines = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/accounts/${account.id}/reconciliation?status=${status}`)
+      if (!response.ok) throw new Error("Failed to fetch bank lines")
+      const data = await response.json()
+      setLines(data.lines)
+      setSummary(data.summary)
+    } catch (error) {
+      console.error("Error fetching bank lines:", error)
+      showError("Failed to fetch bank lines")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchLines()
+  }, [account.id, status])
+
+  // Run a reconciliation request; on success refresh the lines and the statement behind this view
+  const run = async (request: () => Promise<Response>, fallback: string) => {
+    try {
+      setBusy(true)
+      const response = await request()
+      const data = await response.json()
+      if (!response.ok) {
+        showError(data.error ?? fallback)
+        return null
+      }
+      onChanged()
+      await fetchLines()
+      return data
+    } catch (error) {
+      console.error(`${fallback}:`, error)
+      showError(fallback)
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleUpload = async (file: File) => {
+    const body = new FormData()
+    body.append("file", file)
+    const data = await run(
+      () => fetch(`/api/accounts/${account.id}/bank-statements`, { method: "POST", body }),
+      "Failed to import bank statement",
+    )
+    if (fileInput.current) fileInput.current.value = ""
+    if (!data) return
+
+    const skipped = data.skipped ? `, ${data.skipped} already imported` : ""
+    toast({
+      title: `${BANK_STATEMENT_FORMAT_LABELS[data.format as BankStatementFormat]} statement imported`,
+      description: `${data.imported} new lines${skipped}, ${data.matched} matched automatically`,
+    })
+  }
+
+  const handleAutoMatch = async () => {
+    const data = await run(
+      () => fetch(`/api/accounts/${account.id}/reconciliation/auto-match`, { method: "POST" }),
+      "Failed to auto-match bank lines",
+    )
+    if (data) {
+      toast({
+        title: "Success",
+        description: `${data.matched} lines matched`,
+      })
+    }
+  }
+
+  const openMatchDialog = async (line: BankLine) => {
+    setMatchingLine(line)
+    setCandidates(null)
+    try {
+      const response = await fetch(`/api/bank-lines/${line.id}/candidates`)
+      if (!response.ok) throw new Error("Failed to fetch entries")
+      setCandidates(await response.json())
+    } catch (error) {
+      console.error("Error fetching match candidates:", error)
+      showError("Failed to fetch entries to match")
+      setMatchingLine(null)
+    }
+  }
+
+  const handleMatch = async (entryId: string) => {
+    if (!matchingLine) return
+    const data = await run(
+      () =>
+        fetch(`/api/bank-lines/${matchingLine.id}/match`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ entryId }),
+        }),
+      "Failed to match bank line",
+    )
+    if (data) setMatchingLine(null)
+  }
+
+  const handleUnmatch = async (line: BankLine) => {
+    await run(() => fetch(`/api/bank-lines/${line.id}/match`, { method: "DELETE" }), "Failed to unmatch bank line")
+  }
+
+  const openCreateDialog = (line: BankLine) => {
+    setCreatingLine(line)
+    setNewEntry({ particulars: line.description || line.reference, contactId: "" })
+  }
+
+  const handleCreate = async () => {
+    if (!creatingLine) return
+    const data = await run(
+      () =>
+        fetch(`/api/bank-lines/${creatingLine.id}/entry`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(newEntry),
+        }),
+      "Failed to create entry",
+    )
+    if (data) {
+      setCreatingLine(null)
+      toast({
+        title: "Success",
+        description: "Entry created and matched",
+      })
+    }
+  }
+
+  const formatAmount = (amount: number) => (
+    <span className={amount < 0 ? "text-red-600" : "text-green-600"}>{formatMoney(amount, account.baseCurrency)}</span>
+  )
+
+  const entryAmount = (entry: { debit: number; credit: number }) => formatAmount(entry.credit - entry.debit)
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold">Bank Reconciliation - {account.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex gap-6 text-sm">
+            <span>
+              <span className="font-semibold">{summary.unmatched}</span> unmatched lines
+            </span>
+            <span>
+              <span className="font-semibold">{summary.matched}</span> matched lines
+            </span>
+            <span>
+              <span className="font-semibold">{summary.unreconciledEntries}</span> entries not reconciled
+            </span>
+          </div>
+          {canReconcile && (
+            <div className="flex gap-2">
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".ofx,.qfx,.xml,.sta,.mt940,.940,.txt"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+              />
+              <Button
+                onClick={() => fileInput.current?.click()}
+                disabled={busy || account.archived}
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Import Statement
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleAutoMatch}
+                disabled={busy || summary.unmatched === 0}
+                className="flex items-center gap-2"
+              >
+                <Wand2 className="h-4 w-4" />
+                Auto-match
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as LineStatus)}>
+          <TabsList>
+            <TabsTrigger value="unmatched">Unmatched</TabsTrigger>
+            <TabsTrigger value="matched">Matched</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Matched Entry</TableHead>
+                {canReconcile && <TableHead className="w-48">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {status === "unmatched" ? "No unmatched bank lines" : "No bank lines"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">{line.date}</TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-muted-foreground">{line.reference}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.amount)}</TableCell>
+                    <TableCell>
+                      {line.entry ? (
+                        <div className="text-sm">
+                          <div>
+                            {line.entry.date} · {line.entry.particulars}
+                            <Badge variant="secondary" className="ml-2">
+                              {line.match && MATCH_METHOD_LABELS[line.match.method]}
+                            </Badge>
+                          </div>
+                          {Math.abs(line.entry.credit - line.entry.debit - line.amount) >= 0.005 && (
+                            <div className="text-xs text-amber-600">Entry amount {entryAmount(line.entry)}</div>
+                          )}
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    {canReconcile && (
+                      <TableCell>
+                        {line.match ? (
+                          <Button variant="outline" size="sm" onClick={() => handleUnmatch(line)} disabled={busy}>
+                            <Link2Off className="h-4 w-4 mr-1" />
+                            Unmatch
+                          </Button>
+                        ) : (
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openMatchDialog(line)} disabled={busy}>
+                              <Link2 className="h-4 w-4 mr-1" />
+                              Match
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openCreateDialog(line)}
+                              disabled={busy || account.archived}
+                            >
+                              <Plus className="h-4 w-4 mr-1" />
+                              Entry
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Dialog open={matchingLine !== null} onOpenChange={(open) => !open && setMatchingLine(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Match Bank Line</DialogTitle>
+              <DialogDescription>
+                {matchingLine && (
+                  <>
+                    {matchingLine.date} · {matchingLine.description} · {formatAmount(matchingLine.amount)}
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            {candidates === null ? (
+              <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+            ) : candidates.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-4">
+                No unreconciled entries with this amount or near this date
+              </p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead>Date</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap">{entry.date}</TableCell>
+                        <TableCell>{entry.particulars}</TableCell>
+                        <TableCell className="text-right">{entryAmount(entry)}</TableCell>
+                        <TableCell>
+                          <Button size="sm" onClick={() => handleMatch(entry.id)} disabled={busy}>
+                            Match
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={creatingLine !== null} onOpenChange={(open) => !open && setCreatingLine(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Entry from Bank Line</DialogTitle>
+              <DialogDescription>
+                {creatingLine && (
+                  <>
+                    {creatingLine.date} · {creatingLine.amount < 0 ? "Debit (Out)" : "Credit (In)"}{" "}
+                    {formatMoney(Math.abs(creatingLine.amount), account.baseCurrency)}
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="bank-line-contact">Contact</Label>
+                <ContactCombobox
+                  id="bank-line-contact"
+                  value={newEntry.contactId}
+                  onChange={(contact: Contact | null) =>
+                    setNewEntry({
+                      contactId: contact?.id ?? "",
+                      particulars: contact && !newEntry.particulars ? contact.name : newEntry.particulars,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="bank-line-particulars">Particulars</Label>
+                <Input
+                  id="bank-line-particulars"
+                  value={newEntry.particulars}
+                  onChange={(e) => setNewEntry({ ...newEntry, particulars: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCreatingLine(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={busy || !newEntry.particulars.trim()}>
+                {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Create and Match
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+export interface Contact {
+  id: string
+  name: string
+  phone?: string | null
+  country?: string | null
+  idDocumentNumber?: string | null
+  notes?: string | null
+}
+
+interface ContactComboboxProps {
+  value: string
+  onChange: (contact: Contact | null) => void
+  id?: string
+}
+
+// Searches contacts on the server as the user types and can create one from the search text
+export function ContactCombobox({ value, onChange, id }: ContactComboboxProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [selected, setSelected] = useState<Contact | null>(null)
+  const { toast } = useToast()
+
+  // Resolve the name of a contact chosen before the form opened, e.g. when editing an entry
+  useEffect(() => {
+    if (!value) {
+      setSelected(null)
+      return
+    }
+    if (selected?.id === value) return
+
+    fetch(`/api/contacts/${value}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setSelected)
+      .catch((error) => console.error("Error fetching contact:", error))
+  }, [value])
+
+  useEffect(() => {
+    if (!open) return
+
+    const timeout = setTimeout(() => {
+      fetch(`/api/contacts?${new URLSearchParams({ q: search })}`)
+        .then((response) => (response.ok ? response.json() : []))
+        .then(setContacts)
+        .catch((error) => console.error("Error searching contacts:", error))
+    }, 200)
+
+    return () => clearTimeout(timeout)
+  }, [search, open])
+
+  const select = (contact: Contact | null) => {
+    setSelected(contact)
+    onChange(contact)
+    setOpen(false)
+    setSearch("")
+  }
+
+  const handleCreate = async () => {
+    try {
+      const response = await fetch("/api/contacts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: search }),
+      })
+      if (!response.ok) throw new Error("Failed to create contact")
+      select(await response.json())
+    } catch (error) {
+      console.error("Error creating contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create contact",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="flex-1 justify-between font-normal"
+          >
+            {selected ? selected.name : <span className="text-muted-foreground">No contact</span>}
+            <ChevronsUpDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search name, phone or ID..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No contacts found</CommandEmpty>
+              <CommandGroup>
+                {contacts.map((contact) => (
+                  <CommandItem key={contact.id} value={contact.id} onSelect={() => select(contact)}>
+                    <Check className={cn("h-4 w-4 mr-2", contact.id === value ? "opacity-100" : "opacity-0")} />
+                    <div>
+                      <div>{contact.name}</div>
+                      {(contact.phone || contact.country) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[contact.phone, contact.country].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              {search.trim() && (
+                <CommandGroup>
+                  <CommandItem value="__create" onSelect={handleCreate}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create &quot;{search.trim()}&quot;
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selected && (
+        <Button type="button" variant="ghost" size="icon" onClick={() => select(null)} title="Clear contact">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
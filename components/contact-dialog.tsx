@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { Contact } from "@/components/contact-combobox"
+
+type ContactFields = Omit<Contact, "id">
+type ContactFieldErrors = Partial<Record<keyof ContactFields, string[]>>
+
+interface ContactDialogProps {
+  open: boolean
+  // The contact being edited, or null when adding one
+  contact: Contact | null
+  onClose: () => void
+  // Resolves to field errors from the server, or nothing on success
+  onSave: (fields: ContactFields) => Promise<ContactFieldErrors | void>
+}
+
+const emptyContactFields = (): ContactFields => ({
+  name: "",
+  phone: "",
+  country: "",
+  idDocumentNumber: "",
+  notes: "",
+})
+
+export function ContactDialog({ open, contact, onClose, onSave }: ContactDialogProps) {
+  const [fields, setFields] = useState<ContactFields>(emptyContactFields)
+  const [errors, setErrors] = useState<ContactFieldErrors>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setFields(
+      contact
+        ? {
+            name: contact.name,
+            phone: contact.phone ?? "",
+            country: contact.country ?? "",
+            idDocumentNumber: contact.idDocumentNumber ?? "",
+            notes: contact.notes ?? "",
+          }
+        : emptyContactFields(),
+    )
+    setErrors({})
+  }, [open, contact?.id])
+
+  const handleSave = async () => {
+    setSaving(true)
+    const fieldErrors = await onSave(fields)
+    setSaving(false)
+    if (fieldErrors) setErrors(fieldErrors)
+  }
+
+  const textField = (name: Exclude<keyof ContactFields, "notes">, label: string) => (
+    <div>
+      <Label htmlFor={`contact-${name}`}>{label}</Label>
+      <Input
+        id={`contact-${name}`}
+        value={fields[name] ?? ""}
+        onChange={(e) => setFields({ ...fields, [name]: e.target.value })}
+      />
+      {errors[name] && <p className="text-sm font-medium text-destructive mt-1">{errors[name]?.join(". ")}</p>}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{contact ? "Edit Contact" : "Add Contact"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {textField("name", "Name")}
+          <div className="grid grid-cols-2 gap-4">
+            {textField("phone", "Phone")}
+            {textField("country", "Country")}
+          </div>
+          {textField("idDocumentNumber", "ID Document Number")}
+          <div>
+            <Label htmlFor="contact-notes">Notes</Label>
+            <Textarea
+              id="contact-notes"
+              value={fields.notes ?? ""}
+              maxLength={1000}
+              onChange={(e) => setFields({ ...fields, notes: e.target.value })}
+            />
+            {errors.notes && <p className="text-sm font-medium text-destructive mt-1">{errors.notes.join(". ")}</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Saving...
+              </>
+            ) : (
+              "Save Contact"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
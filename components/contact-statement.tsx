@@ -0,0 +1,304 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Download, Loader2, Search, Share } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney, formatRate } from "@/lib/currency"
+import { formatCsv } from "@/lib/csv"
+import type { Contact } from "@/components/contact-combobox"
+
+interface ContactStatementRow {
+  id: string
+  accountId: string
+  accountName: string
+  baseCurrency: string
+  date: string
+  particulars: string
+  debitCountry: number
+  debit: number
+  creditCountry: number
+  credit: number
+  countryCurrency: string | null
+  exchangeRate: number | null
+  balance: number
+}
+
+interface ContactStatementData {
+  contact: Contact
+  rows: ContactStatementRow[]
+  totals: { currency: string; openingBalance: number; debit: number; credit: number; closingBalance: number }[]
+  countryTotals: { currency: string; debitCountry: number; debit: number; creditCountry: number; credit: number }[]
+  lastActivity: string | null
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-GB")
+}
+
+export function ContactStatement({ contactId }: { contactId: string }) {
+  const [statement, setStatement] = useState<ContactStatementData | null>(null)
+  const [filters, setFilters] = useState({ startDate: "", endDate: "" })
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const fetchStatement = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value))
+      const response = await fetch(`/api/contacts/${contactId}/statement?${params}`)
+      if (!response.ok) throw new Error("Failed to fetch contact statement")
+      setStatement(await response.json())
+    } catch (error) {
+      console.error("Error fetching contact statement:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch contact statement",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatement()
+  }, [contactId])
+
+  const contactName = statement?.contact.name ?? "contact"
+
+  const exportToCSV = () => {
+    if (!statement) return
+
+    const csvContent = formatCsv([
+      [
+        "Date",
+        "Account",
+        "Particulars",
+        "Country Currency",
+        "Debit Country",
+        "Debit (Out)",
+        "Credit Country",
+        "Credit (In)",
+        "Rate",
+        "Currency",
+        "Balance",
+      ],
+      ...statement.rows.map((row) => [
+        row.date,
+        row.accountName,
+        row.particulars,
+        row.countryCurrency,
+        row.debitCountry || null,
+        row.debit || null,
+        row.creditCountry || null,
+        row.credit || null,
+        row.exchangeRate,
+        row.baseCurrency,
+        row.balance,
+      ]),
+    ])
+
+    const blob = new Blob(["\uFEFF", csvContent], { type: "text/csv;charset=utf-8" })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `contact-statement-${contactName}.csv`
+    a.click()
+    window.URL.revokeObjectURL(url)
+
+    toast({
+      title: "Success",
+      description: "Statement exported to CSV successfully",
+    })
+  }
+
+  const shareViaWhatsApp = () => {
+    if (!statement) return
+
+    let message = `Statement - ${contactName}:\n\n`
+    statement.rows.forEach((row) => {
+      message += `${row.date} | ${row.particulars} | `
+      message += `Debit Country: ${row.debitCountry ? formatMoney(row.debitCountry, row.countryCurrency) : "-"} | `
+      message += `Debit: ${row.debit ? formatMoney(row.debit, row.baseCurrency) : "-"} | `
+      message += `Credit Country: ${row.creditCountry ? formatMoney(row.creditCountry, row.countryCurrency) : "-"} | `
+      message += `Credit: ${row.credit ? formatMoney(row.credit, row.baseCurrency) : "-"} | `
+      message += `Balance: ${formatMoney(row.balance, row.baseCurrency)}\n`
+    })
+    message += "\n"
+    statement.totals.forEach((total) => {
+      message += `Balance ${total.currency}: ${formatMoney(total.closingBalance, total.currency)}\n`
+    })
+
+    const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`
+    window.open(whatsappUrl, "_blank")
+
+    toast({
+      title: "Success",
+      description: "Statement shared via WhatsApp",
+    })
+  }
+
+  const contact = statement?.contact
+  const hasRange = Boolean(filters.startDate)
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/contacts">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1">
+          <CardTitle className="text-2xl font-bold">{contact?.name ?? "Contact Statement"}</CardTitle>
+          {contact && (
+            <p className="text-sm text-muted-foreground">
+              {[contact.phone, contact.country, contact.idDocumentNumber].filter(Boolean).join(" · ")}
+            </p>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="start-date">Start Date</Label>
+            <Input
+              id="start-date"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="end-date">End Date</Label>
+            <Input
+              id="end-date"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+            />
+          </div>
+          <Button onClick={fetchStatement} className="flex items-center gap-2" disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Show
+          </Button>
+        </div>
+
+        {statement && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {statement.totals.map((total) => (
+              <div key={total.currency} className="border rounded-lg p-4 space-y-1">
+                <div className="text-sm text-muted-foreground">Balance ({total.currency})</div>
+                <div className="text-2xl font-bold">{formatMoney(total.closingBalance, total.currency)}</div>
+                <div className="text-sm">
+                  <span className="text-green-600">In {formatMoney(total.credit, total.currency)}</span>
+                  {" · "}
+                  <span className="text-red-600">Out {formatMoney(total.debit, total.currency)}</span>
+                </div>
+              </div>
+            ))}
+            {statement.countryTotals.map((total) => (
+              <div key={total.currency} className="border rounded-lg p-4 space-y-1">
+                <div className="text-sm text-muted-foreground">Country amounts ({total.currency})</div>
+                <div className="text-sm">
+                  <span className="text-green-600">In {formatMoney(total.creditCountry, total.currency)}</span>
+                  {" · "}
+                  <span className="text-red-600">Out {formatMoney(total.debitCountry, total.currency)}</span>
+                </div>
+              </div>
+            ))}
+            <div className="border rounded-lg p-4 space-y-1">
+              <div className="text-sm text-muted-foreground">Last Activity</div>
+              <div className="text-2xl font-bold">
+                {statement.lastActivity ? formatDate(statement.lastActivity) : "None"}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Date</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Particulars</TableHead>
+                <TableHead>Debit Country</TableHead>
+                <TableHead>Debit (Out)</TableHead>
+                <TableHead>Credit Country</TableHead>
+                <TableHead>Credit (In)</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {hasRange &&
+                statement?.totals.map((total) => (
+                  <TableRow key={total.currency} className="bg-gray-50/50">
+                    <TableCell />
+                    <TableCell colSpan={7} className="italic">
+                      Opening balance ({total.currency})
+                    </TableCell>
+                    <TableCell className="font-medium">{formatMoney(total.openingBalance, total.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              {statement?.rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>{formatDate(row.date)}</TableCell>
+                  <TableCell>{row.accountName}</TableCell>
+                  <TableCell>{row.particulars}</TableCell>
+                  <TableCell className="text-red-600">
+                    {row.debitCountry ? formatMoney(row.debitCountry, row.countryCurrency) : "-"}
+                  </TableCell>
+                  <TableCell className="text-red-600">
+                    {row.debit ? formatMoney(row.debit, row.baseCurrency) : "-"}
+                  </TableCell>
+                  <TableCell className="text-green-600">
+                    {row.creditCountry ? formatMoney(row.creditCountry, row.countryCurrency) : "-"}
+                  </TableCell>
+                  <TableCell className="text-green-600">
+                    {row.credit ? formatMoney(row.credit, row.baseCurrency) : "-"}
+                  </TableCell>
+                  <TableCell>{formatRate(row.exchangeRate)}</TableCell>
+                  <TableCell className="font-medium">{formatMoney(row.balance, row.baseCurrency)}</TableCell>
+                </TableRow>
+              ))}
+              {statement && statement.rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
+                    No entries for this contact
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <Button
+            onClick={exportToCSV}
+            disabled={!statement}
+            className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export to CSV
+          </Button>
+          <Button
+            onClick={shareViaWhatsApp}
+            disabled={!statement}
+            className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
+          >
+            <Share className="h-4 w-4" />
+            Share via WhatsApp
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,322 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Plus, Loader2, Edit, Trash2, Merge } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import type { Contact } from "@/components/contact-combobox"
+import { ContactDialog } from "@/components/contact-dialog"
+import { ParticularsMerge } from "@/components/particulars-merge"
+
+export function ContactsDirectory() {
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingContact, setEditingContact] = useState<Contact | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [mergeTargetId, setMergeTargetId] = useState("")
+  const role = useCurrentUser()?.role
+  const canManage = can(role, "contacts:manage")
+  const canMerge = can(role, "contacts:merge")
+  const { toast } = useToast()
+
+  const fetchContacts = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/contacts?${new URLSearchParams({ q: search })}`)
+      if (!response.ok) throw new Error("Failed to fetch contacts")
+      setContacts(await response.json())
+    } catch (error) {
+      console.error("Error fetching contacts:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch contacts",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchContacts, 200)
+    return () => clearTimeout(timeout)
+  }, [search])
+
+  const handleSave = async (fields: Omit<Contact, "id">) => {
+    try {
+      const response = await fetch(editingContact ? `/api/contacts/${editingContact.id}` : "/api/contacts", {
+        method: editingContact ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(fields),
+      })
+
+      if (response.status === 400) {
+        const data = await response.json()
+        if (data.fieldErrors) return data.fieldErrors
+      }
+      if (!response.ok) throw new Error("Failed to save contact")
+
+      toast({
+        title: "Success",
+        description: editingContact ? "Contact updated successfully" : "Contact added successfully",
+      })
+
+      setDialogOpen(false)
+      setEditingContact(null)
+      await fetchContacts()
+    } catch (error) {
+      console.error("Error saving contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save contact",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async (contact: Contact) => {
+    if (!confirm(`Delete ${contact.name}?`)) return
+
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}`, { method: "DELETE" })
+      // Contacts still linked to entries have to be merged into another contact instead
+      if (response.status === 409) {
+        const data = await response.json()
+        toast({
+          title: "Could not delete contact",
+          description: data.error,
+          variant: "destructive",
+        })
+        return
+      }
+      if (!response.ok) throw new Error("Failed to delete contact")
+
+      setSelectedIds(selectedIds.filter((id) => id !== contact.id))
+      await fetchContacts()
+    } catch (error) {
+      console.error("Error deleting contact:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete contact",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleMergeContacts = async () => {
+    try {
+      const response = await fetch("/api/contacts/merge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          targetId: mergeTargetId,
+          contactIds: selectedIds.filter((id) => id !== mergeTargetId),
+        }),
+      })
+      if (!response.ok) throw new Error("Failed to merge contacts")
+
+      const { linked, skipped } = await response.json()
+      toast({
+        title: "Success",
+        description:
+          `Merged ${selectedIds.length - 1} contacts, ${linked} entries relinked` +
+          (skipped ? `; ${skipped} entries in the locked period kept their contact` : ""),
+      })
+
+      setSelectedIds([])
+      setMergeTargetId("")
+      await fetchContacts()
+    } catch (error) {
+      console.error("Error merging contacts:", error)
+      toast({
+        title: "Error",
+        description: "Failed to merge contacts",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selectedId) => selectedId !== id))
+    if (!checked && id === mergeTargetId) setMergeTargetId("")
+  }
+
+  const selectedContacts = contacts.filter((contact) => selectedIds.includes(contact.id))
+
+  const directory = (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Search name, phone or ID document number..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+        {canMerge && selectedContacts.length > 1 && (
+          <>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Keep contact..." />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedContacts.map((contact) => (
+                  <SelectItem key={contact.id} value={contact.id}>
+                    {contact.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleMergeContacts}
+              disabled={!mergeTargetId}
+              className="flex items-center gap-2"
+            >
+              <Merge className="h-4 w-4" />
+              Merge {selectedContacts.length}
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              {canMerge && <TableHead className="w-10" />}
+              <TableHead>Name</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>ID Document</TableHead>
+              <TableHead>Notes</TableHead>
+              {canManage && <TableHead className="text-center">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading contacts...
+                </TableCell>
+              </TableRow>
+            ) : contacts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No contacts found
+                </TableCell>
+              </TableRow>
+            ) : (
+              contacts.map((contact) => (
+                <TableRow key={contact.id}>
+                  {canMerge && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(contact.id)}
+                        onCheckedChange={(checked) => toggleSelected(contact.id, checked === true)}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">
+                    <Link href={`/contacts/${contact.id}`} className="hover:underline">
+                      {contact.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{contact.phone}</TableCell>
+                  <TableCell>{contact.country}</TableCell>
+                  <TableCell>{contact.idDocumentNumber}</TableCell>
+                  <TableCell className="max-w-xs truncate">{contact.notes}</TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <div className="flex gap-1 justify-center">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setEditingContact(contact)
+                            setDialogOpen(true)
+                          }}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDelete(contact)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Contacts</CardTitle>
+        {canManage && (
+          <Button
+            onClick={() => {
+              setEditingContact(null)
+              setDialogOpen(true)
+            }}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Contact
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {canMerge ? (
+          <Tabs defaultValue="directory">
+            <TabsList className="mb-4">
+              <TabsTrigger value="directory">Directory</TabsTrigger>
+              <TabsTrigger value="particulars">Link Particulars</TabsTrigger>
+            </TabsList>
+            <TabsContent value="directory">{directory}</TabsContent>
+            <TabsContent value="particulars">
+              <ParticularsMerge onMerged={fetchContacts} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          directory
+        )}
+      </CardContent>
+
+      <ContactDialog
+        open={dialogOpen}
+        contact={editingContact}
+        onClose={() => {
+          setDialogOpen(false)
+          setEditingContact(null)
+        }}
+        onSave={handleSave}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,505 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  entrySchema,
+  PAYOUT_METHODS,
+  PAYOUT_METHOD_LABELS,
+  type EntryFieldErrors,
+  type EntryInput,
+} from "@/lib/entry-schema"
+import { formatRate } from "@/lib/currency"
+import { DEFAULT_COUNTER_KEY, isPostingAccount, type LedgerAccount } from "@/lib/chart-of-accounts"
+import { DEFAULT_TRANSFER_STATUS, INITIAL_TRANSFER_STATUSES, TRANSFER_STATUS_LABELS } from "@/lib/transfer-status"
+import { ContactCombobox } from "@/components/contact-combobox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+export interface EntryFormValues {
+  date: string
+  particulars: string
+  debitCountry: string
+  debit: string
+  creditCountry: string
+  credit: string
+  countryCurrency: string
+  contactId: string
+  counterAccountId: string
+  agentId: string
+  status: string
+  senderName: string
+  senderPhone: string
+  senderIdNumber: string
+  beneficiaryName: string
+  beneficiaryPhone: string
+  beneficiaryIdNumber: string
+  beneficiaryCountry: string
+  payoutMethod: string
+}
+
+export const emptyEntryFormValues = (): EntryFormValues => ({
+  date: new Date().toISOString().split("T")[0],
+  particulars: "",
+  debitCountry: "",
+  debit: "",
+  creditCountry: "",
+  credit: "",
+  countryCurrency: "",
+  contactId: "",
+  counterAccountId: "",
+  agentId: "",
+  status: DEFAULT_TRANSFER_STATUS,
+  senderName: "",
+  senderPhone: "",
+  senderIdNumber: "",
+  beneficiaryName: "",
+  beneficiaryPhone: "",
+  beneficiaryIdNumber: "",
+  beneficiaryCountry: "",
+  payoutMethod: "",
+})
+
+interface EntryFormProps {
+  defaultValues: EntryFormValues
+  submitLabel: string
+  savingLabel: string
+  particularsPlaceholder?: string
+  baseCurrency: string
+  // New entries pick the status they start in; existing ones change status from the statement
+  showStatus?: boolean
+  // Resolves with the server's per-field errors when it rejects the entry
+  onSubmit: (values: EntryInput) => Promise<EntryFieldErrors | void>
+  onCancel: () => void
+}
+
+interface AgentOption {
+  id: string
+  name: string
+  country: string
+  currency: string
+  settlementCurrency: string
+  archived: boolean
+}
+
+// Select value standing for "no agent", since the select cannot hold an empty value
+const NO_AGENT = "none"
+
+// Same for "no payout method"
+const NO_PAYOUT_METHOD = "none"
+
+interface EffectiveRate {
+  rate: number
+  effectiveDate: string
+}
+
+// Local amount field filled in from each country amount field
+const convertedFields = { debitCountry: "debit", creditCountry: "credit" } as const
+
+const amountFields = [
+  [
+    { name: "debitCountry", label: "Debit Country Amount" },
+    { name: "debit", label: "Debit (Out)" },
+  ],
+  [
+    { name: "creditCountry", label: "Credit Country Amount" },
+    { name: "credit", label: "Credit (In)" },
+  ],
+] as const
+
+const partySections = [
+  {
+    title: "Sender",
+    fields: [
+      { name: "senderName", label: "Name" },
+      { name: "senderPhone", label: "Phone" },
+      { name: "senderIdNumber", label: "ID Number" },
+    ],
+  },
+  {
+    title: "Beneficiary",
+    fields: [
+      { name: "beneficiaryName", label: "Name" },
+      { name: "beneficiaryPhone", label: "Phone" },
+      { name: "beneficiaryIdNumber", label: "ID Number" },
+      { name: "beneficiaryCountry", label: "Country" },
+    ],
+  },
+] as const
+
+export function EntryForm({
+  defaultValues,
+  submitLabel,
+  savingLabel,
+  particularsPlaceholder,
+  baseCurrency,
+  showStatus = false,
+  onSubmit,
+  onCancel,
+}: EntryFormProps) {
+  const form = useForm<EntryFormValues>({
+    resolver: zodResolver(entrySchema),
+    defaultValues,
+  })
+  const saving = form.formState.isSubmitting
+  const [effectiveRate, setEffectiveRate] = useState<EffectiveRate | null>(null)
+  const [date, countryCurrency] = form.watch(["date", "countryCurrency"])
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([])
+  const [agents, setAgents] = useState<AgentOption[]>([])
+  const agentId = form.watch("agentId")
+
+  useEffect(() => {
+    fetch("/api/ledger/accounts")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setLedgerAccounts)
+      .catch((error) => console.error("Error fetching ledger accounts:", error))
+    fetch("/api/agents")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setAgents)
+      .catch((error) => console.error("Error fetching agents:", error))
+  }, [])
+
+  const defaultCounterAccount = ledgerAccounts.find((account) => account.key === DEFAULT_COUNTER_KEY)
+
+  // Look up the rate table whenever the entry date or currency changes
+  useEffect(() => {
+    setEffectiveRate(null)
+    if (!date || !/^[A-Z]{3}$/.test(countryCurrency) || countryCurrency === baseCurrency) return
+
+    let cancelled = false
+    const query = new URLSearchParams({ from: countryCurrency, to: baseCurrency, date })
+    fetch(`/api/rates/effective?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((rate: EffectiveRate | null) => {
+        if (!cancelled) setEffectiveRate(rate)
+      })
+      .catch((error) => console.error("Error fetching effective rate:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [date, countryCurrency, baseCurrency])
+
+  const fillConvertedAmount = (countryField: keyof typeof convertedFields, value: string, rate = effectiveRate) => {
+    const amount = Number(value)
+    if (!rate || !value || !Number.isFinite(amount)) return
+    form.setValue(convertedFields[countryField], (amount * rate.rate).toFixed(2), { shouldValidate: true })
+  }
+
+  // A rate found after the user changes the date or currency re-converts the country amounts already typed in.
+  // Opening an existing entry leaves its saved local amounts alone.
+  useEffect(() => {
+    const { dirtyFields } = form.formState
+    if (!effectiveRate || (!dirtyFields.date && !dirtyFields.countryCurrency)) return
+    for (const countryField of Object.keys(convertedFields) as (keyof typeof convertedFields)[]) {
+      fillConvertedAmount(countryField, form.getValues(countryField), effectiveRate)
+    }
+  }, [effectiveRate])
+
+  // The resolver has already validated the strings; parse again to get the typed, coerced values
+  const handleSubmit = async (values: EntryFormValues) => {
+    const fieldErrors = await onSubmit(entrySchema.parse(values))
+    if (!fieldErrors) return
+
+    for (const [name, messages] of Object.entries(fieldErrors)) {
+      if (messages?.length) {
+        form.setError(name as keyof EntryFormValues, { message: messages[0] })
+      }
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="contactId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Contact</FormLabel>
+              <ContactCombobox
+                value={field.value}
+                onChange={(contact) => {
+                  field.onChange(contact?.id ?? "")
+                  // Fill in particulars from the contact unless the user already typed something
+                  if (contact && !form.getValues("particulars").trim()) {
+                    form.setValue("particulars", contact.name, { shouldValidate: true })
+                  }
+                  // The contact is usually the customer sending the money
+                  if (contact && !form.getValues("senderName").trim()) {
+                    form.setValue("senderName", contact.name)
+                    form.setValue("senderPhone", contact.phone ?? "")
+                    form.setValue("senderIdNumber", contact.idDocumentNumber ?? "")
+                  }
+                }}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="particulars"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Particulars</FormLabel>
+              <FormControl>
+                <Input placeholder={particularsPlaceholder} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {partySections.map(({ title, fields }) => (
+          <fieldset key={title} className="rounded-lg border p-4">
+            <legend className="px-1 text-sm font-medium">{title}</legend>
+            <div className="grid grid-cols-2 gap-4">
+              {fields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              {title === "Beneficiary" && (
+                <FormField
+                  control={form.control}
+                  name="payoutMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payout Method</FormLabel>
+                      <Select
+                        value={field.value || NO_PAYOUT_METHOD}
+                        onValueChange={(value) => field.onChange(value === NO_PAYOUT_METHOD ? "" : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PAYOUT_METHOD}>Not specified</SelectItem>
+                          {PAYOUT_METHODS.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYOUT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </fieldset>
+        ))}
+        <FormField
+          control={form.control}
+          name="countryCurrency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Country Currency</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g. INR"
+                  maxLength={3}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                />
+              </FormControl>
+              <FormDescription>
+                {effectiveRate
+                  ? `Rate on ${effectiveRate.effectiveDate}: 1 ${countryCurrency} = ` +
+                    `${formatRate(effectiveRate.rate)} ${baseCurrency}. Local amounts are filled in from it.`
+                  : `Currency of the country amounts; the local amounts are in ${baseCurrency}.`}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {amountFields.map((row) => (
+          <div key={row[0].name} className="grid grid-cols-2 gap-4">
+            {row.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="0.00"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e)
+                          if (name === "debitCountry" || name === "creditCountry") {
+                            fillConvertedAmount(name, e.target.value)
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        ))}
+        <FormField
+          control={form.control}
+          name="agentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Paying Agent</FormLabel>
+              <Select
+                value={field.value || NO_AGENT}
+                onValueChange={(value) => {
+                  const agent = agents.find((option) => option.id === value)
+                  field.onChange(agent?.id ?? "")
+                  // Agent transfers are paid through the agent, in its payout currency
+                  if (agent) {
+                    form.setValue("counterAccountId", "")
+                    if (!form.getValues("countryCurrency")) {
+                      form.setValue("countryCurrency", agent.currency, { shouldValidate: true })
+                    }
+                  }
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_AGENT}>No agent</SelectItem>
+                  {agents
+                    .filter(
+                      (agent) =>
+                        (!agent.archived && agent.settlementCurrency === baseCurrency) || agent.id === field.value,
+                    )
+                    .map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name} · {agent.country} ({agent.currency})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Partner agent who paid out or collected this transfer abroad.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {!agentId && (
+          <FormField
+            control={form.control}
+            name="counterAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paid / Received Through</FormLabel>
+                <Select value={field.value || defaultCounterAccount?.id || ""} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Cash in Hand" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ledgerAccounts
+                      .filter((account) => isPostingAccount(account) || account.id === field.value)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.code} · {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Ledger account on the other side of this entry in the journal.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {showStatus && (
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select value={field.value || DEFAULT_TRANSFER_STATUS} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {INITIAL_TRANSFER_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {TRANSFER_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Pending while the money is received but not yet paid out abroad.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <div className="flex gap-2 pt-4">
+          <Button type="submit" className="flex-1" disabled={saving}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                {savingLabel}
+              </>
+            ) : (
+              submitLabel
+            )}
+          </Button>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
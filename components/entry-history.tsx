@@ -0,0 +1,217 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { TRANSFER_STATUS_LABELS, isTransferStatus } from "@/lib/transfer-status"
+import { PAYOUT_METHOD_LABELS, type PayoutMethod } from "@/lib/entry-schema"
+
+export interface EntryEvent {
+  id: string
+  entryId: string
+  accountId: string
+  type:
+    | "create"
+    | "update"
+    | "void"
+    | "restore"
+    | "delete"
+    | "reverse"
+    | "status"
+    | "settlement"
+    | "reconciliation"
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor: { userId: string; name: string; email: string }
+  ip: string | null
+  at: string
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  date: "Date",
+  particulars: "Particulars",
+  debitCountry: "Debit Country",
+  debit: "Debit",
+  creditCountry: "Credit Country",
+  credit: "Credit",
+  countryCurrency: "Country Currency",
+  exchangeRate: "Rate",
+  accountId: "Account",
+  senderName: "Sender",
+  senderPhone: "Sender Phone",
+  senderIdNumber: "Sender ID",
+  beneficiaryName: "Beneficiary",
+  beneficiaryPhone: "Beneficiary Phone",
+  beneficiaryIdNumber: "Beneficiary ID",
+  beneficiaryCountry: "Beneficiary Country",
+  payoutMethod: "Payout Method",
+}
+
+const EVENT_LABELS: Record<EntryEvent["type"], string> = {
+  create: "Created",
+  update: "Updated",
+  void: "Voided",
+  restore: "Restored",
+  delete: "Purged",
+  reverse: "Reversed",
+  status: "Status changed",
+  settlement: "Settlement",
+  reconciliation: "Reconciliation",
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "-"
+  return String(value)
+}
+
+function formatStatus(value: unknown) {
+  return isTransferStatus(value) ? TRANSFER_STATUS_LABELS[value] : formatValue(value)
+}
+
+function formatField(field: string, value: unknown) {
+  return field === "payoutMethod" && typeof value === "string" && value in PAYOUT_METHOD_LABELS
+    ? PAYOUT_METHOD_LABELS[value as PayoutMethod]
+    : formatValue(value)
+}
+
+export function EventTypeBadge({ type }: { type: EntryEvent["type"] }) {
+  return (
+    <Badge variant={type === "void" || type === "delete" ? "destructive" : "secondary"}>{EVENT_LABELS[type]}</Badge>
+  )
+}
+
+// Field-by-field view of an event: the changed fields for an update, the whole entry for a create or delete
+export function EventChanges({ event }: { event: EntryEvent }) {
+  // Voiding and restoring leave the fields alone; what matters is why it went to the trash
+  if (event.type === "void" || event.type === "restore") {
+    const voided = (event.type === "void" ? event.after : event.before)?.voided as { reason?: string } | undefined
+    return <p className="text-sm">Reason: {voided?.reason ?? "-"}</p>
+  }
+
+  if (event.type === "reverse") {
+    return <p className="text-sm">Counter-entry posted</p>
+  }
+
+  if (event.type === "status") {
+    return (
+      <p className="text-sm">
+        {formatStatus(event.before?.status)} → {formatStatus(event.after?.status)}
+      </p>
+    )
+  }
+
+  if (event.type === "settlement") {
+    return <p className="text-sm">{event.after?.settlement ? "Cleared by an agent settlement" : "Settlement undone"}</p>
+  }
+
+  if (event.type === "reconciliation") {
+    return <p className="text-sm">{event.after?.reconciled ? "Matched to a bank line" : "Bank line match undone"}</p>
+  }
+
+  const fields = Object.keys(FIELD_LABELS).filter((field) =>
+    event.type === "update"
+      ? formatValue(event.before?.[field]) !== formatValue(event.after?.[field])
+      : (event.after ?? event.before)?.[field] !== undefined,
+  )
+  if (fields.length === 0) return <p className="text-sm text-muted-foreground">No field changes</p>
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="text-muted-foreground">{FIELD_LABELS[field]}</dt>
+          <dd>
+            {event.type === "update" ? (
+              <>
+                <span className="line-through text-red-600">{formatField(field, event.before?.[field])}</span>
+                {" → "}
+                <span className="text-green-600">{formatField(field, event.after?.[field])}</span>
+              </>
+            ) : (
+              formatField(field, (event.after ?? event.before)?.[field])
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+export function EventMeta({ event }: { event: EntryEvent }) {
+  return (
+    <span className="text-xs text-muted-foreground">
+      {new Date(event.at).toLocaleString("en-GB")} by {event.actor.name}
+      {event.ip ? ` from ${event.ip}` : ""}
+    </span>
+  )
+}
+
+interface EntryHistoryProps {
+  entryId: string | null
+  onClose: () => void
+}
+
+export function EntryHistory({ entryId, onClose }: EntryHistoryProps) {
+  const [events, setEvents] = useState<EntryEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!entryId) return
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/entries/${entryId}/history`)
+        if (!response.ok) throw new Error("Failed to fetch history")
+        setEvents(await response.json())
+      } catch (error) {
+        console.error("Error fetching entry history:", error)
+        toast({
+          title: "Error",
+          description: "Failed to fetch entry history",
+          variant: "destructive",
+        })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [entryId])
+
+  return (
+    <Sheet open={entryId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Entry History</SheetTitle>
+          <SheetDescription>Every change to this entry, oldest first.</SheetDescription>
+        </SheetHeader>
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading history...</span>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground mt-6">
+            No changes recorded. Entries saved before the audit log existed have no history.
+          </p>
+        ) : (
+          <ol className="mt-6 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <EventTypeBadge type={event.type} />
+                  <EventMeta event={event} />
+                </div>
+                <EventChanges event={event} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,361 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { ArrowLeft, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  guessMapping,
+  type ImportDateFormat,
+  type ImportMapping,
+  type ImportNumberFormat,
+} from "@/lib/import-mapping"
+
+interface PreviewRow {
+  line: number
+  entry: { date: string; particulars: string; debit: number; credit: number } | null
+  errors: string[]
+  duplicate: boolean
+}
+
+interface EntryImportProps {
+  account: { id: string; name: string; baseCurrency?: string }
+  onBack: () => void
+  // Called after entries were imported so the statement can refresh
+  onImported: () => void
+}
+
+type Step = "upload" | "map" | "preview"
+
+const NO_COLUMN = "none"
+
+// Import wizard: upload a CSV or XLSX file, map its columns to entry fields, preview validation and
+// duplicate checks, then commit every row in one request
+export function EntryImport({ account, onBack, onImported }: EntryImportProps) {
+  const [step, setStep] = useState<Step>("upload")
+  const [sheet, setSheet] = useState<{ header: string[]; rows: string[][]; serialDates: boolean } | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [options, setOptions] = useState({
+    dateFormat: "yyyy-mm-dd" as ImportDateFormat,
+    numberFormat: "point" as ImportNumberFormat,
+    defaultCountryCurrency: "",
+  })
+  const [preview, setPreview] = useState<PreviewRow[]>([])
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const showError = (title: string, description: string) => {
+    toast({
+      title,
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const handleUpload = async (file: File) => {
+    try {
+      setBusy(true)
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch("/api/entries/import/parse", { method: "POST", body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showError("Could not read file", data.error)
+        return
+      }
+
+      setSheet(data)
+      setMapping(guessMapping(data.header))
+      setStep("map")
+    } catch (error) {
+      console.error("Error reading import file:", error)
+      showError("Error", "Failed to read import file")
+    } finally {
+      setBusy(false)
+      if (fileInput.current) fileInput.current.value = ""
+    }
+  }
+
+  const submit = async (commit: boolean) => {
+    if (!sheet) return null
+
+    const response = await fetch("/api/entries/import", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        accountId: account.id,
+        rows: sheet.rows,
+        serialDates: sheet.serialDates,
+        mapping,
+        ...options,
+        commit,
+        skipDuplicates,
+      }),
+    })
+    const data = await response.json()
+    if (data.rows) setPreview(data.rows)
+    if (!response.ok) {
+      const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+      showError("Could not import", fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error)
+      return null
+    }
+    return data
+  }
+
+  const handlePreview = async () => {
+    try {
+      setBusy(true)
+      if (await submit(false)) setStep("preview")
+    } catch (error) {
+      console.error("Error previewing import:", error)
+      showError("Error", "Failed to preview import")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    try {
+      setBusy(true)
+      const data = await submit(true)
+      if (!data) return
+
+      toast({
+        title: "Success",
+        description: `Imported ${data.imported} entries${data.skipped ? `, skipped ${data.skipped} duplicates` : ""}`,
+      })
+      onImported()
+      onBack()
+    } catch (error) {
+      console.error("Error importing entries:", error)
+      showError("Error", "Failed to import entries")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const errorCount = preview.filter((row) => row.errors.length > 0).length
+  const duplicateCount = preview.filter((row) => row.duplicate).length
+  const importCount = preview.length - errorCount - (skipDuplicates ? duplicateCount : 0)
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] === undefined)
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold">Import Entries - {account.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {step === "upload" && (
+          <div className="flex flex-col items-center gap-4 py-8">
+            <p className="text-sm text-muted-foreground text-center">
+              Upload a CSV or Excel file with a header row. You will map its columns to entry fields next.
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+            />
+            <Button onClick={() => fileInput.current?.click()} disabled={busy} className="flex items-center gap-2">
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Choose File
+            </Button>
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`import-${field}`}>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === NO_COLUMN ? undefined : Number(value) })
+                    }
+                  >
+                    <SelectTrigger id={`import-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {sheet.header.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {name || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="import-date-format">Date Format</Label>
+                <Select
+                  value={options.dateFormat}
+                  onValueChange={(dateFormat) => setOptions({ ...options, dateFormat: dateFormat as ImportDateFormat })}
+                >
+                  <SelectTrigger id="import-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="yyyy-mm-dd">YYYY-MM-DD</SelectItem>
+                    <SelectItem value="dd/mm/yyyy">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="mm/dd/yyyy">MM/DD/YYYY</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="import-number-format">Number Format</Label>
+                <Select
+                  value={options.numberFormat}
+                  onValueChange={(numberFormat) =>
+                    setOptions({ ...options, numberFormat: numberFormat as ImportNumberFormat })
+                  }
+                >
+                  <SelectTrigger id="import-number-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="point">1,234.56</SelectItem>
+                    <SelectItem value="comma">1.234,56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="import-currency">Default Country Currency</Label>
+                <Input
+                  id="import-currency"
+                  placeholder="e.g. INR"
+                  maxLength={3}
+                  value={options.defaultCountryCurrency}
+                  onChange={(e) => setOptions({ ...options, defaultCountryCurrency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-4">First Rows of {sheet.rows.length}</h3>
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      {sheet.header.map((name, index) => (
+                        <TableHead key={index}>{name || `Column ${index + 1}`}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sheet.rows.slice(0, 5).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {sheet.header.map((_, index) => (
+                          <TableCell key={index}>{row[index]}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex justify-center gap-4">
+              <Button variant="outline" onClick={() => setStep("upload")} disabled={busy}>
+                Choose Another File
+              </Button>
+              <Button onClick={handlePreview} disabled={busy || missingFields.length > 0}>
+                {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Preview Import
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === "preview" && (
+          <>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span>{preview.length} rows</span>
+              <span className={errorCount > 0 ? "text-red-600 font-medium" : undefined}>{errorCount} with errors</span>
+              <span>{duplicateCount} possible duplicates</span>
+              <label className="flex items-center gap-2">
+                <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} />
+                Skip duplicates
+              </label>
+            </div>
+
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Line</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead>Debit (Out)</TableHead>
+                    <TableHead>Credit (In)</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={row.line} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.entry?.date}</TableCell>
+                      <TableCell>{row.entry?.particulars}</TableCell>
+                      <TableCell className="text-red-600">
+                        {row.entry?.debit ? formatMoney(row.entry.debit, account.baseCurrency) : "-"}
+                      </TableCell>
+                      <TableCell className="text-green-600">
+                        {row.entry?.credit ? formatMoney(row.entry.credit, account.baseCurrency) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">{row.errors.join("; ")}</span>
+                        ) : row.duplicate ? (
+                          <Badge variant="outline">Duplicate</Badge>
+                        ) : (
+                          <Badge variant="secondary">OK</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-center gap-4">
+              <Button variant="outline" onClick={() => setStep("map")} disabled={busy}>
+                Back to Mapping
+              </Button>
+              <Button onClick={handleCommit} disabled={busy || errorCount > 0 || importCount === 0}>
+                {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Import {importCount} Entries
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Loader2, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { QrCode } from "@/components/qr-code"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney, formatRate } from "@/lib/currency"
+import { DEFAULT_TRANSFER_STATUS, TRANSFER_STATUS_LABELS } from "@/lib/transfer-status"
+import { PAYOUT_METHOD_LABELS } from "@/lib/entry-schema"
+import type { EntryReceipt as EntryReceiptData } from "@/lib/receipts"
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-GB")
+}
+
+function ReceiptRow({ label, value }: { label: string; value: string | null | undefined }) {
+  if (!value) return null
+  return (
+    <div className="flex justify-between gap-4 py-1">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right font-medium">{value}</span>
+    </div>
+  )
+}
+
+// Printable receipt for the customer and payout voucher for the agent; the QR code carries the reference
+export function EntryReceipt({ entryId }: { entryId: string }) {
+  const [receipt, setReceipt] = useState<EntryReceiptData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/entries/${entryId}/receipt`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error ?? "Failed to fetch receipt")
+        setReceipt(data)
+      } catch (error) {
+        console.error("Error fetching receipt:", error)
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to fetch receipt",
+          variant: "destructive",
+        })
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReceipt()
+  }, [entryId])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin mr-2" />
+        <span>Loading receipt...</span>
+      </div>
+    )
+  }
+  if (!receipt) return null
+
+  const { entry, account, letterhead, contact, agent } = receipt
+  const countryCurrency = entry.countryCurrency ?? null
+  // Entries without sender details fall back to the linked contact, who is usually the sender
+  const sender = entry.senderName
+    ? { name: entry.senderName, phone: entry.senderPhone, idNumber: entry.senderIdNumber, country: null }
+    : contact && {
+        name: contact.name,
+        phone: contact.phone,
+        idNumber: contact.idDocumentNumber,
+        country: contact.country,
+      }
+
+  return (
+    <Card className="max-w-xl mx-auto print:shadow-none print:border-0">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4 print:hidden">
+        <Button variant="ghost" size="icon" onClick={() => router.back()} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Receipt</CardTitle>
+        <Button onClick={() => window.print()} className="flex items-center gap-2">
+          <Printer className="h-4 w-4" />
+          Print
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <div className="flex items-start gap-4">
+          {letterhead.logo && <img src={letterhead.logo} alt="Logo" className="h-12" />}
+          <div>
+            <div className="text-lg font-bold">{letterhead.name}</div>
+            {letterhead.address && (
+              <div className="whitespace-pre-line text-muted-foreground">{letterhead.address}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-y py-4">
+          <div>
+            <div className="text-muted-foreground">Reference</div>
+            <div className="font-mono text-2xl font-bold tracking-wider">{entry.reference}</div>
+            <div className="mt-2 flex gap-2">
+              <Badge variant="outline">{TRANSFER_STATUS_LABELS[entry.status ?? DEFAULT_TRANSFER_STATUS]}</Badge>
+              {entry.reversedBy && <Badge variant="outline">Reversed</Badge>}
+            </div>
+          </div>
+          <QrCode value={entry.reference!} />
+        </div>
+
+        <div>
+          <ReceiptRow label="Date" value={formatDate(entry.date)} />
+          <ReceiptRow label="Account" value={account.name} />
+          <ReceiptRow label="Particulars" value={entry.particulars} />
+        </div>
+
+        {sender && (
+          <div>
+            <div className="font-semibold mb-1">Sender</div>
+            <ReceiptRow label="Name" value={sender.name} />
+            <ReceiptRow label="Phone" value={sender.phone} />
+            <ReceiptRow label="Country" value={sender.country} />
+            <ReceiptRow label="ID number" value={sender.idNumber} />
+          </div>
+        )}
+
+        {entry.beneficiaryName && (
+          <div>
+            <div className="font-semibold mb-1">Beneficiary</div>
+            <ReceiptRow label="Name" value={entry.beneficiaryName} />
+            <ReceiptRow label="Phone" value={entry.beneficiaryPhone} />
+            <ReceiptRow label="Country" value={entry.beneficiaryCountry} />
+            <ReceiptRow label="ID number" value={entry.beneficiaryIdNumber} />
+            <ReceiptRow label="Payout method" value={entry.payoutMethod && PAYOUT_METHOD_LABELS[entry.payoutMethod]} />
+          </div>
+        )}
+
+        {agent && (
+          <div>
+            <div className="font-semibold mb-1">Paying agent</div>
+            <ReceiptRow label="Name" value={agent.name} />
+            <ReceiptRow label="Country" value={agent.country} />
+          </div>
+        )}
+
+        <div className="border-t pt-4">
+          <ReceiptRow
+            label="Debit Country"
+            value={entry.debitCountry ? formatMoney(entry.debitCountry, countryCurrency) : null}
+          />
+          <ReceiptRow label="Debit (Out)" value={entry.debit ? formatMoney(entry.debit, account.baseCurrency) : null} />
+          <ReceiptRow
+            label="Credit Country"
+            value={entry.creditCountry ? formatMoney(entry.creditCountry, countryCurrency) : null}
+          />
+          <ReceiptRow
+            label="Credit (In)"
+            value={entry.credit ? formatMoney(entry.credit, account.baseCurrency) : null}
+          />
+          <ReceiptRow label="Rate" value={entry.exchangeRate ? formatRate(entry.exchangeRate) : null} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-8 pt-12">
+          <div className="border-t pt-1 text-center text-muted-foreground">Sender signature</div>
+          <div className="border-t pt-1 text-center text-muted-foreground">Cashier signature</div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
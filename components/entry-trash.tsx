@@ -0,0 +1,208 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { formatMoney } from "@/lib/currency"
+
+interface VoidedEntry {
+  id: string
+  date: string
+  particulars: string
+  debit: number
+  credit: number
+  voided: { at: string; reason: string; actor: { name: string } }
+}
+
+interface EntryTrashProps {
+  account: { id: string; name: string; baseCurrency?: string }
+  onBack: () => void
+  // Called after an entry is restored so the statement can refresh its balances
+  onRestored: () => void
+}
+
+export function EntryTrash({ account, onBack, onRestored }: EntryTrashProps) {
+  const [entries, setEntries] = useState<VoidedEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [purging, setPurging] = useState<VoidedEntry | null>(null)
+  const role = useCurrentUser()?.role
+  const { toast } = useToast()
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/accounts/${account.id}/trash`)
+      if (!response.ok) throw new Error("Failed to fetch trash")
+      setEntries(await response.json())
+    } catch (error) {
+      console.error("Error fetching trash:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch trash",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTrash()
+  }, [account.id])
+
+  const handleRestore = async (id: string) => {
+    try {
+      const response = await fetch(`/api/entries/${id}/restore`, { method: "POST" })
+      if (!response.ok) throw new Error("Failed to restore entry")
+
+      toast({
+        title: "Success",
+        description: "Entry restored successfully",
+      })
+
+      onRestored()
+      await fetchTrash()
+    } catch (error) {
+      console.error("Error restoring entry:", error)
+      toast({
+        title: "Error",
+        description: "Failed to restore entry",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handlePurge = async (id: string) => {
+    try {
+      const response = await fetch(`/api/entries/${id}/purge`, { method: "POST" })
+      if (!response.ok) throw new Error("Failed to purge entry")
+
+      toast({
+        title: "Success",
+        description: "Entry permanently deleted",
+      })
+
+      await fetchTrash()
+    } catch (error) {
+      console.error("Error purging entry:", error)
+      toast({
+        title: "Error",
+        description: "Failed to permanently delete entry",
+        variant: "destructive",
+      })
+    } finally {
+      setPurging(null)
+    }
+  }
+
+  const money = (amount: number) => (amount ? formatMoney(amount, account.baseCurrency) : "-")
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold">Trash - {account.name}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Date</TableHead>
+                <TableHead>Particulars</TableHead>
+                <TableHead>Debit</TableHead>
+                <TableHead>Credit</TableHead>
+                <TableHead>Voided</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading trash...
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Trash is empty
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{new Date(entry.date).toLocaleDateString("en-GB")}</TableCell>
+                    <TableCell>{entry.particulars}</TableCell>
+                    <TableCell className="text-red-600">{money(entry.debit)}</TableCell>
+                    <TableCell className="text-green-600">{money(entry.credit)}</TableCell>
+                    <TableCell>
+                      <div>{new Date(entry.voided.at).toLocaleString("en-GB")}</div>
+                      <div className="text-xs text-muted-foreground">by {entry.voided.actor.name}</div>
+                    </TableCell>
+                    <TableCell>{entry.voided.reason}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {can(role, "entries:delete") && (
+                          <Button size="sm" variant="outline" onClick={() => handleRestore(entry.id)} title="Restore">
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can(role, "entries:purge") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPurging(entry)}
+                            className="bg-red-500 hover:bg-red-600 text-white border-red-500"
+                            title="Delete permanently"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <AlertDialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete entry permanently?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {purging?.particulars} will be removed for good and cannot be restored. Its history stays in the
+                audit log.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => purging && handlePurge(purging.id)}>Delete Permanently</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,299 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
+import { ArrowLeft, Plus, Trash2, Upload, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { formatRate } from "@/lib/currency"
+
+interface ExchangeRate {
+  id: string
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  effectiveDate: string
+  source: "manual" | "import"
+}
+
+const emptyRate = () => ({
+  effectiveDate: new Date().toISOString().split("T")[0],
+  fromCurrency: "",
+  toCurrency: "",
+  rate: "",
+})
+
+export function ExchangeRates() {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [newRate, setNewRate] = useState(emptyRate)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const canManage = can(useCurrentUser()?.role, "rates:manage")
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/rates")
+      if (!response.ok) throw new Error("Failed to fetch rates")
+      setRates(await response.json())
+    } catch (error) {
+      console.error("Error fetching rates:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch exchange rates",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRates()
+  }, [])
+
+  const handleAddRate = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch("/api/rates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newRate),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: "Could not add rate",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Rate added successfully",
+      })
+
+      setNewRate(emptyRate())
+      await fetchRates()
+    } catch (error) {
+      console.error("Error adding rate:", error)
+      toast({
+        title: "Error",
+        description: "Failed to add rate",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRate = async (id: string) => {
+    if (!confirm("Delete this rate? Entries already saved keep the rate they used.")) return
+
+    try {
+      const response = await fetch(`/api/rates/${id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error("Failed to delete rate")
+
+      toast({
+        title: "Success",
+        description: "Rate deleted successfully",
+      })
+
+      await fetchRates()
+    } catch (error) {
+      console.error("Error deleting rate:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete rate",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      setImporting(true)
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch("/api/rates/import", { method: "POST", body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const rowErrors: { line: number; message: string }[] = data.errors ?? []
+        toast({
+          title: "Import failed",
+          description:
+            rowErrors.length > 0
+              ? rowErrors
+                  .slice(0, 3)
+                  .map((error) => `Line ${error.line}: ${error.message}`)
+                  .join("\n")
+              : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: `Imported ${data.imported} rate(s)`,
+      })
+
+      await fetchRates()
+    } catch (error) {
+      console.error("Error importing rates:", error)
+      toast({
+        title: "Error",
+        description: "Failed to import rate sheet",
+        variant: "destructive",
+      })
+    } finally {
+      setImporting(false)
+      if (fileInput.current) fileInput.current.value = ""
+    }
+  }
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Exchange Rates</CardTitle>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInput.current?.click()}
+          disabled={importing || !canManage}
+          className="flex items-center gap-2"
+        >
+          {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Import CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          A rate applies from its date until the next rate for the same pair. Rate sheets need a header row with
+          date, from, to and rate columns.
+        </p>
+        {canManage && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="rate-date">Effective Date</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={newRate.effectiveDate}
+                onChange={(e) => setNewRate({ ...newRate, effectiveDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rate-from">From</Label>
+              <Input
+                id="rate-from"
+                placeholder="INR"
+                maxLength={3}
+                value={newRate.fromCurrency}
+                onChange={(e) => setNewRate({ ...newRate, fromCurrency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rate-to">To</Label>
+              <Input
+                id="rate-to"
+                placeholder="USD"
+                maxLength={3}
+                value={newRate.toCurrency}
+                onChange={(e) => setNewRate({ ...newRate, toCurrency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rate-value">Rate</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                step="any"
+                min="0"
+                value={newRate.rate}
+                onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleAddRate} disabled={saving} className="flex items-center gap-2">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add Rate
+            </Button>
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Effective Date</TableHead>
+                <TableHead>Pair</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading rates...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{new Date(rate.effectiveDate).toLocaleDateString("en-GB")}</TableCell>
+                    <TableCell>
+                      {rate.fromCurrency} → {rate.toCurrency}
+                    </TableCell>
+                    <TableCell>{formatRate(rate.rate)}</TableCell>
+                    <TableCell className="capitalize">{rate.source}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!canManage}
+                        onClick={() => handleDeleteRate(rate.id)}
+                        className="bg-red-500 hover:bg-red-600 text-white border-red-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Search, Loader2 } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { useToast } from "@/hooks/use-toast"
+import { AccountPicker, type Account } from "@/components/account-picker"
+import { formatMoney, formatRate } from "@/lib/currency"
+
+interface MarginRow {
+  id: string
+  date: string
+  particulars: string
+  side: "debit" | "credit"
+  countryCurrency: string
+  countryAmount: number
+  localAmount: number
+  dealtRate: number
+  referenceRate: number
+  margin: number
+}
+
+interface MarginTotal {
+  key: string
+  transfers: number
+  volume: number
+  margin: number
+}
+
+interface MarginReport {
+  baseCurrency: string
+  rows: MarginRow[]
+  byPeriod: MarginTotal[]
+  byParticulars: MarginTotal[]
+  totals: { transfers: number; volume: number; margin: number }
+  unpriced: number
+}
+
+const chartConfig = {
+  margin: {
+    label: "Margin",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig
+
+export function FxMarginReport() {
+  const [account, setAccount] = useState<Account | null>(null)
+  const [report, setReport] = useState<MarginReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [filters, setFilters] = useState({
+    startDate: "",
+    endDate: "",
+    period: "month",
+    referenceRate: "",
+  })
+  const { toast } = useToast()
+
+  const fetchReport = async () => {
+    if (!account) return
+
+    try {
+      setLoading(true)
+      const query = new URLSearchParams(
+        Object.entries({ accountId: account.id, ...filters }).filter(([, value]) => value !== ""),
+      )
+      const response = await fetch(`/api/reports/fx-margin?${query}`)
+      if (!response.ok) throw new Error("Failed to fetch report")
+      setReport(await response.json())
+    } catch (error) {
+      console.error("Error fetching FX margin report:", error)
+      toast({
+        title: "Error",
+        description: "Failed to build FX margin report",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReport()
+  }, [account?.id])
+
+  const money = (amount: number) => formatMoney(amount, report?.baseCurrency)
+  const marginClass = (margin: number) => (margin < 0 ? "text-red-600" : "text-green-600")
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">FX Margin Report</CardTitle>
+        <AccountPicker value={account} onChange={setAccount} />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label htmlFor="margin-start">Start Date</Label>
+            <Input
+              id="margin-start"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="margin-end">End Date</Label>
+            <Input
+              id="margin-end"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="margin-period">Group By</Label>
+            <Select value={filters.period} onValueChange={(period) => setFilters({ ...filters, period })}>
+              <SelectTrigger id="margin-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Day</SelectItem>
+                <SelectItem value="month">Month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="margin-rate">Reference Rate</Label>
+            <Input
+              id="margin-rate"
+              type="number"
+              step="any"
+              min="0"
+              placeholder="From rate table"
+              value={filters.referenceRate}
+              onChange={(e) => setFilters({ ...filters, referenceRate: e.target.value })}
+            />
+          </div>
+          <Button onClick={fetchReport} disabled={loading || !account} className="flex items-center gap-2">
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Run Report
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground">Transfers</div>
+                <div className="text-2xl font-bold">{report.totals.transfers}</div>
+              </div>
+              <div className="border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground">Volume</div>
+                <div className="text-2xl font-bold">{money(report.totals.volume)}</div>
+              </div>
+              <div className="border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground">Margin</div>
+                <div className={`text-2xl font-bold ${marginClass(report.totals.margin)}`}>
+                  {money(report.totals.margin)}
+                </div>
+              </div>
+            </div>
+            {report.unpriced > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {report.unpriced} transfer(s) have no rate on their date and are left out. Add rates or enter a
+                reference rate.
+              </p>
+            )}
+
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={report.byPeriod}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="key" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="margin" radius={4}>
+                  {report.byPeriod.map((total) => (
+                    <Cell
+                      key={total.key}
+                      fill={total.margin < 0 ? "hsl(var(--destructive))" : "var(--color-margin)"}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-4">By Particulars</h3>
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead>Particulars</TableHead>
+                      <TableHead>Transfers</TableHead>
+                      <TableHead>Volume</TableHead>
+                      <TableHead>Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byParticulars.map((total) => (
+                      <TableRow key={total.key}>
+                        <TableCell>{total.key}</TableCell>
+                        <TableCell>{total.transfers}</TableCell>
+                        <TableCell>{money(total.volume)}</TableCell>
+                        <TableCell className={marginClass(total.margin)}>{money(total.margin)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-4">Transfers</h3>
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead>Date</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead>Side</TableHead>
+                      <TableHead>Country Amount</TableHead>
+                      <TableHead>Local Amount</TableHead>
+                      <TableHead>Dealt Rate</TableHead>
+                      <TableHead>Reference Rate</TableHead>
+                      <TableHead>Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={`${row.id}-${row.side}`}>
+                        <TableCell>{new Date(row.date).toLocaleDateString("en-GB")}</TableCell>
+                        <TableCell>{row.particulars}</TableCell>
+                        <TableCell className="capitalize">{row.side}</TableCell>
+                        <TableCell>{formatMoney(row.countryAmount, row.countryCurrency)}</TableCell>
+                        <TableCell>{money(row.localAmount)}</TableCell>
+                        <TableCell>{formatRate(row.dealtRate)}</TableCell>
+                        <TableCell>{formatRate(row.referenceRate)}</TableCell>
+                        <TableCell className={marginClass(row.margin)}>{money(row.margin)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
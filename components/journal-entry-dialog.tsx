@@ -0,0 +1,226 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+import { BALANCE_TOLERANCE, isPostingAccount, type LedgerAccount } from "@/lib/chart-of-accounts"
+
+interface JournalLineValues {
+  ledgerAccountId: string
+  debit: string
+  credit: string
+}
+
+interface JournalEntryDialogProps {
+  open: boolean
+  ledgerAccounts: LedgerAccount[]
+  defaultCurrency: string
+  onClose: () => void
+  // Called after the journal entry was posted
+  onPosted: () => void
+}
+
+const emptyLine = (): JournalLineValues => ({ ledgerAccountId: "", debit: "", credit: "" })
+
+export function JournalEntryDialog({
+  open,
+  ledgerAccounts,
+  defaultCurrency,
+  onClose,
+  onPosted,
+}: JournalEntryDialogProps) {
+  const [date, setDate] = useState("")
+  const [memo, setMemo] = useState("")
+  const [currency, setCurrency] = useState(defaultCurrency)
+  const [lines, setLines] = useState<JournalLineValues[]>([])
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setDate(new Date().toISOString().split("T")[0])
+    setMemo("")
+    setCurrency(defaultCurrency)
+    setLines([emptyLine(), emptyLine()])
+  }, [open])
+
+  const postingAccounts = ledgerAccounts.filter(isPostingAccount)
+  const totalDebit = lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0)
+  const totalCredit = lines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0)
+  const balanced = totalDebit > 0 && Math.abs(totalDebit - totalCredit) < BALANCE_TOLERANCE
+
+  const updateLine = (index: number, values: Partial<JournalLineValues>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...values } : line)))
+  }
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch("/api/ledger/journal", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ date, memo, currency, lines }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: "Error",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Journal entry posted",
+      })
+      onPosted()
+      onClose()
+    } catch (error) {
+      console.error("Error posting journal entry:", error)
+      toast({
+        title: "Error",
+        description: "Failed to post journal entry",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Journal Entry</DialogTitle>
+          <DialogDescription>
+            Movements between cash, bank, equity, income and expense accounts. Party balances are posted from
+            their statements.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="journal-date">Date</Label>
+            <Input id="journal-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="col-span-2">
+            <Label htmlFor="journal-memo">Memo</Label>
+            <Input id="journal-memo" value={memo} onChange={(e) => setMemo(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="journal-currency">Currency</Label>
+            <Input
+              id="journal-currency"
+              maxLength={3}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            />
+          </div>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead className="w-32">Debit</TableHead>
+              <TableHead className="w-32">Credit</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Select
+                    value={line.ledgerAccountId}
+                    onValueChange={(ledgerAccountId) => updateLine(index, { ledgerAccountId })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {postingAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.code} · {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={line.debit}
+                    onChange={(e) => updateLine(index, { debit: e.target.value, credit: "" })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={line.credit}
+                    onChange={(e) => updateLine(index, { credit: e.target.value, debit: "" })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                    disabled={lines.length <= 2}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell>
+                <Button variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Line
+                </Button>
+              </TableCell>
+              <TableCell>{formatMoney(totalDebit, currency.length === 3 ? currency : null)}</TableCell>
+              <TableCell>{formatMoney(totalCredit, currency.length === 3 ? currency : null)}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableBody>
+        </Table>
+        {!balanced && totalDebit + totalCredit > 0 && (
+          <p className="text-sm text-red-600">Debits and credits must balance.</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !balanced || !memo.trim()}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Post Entry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+import { LEDGER_ACCOUNT_TYPE_LABELS, type LedgerAccount } from "@/lib/chart-of-accounts"
+
+interface LedgerRow {
+  id: string
+  date: string
+  particulars: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+interface LedgerView {
+  currencies: string[]
+  currency: string
+  openingBalance: number
+  closingBalance: number
+  entries: LedgerRow[]
+}
+
+interface LedgerAccountViewProps {
+  account: LedgerAccount
+  onBack: () => void
+}
+
+// One ledger account's journal lines laid out like a party statement: debit, credit and running balance
+export function LedgerAccountView({ account, onBack }: LedgerAccountViewProps) {
+  const [filters, setFilters] = useState({ startDate: "", endDate: "", currency: "" })
+  const [view, setView] = useState<LedgerView | null>(null)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const fetchView = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value))
+      const response = await fetch(`/api/ledger/accounts/${account.id}/entries?${params}`)
+      if (!response.ok) throw new Error("Failed to fetch ledger account")
+      setView(await response.json())
+    } catch (error) {
+      console.error("Error fetching ledger account:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch ledger account",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchView()
+  }, [account.id, filters])
+
+  const money = (amount: number) => formatMoney(amount, view?.currency)
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" onClick={onBack} className="mr-2">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">
+          {account.code} · {account.name}
+        </CardTitle>
+        <Badge variant="outline">{LEDGER_ACCOUNT_TYPE_LABELS[account.type]}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="ledger-start-date">From</Label>
+            <Input
+              id="ledger-start-date"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="ledger-end-date">To</Label>
+            <Input
+              id="ledger-end-date"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+            />
+          </div>
+          {view && view.currencies.length > 1 && (
+            <div>
+              <Label htmlFor="ledger-currency">Currency</Label>
+              <Select value={view.currency} onValueChange={(currency) => setFilters({ ...filters, currency })}>
+                <SelectTrigger id="ledger-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {view.currencies.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Date</TableHead>
+                <TableHead>Particulars</TableHead>
+                <TableHead>Debit</TableHead>
+                <TableHead>Credit</TableHead>
+                <TableHead>Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading || !view ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  <TableRow className="bg-gray-50 font-medium">
+                    <TableCell colSpan={4}>Opening balance</TableCell>
+                    <TableCell>{money(view.openingBalance)}</TableCell>
+                  </TableRow>
+                  {view.entries.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="whitespace-nowrap">{row.date}</TableCell>
+                      <TableCell>{row.particulars}</TableCell>
+                      <TableCell className="text-red-600">{row.debit ? money(row.debit) : "-"}</TableCell>
+                      <TableCell className="text-green-600">{row.credit ? money(row.credit) : "-"}</TableCell>
+                      <TableCell className={row.balance < 0 ? "text-red-600" : undefined}>
+                        {money(row.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-medium">
+                    <TableCell colSpan={4}>Closing balance</TableCell>
+                    <TableCell>{money(view.closingBalance)}</TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Balances are credits minus debits, the same way party statements count them.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
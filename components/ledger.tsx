@@ -0,0 +1,504 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Archive, ArchiveRestore, Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { JournalEntryDialog } from "@/components/journal-entry-dialog"
+import { LedgerAccountView } from "@/components/ledger-account-view"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { DEFAULT_BASE_CURRENCY, formatMoney } from "@/lib/currency"
+import {
+  BALANCE_TOLERANCE,
+  LEDGER_ACCOUNT_TYPES,
+  LEDGER_ACCOUNT_TYPE_LABELS,
+  isControlAccount,
+  type LedgerAccount,
+  type LedgerAccountType,
+} from "@/lib/chart-of-accounts"
+
+interface TrialBalanceRow {
+  ledgerAccountId: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  currency: string
+  debit: number
+  credit: number
+}
+
+interface JournalEntry {
+  id: string
+  date: string
+  memo: string
+  currency: string
+  lines: { ledgerAccountId: string; debit: number; credit: number }[]
+  source: "entry" | "manual" | "settlement"
+  voided: { at: string } | null
+}
+
+const JOURNAL_SOURCE_LABELS: Record<JournalEntry["source"], string> = {
+  entry: "Statement",
+  manual: "Manual",
+  settlement: "Agent settlement",
+}
+
+const emptyAccountForm = { code: "", name: "", type: "asset" as LedgerAccountType }
+
+// Chart of accounts, journal and trial balance of the double-entry books behind the statements
+export function Ledger() {
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([])
+  const [viewingAccount, setViewingAccount] = useState<LedgerAccount | null>(null)
+  const [asOf, setAsOf] = useState(new Date().toISOString().split("T")[0])
+  const [trialBalance, setTrialBalance] = useState<TrialBalanceRow[]>([])
+  const [journal, setJournal] = useState<JournalEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [journalDialogOpen, setJournalDialogOpen] = useState(false)
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<LedgerAccount | null>(null)
+  const [accountForm, setAccountForm] = useState(emptyAccountForm)
+  const role = useCurrentUser()?.role
+  const canManageAccounts = can(role, "accounts:manage")
+  const { toast } = useToast()
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const fetchLedgerAccounts = async () => {
+    try {
+      const response = await fetch("/api/ledger/accounts")
+      if (!response.ok) throw new Error("Failed to fetch ledger accounts")
+      setLedgerAccounts(await response.json())
+    } catch (error) {
+      console.error("Error fetching ledger accounts:", error)
+      showError("Failed to fetch ledger accounts")
+    }
+  }
+
+  const fetchTrialBalance = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/ledger/trial-balance?${new URLSearchParams({ asOf })}`)
+      if (!response.ok) throw new Error("Failed to fetch trial balance")
+      setTrialBalance((await response.json()).rows)
+    } catch (error) {
+      console.error("Error fetching trial balance:", error)
+      showError("Failed to fetch trial balance")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchJournal = async () => {
+    try {
+      const response = await fetch("/api/ledger/journal")
+      if (!response.ok) throw new Error("Failed to fetch journal")
+      setJournal(await response.json())
+    } catch (error) {
+      console.error("Error fetching journal:", error)
+      showError("Failed to fetch journal")
+    }
+  }
+
+  useEffect(() => {
+    fetchLedgerAccounts()
+    fetchJournal()
+  }, [])
+
+  useEffect(() => {
+    if (asOf) fetchTrialBalance()
+  }, [asOf])
+
+  const handleVoidJournal = async (id: string) => {
+    try {
+      const response = await fetch(`/api/ledger/journal/${id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        showError(data.error)
+        return
+      }
+      toast({
+        title: "Success",
+        description: "Journal entry voided",
+      })
+      await Promise.all([fetchJournal(), fetchTrialBalance()])
+    } catch (error) {
+      console.error("Error voiding journal entry:", error)
+      showError("Failed to void journal entry")
+    }
+  }
+
+  const openAccountDialog = (account: LedgerAccount | null) => {
+    setEditingAccount(account)
+    setAccountForm(account ? { code: account.code, name: account.name, type: account.type } : emptyAccountForm)
+    setAccountDialogOpen(true)
+  }
+
+  const saveAccount = async (fields: Record<string, unknown>, account: LedgerAccount | null) => {
+    try {
+      const response = await fetch(account ? `/api/ledger/accounts/${account.id}` : "/api/ledger/accounts", {
+        method: account ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(fields),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        showError(fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error)
+        return false
+      }
+      await fetchLedgerAccounts()
+      return true
+    } catch (error) {
+      console.error("Error saving ledger account:", error)
+      showError("Failed to save ledger account")
+      return false
+    }
+  }
+
+  const handleSaveAccount = async () => {
+    if (await saveAccount(accountForm, editingAccount)) setAccountDialogOpen(false)
+  }
+
+  if (viewingAccount) {
+    return <LedgerAccountView account={viewingAccount} onBack={() => setViewingAccount(null)} />
+  }
+
+  const accountsById = new Map(ledgerAccounts.map((account) => [account.id, account]))
+  const accountLabel = (id: string) => {
+    const account = accountsById.get(id)
+    return account ? `${account.code} · ${account.name}` : "Unknown account"
+  }
+  const currencies = [...new Set(trialBalance.map((row) => row.currency))]
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Ledger</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="trial-balance">
+          <TabsList>
+            <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+            <TabsTrigger value="journal">Journal</TabsTrigger>
+            <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="trial-balance" className="space-y-4">
+            <div className="flex items-end gap-4">
+              <div>
+                <Label htmlFor="trial-balance-as-of">As of</Label>
+                <Input id="trial-balance-as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+              </div>
+            </div>
+            {loading ? (
+              <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+            ) : currencies.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Nothing has been posted yet</p>
+            ) : (
+              currencies.map((currency) => {
+                const rows = trialBalance.filter((row) => row.currency === currency)
+                const debit = rows.reduce((sum, row) => sum + Math.max(row.debit - row.credit, 0), 0)
+                const credit = rows.reduce((sum, row) => sum + Math.max(row.credit - row.debit, 0), 0)
+                const balanced = Math.abs(debit - credit) < BALANCE_TOLERANCE
+                return (
+                  <div key={currency} className="border rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-gray-50">
+                          <TableHead className="w-24">Code</TableHead>
+                          <TableHead>Account ({currency})</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead className="text-right">Debit</TableHead>
+                          <TableHead className="text-right">Credit</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map((row) => {
+                          const net = row.debit - row.credit
+                          const account = accountsById.get(row.ledgerAccountId)
+                          return (
+                            <TableRow key={row.ledgerAccountId}>
+                              <TableCell>{row.code}</TableCell>
+                              <TableCell>
+                                <button
+                                  type="button"
+                                  className="hover:underline text-left"
+                                  onClick={() => account && setViewingAccount(account)}
+                                >
+                                  {row.name}
+                                </button>
+                              </TableCell>
+                              <TableCell>{LEDGER_ACCOUNT_TYPE_LABELS[row.type]}</TableCell>
+                              <TableCell className="text-right">{net > 0 ? formatMoney(net, currency) : ""}</TableCell>
+                              <TableCell className="text-right">{net < 0 ? formatMoney(-net, currency) : ""}</TableCell>
+                            </TableRow>
+                          )
+                        })}
+                        <TableRow className="bg-gray-50 font-semibold">
+                          <TableCell colSpan={3}>
+                            Total
+                            <Badge variant={balanced ? "secondary" : "destructive"} className="ml-2">
+                              {balanced ? "Balanced" : "Out of balance"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(debit, currency)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(credit, currency)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="journal" className="space-y-4">
+            {can(role, "entries:create") && (
+              <div className="flex justify-end">
+                <Button onClick={() => setJournalDialogOpen(true)} className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  New Journal Entry
+                </Button>
+              </div>
+            )}
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead>Date</TableHead>
+                    <TableHead>Memo</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="w-16" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {journal.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        No journal entries
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    journal.flatMap((entry) =>
+                      entry.lines.map((line, index) => (
+                        <TableRow
+                          key={`${entry.id}-${index}`}
+                          className={entry.voided ? "text-muted-foreground line-through" : undefined}
+                        >
+                          {index === 0 && (
+                            <>
+                              <TableCell rowSpan={entry.lines.length} className="align-top whitespace-nowrap">
+                                {entry.date}
+                              </TableCell>
+                              <TableCell rowSpan={entry.lines.length} className="align-top">
+                                {entry.memo}
+                                <Badge variant="outline" className="ml-2">
+                                  {JOURNAL_SOURCE_LABELS[entry.source]}
+                                </Badge>
+                              </TableCell>
+                            </>
+                          )}
+                          <TableCell className={line.credit > 0 ? "pl-8" : undefined}>
+                            {accountLabel(line.ledgerAccountId)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.debit ? formatMoney(line.debit, entry.currency) : ""}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.credit ? formatMoney(line.credit, entry.currency) : ""}
+                          </TableCell>
+                          {index === 0 && (
+                            <TableCell rowSpan={entry.lines.length} className="align-top">
+                              {entry.source === "manual" && !entry.voided && can(role, "entries:delete") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Void"
+                                  onClick={() => handleVoidJournal(entry.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )),
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="accounts" className="space-y-4">
+            {canManageAccounts && (
+              <div className="flex justify-end">
+                <Button onClick={() => openAccountDialog(null)} className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Account
+                </Button>
+              </div>
+            )}
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="w-24">Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    {canManageAccounts && <TableHead className="w-24">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledgerAccounts.map((account) => (
+                    <TableRow key={account.id} className={account.archived ? "text-muted-foreground" : undefined}>
+                      <TableCell>{account.code}</TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="hover:underline text-left"
+                          onClick={() => setViewingAccount(account)}
+                        >
+                          {account.name}
+                        </button>
+                        {isControlAccount(account) && (
+                          <Badge variant="secondary" className="ml-2">
+                            Control
+                          </Badge>
+                        )}
+                        {account.archived && (
+                          <Badge variant="outline" className="ml-2">
+                            Archived
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{LEDGER_ACCOUNT_TYPE_LABELS[account.type]}</TableCell>
+                      {canManageAccounts && (
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" title="Edit" onClick={() => openAccountDialog(account)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {!account.key && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={account.archived ? "Unarchive" : "Archive"}
+                                onClick={() => saveAccount({ archived: !account.archived }, account)}
+                              >
+                                {account.archived ? (
+                                  <ArchiveRestore className="h-4 w-4" />
+                                ) : (
+                                  <Archive className="h-4 w-4" />
+                                )}
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <JournalEntryDialog
+          open={journalDialogOpen}
+          ledgerAccounts={ledgerAccounts}
+          defaultCurrency={DEFAULT_BASE_CURRENCY}
+          onClose={() => setJournalDialogOpen(false)}
+          onPosted={() => {
+            fetchJournal()
+            fetchTrialBalance()
+          }}
+        />
+
+        <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingAccount ? "Edit Ledger Account" : "Add Ledger Account"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="ledger-account-code">Code</Label>
+                <Input
+                  id="ledger-account-code"
+                  value={accountForm.code}
+                  onChange={(e) => setAccountForm({ ...accountForm, code: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="ledger-account-name">Name</Label>
+                <Input
+                  id="ledger-account-name"
+                  value={accountForm.name}
+                  onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="ledger-account-type">Type</Label>
+                <Select
+                  value={accountForm.type}
+                  onValueChange={(type) => setAccountForm({ ...accountForm, type: type as LedgerAccountType })}
+                  disabled={Boolean(editingAccount?.key)}
+                >
+                  <SelectTrigger id="ledger-account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEDGER_ACCOUNT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {LEDGER_ACCOUNT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAccountDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveAccount} disabled={!accountForm.code.trim() || !accountForm.name.trim()}>
+                {editingAccount ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, LogIn, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
+import { clearCurrentUser } from "@/hooks/use-current-user"
+
+const emptyCredentials = { organizationName: "", name: "", email: "", password: "" }
+
+// Only follow same-site paths from ?next= so the login page cannot be used as an open redirect
+function nextPath() {
+  const next = new URLSearchParams(window.location.search).get("next")
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/"
+}
+
+export function LoginForm() {
+  const [mode, setMode] = useState<"login" | "register">("login")
+  const [credentials, setCredentials] = useState(emptyCredentials)
+  const [submitting, setSubmitting] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      const body =
+        mode === "login" ? { email: credentials.email, password: credentials.password } : credentials
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: mode === "login" ? "Could not sign in" : "Could not create organization",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      clearCurrentUser()
+      router.replace(nextPath())
+      router.refresh()
+    } catch (error) {
+      console.error("Error signing in:", error)
+      toast({
+        title: "Error",
+        description: "Failed to sign in",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const field = (key: keyof typeof emptyCredentials, label: string, type = "text") => (
+    <div>
+      <Label htmlFor={`login-${key}`}>{label}</Label>
+      <Input
+        id={`login-${key}`}
+        type={type}
+        value={credentials[key]}
+        onChange={(e) => setCredentials({ ...credentials, [key]: e.target.value })}
+        required
+      />
+    </div>
+  )
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold">Account Statement</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="login">Sign In</TabsTrigger>
+            <TabsTrigger value="register">New Organization</TabsTrigger>
+          </TabsList>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <TabsContent value="register" className="space-y-4 mt-0">
+              {field("organizationName", "Organization")}
+              {field("name", "Your Name")}
+            </TabsContent>
+            {field("email", "Email", "email")}
+            {field("password", "Password", "password")}
+            <Button type="submit" disabled={submitting} className="w-full flex items-center gap-2">
+              {submitting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : mode === "login" ? (
+                <LogIn className="h-4 w-4" />
+              ) : (
+                <UserPlus className="h-4 w-4" />
+              )}
+              {mode === "login" ? "Sign In" : "Create Organization"}
+            </Button>
+          </form>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { clearCurrentUser } from "@/hooks/use-current-user"
+
+interface Letterhead {
+  name: string
+  address: string | null
+  logo: string | null
+}
+
+const MAX_LOGO_BYTES = 200 * 1024
+
+// Business name, address and logo printed at the top of PDF statements
+export function OrganizationSettings() {
+  const [letterhead, setLetterhead] = useState<Letterhead>({ name: "", address: null, logo: null })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetch("/api/organization")
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to fetch organization")
+        return response.json()
+      })
+      .then(setLetterhead)
+      .catch((error) => {
+        console.error("Error fetching organization:", error)
+        toast({
+          title: "Error",
+          description: "Failed to fetch organization",
+          variant: "destructive",
+        })
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return
+    if (file.type !== "image/jpeg" || file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: "Error",
+        description: "Choose a JPEG image of at most 200 KB",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => setLetterhead({ ...letterhead, logo: reader.result as string })
+    reader.readAsDataURL(file)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch("/api/organization", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(letterhead),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: "Could not save letterhead",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      // The organization name also shows in the user menu
+      clearCurrentUser()
+      toast({
+        title: "Success",
+        description: "Letterhead saved successfully",
+      })
+    } catch (error) {
+      console.error("Error saving letterhead:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save letterhead",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Organization</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin mr-2" />
+            <span>Loading organization...</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="organization-name">Business Name</Label>
+              <Input
+                id="organization-name"
+                value={letterhead.name}
+                onChange={(e) => setLetterhead({ ...letterhead, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="organization-address">Address</Label>
+              <Textarea
+                id="organization-address"
+                rows={3}
+                maxLength={500}
+                value={letterhead.address ?? ""}
+                onChange={(e) => setLetterhead({ ...letterhead, address: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="organization-logo">Logo (JPEG, up to 200 KB)</Label>
+              <div className="flex items-center gap-4">
+                {letterhead.logo && (
+                  <img src={letterhead.logo} alt="Logo" className="h-12 border rounded" />
+                )}
+                <Input
+                  id="organization-logo"
+                  type="file"
+                  accept="image/jpeg"
+                  onChange={(e) => handleLogoChange(e.target.files?.[0])}
+                />
+                {letterhead.logo && (
+                  <Button variant="outline" onClick={() => setLetterhead({ ...letterhead, logo: null })}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Button onClick={handleSave} disabled={saving} className="flex items-center gap-2">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, Link2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { ContactCombobox } from "@/components/contact-combobox"
+
+interface ParticularsGroup {
+  key: string
+  variants: { particulars: string; count: number }[]
+  count: number
+}
+
+interface ParticularsMergeProps {
+  // Called after entries were linked, since a contact may have been created on the way
+  onMerged: () => void
+}
+
+// Free-text particulars of unlinked entries, grouped by spelling, each linkable to one contact
+export function ParticularsMerge({ onMerged }: ParticularsMergeProps) {
+  const [groups, setGroups] = useState<ParticularsGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  // Spellings left out of a merge, keyed by group
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({})
+  const { toast } = useToast()
+
+  const fetchGroups = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/contacts/particulars")
+      if (!response.ok) throw new Error("Failed to fetch particulars")
+      setGroups(await response.json())
+    } catch (error) {
+      console.error("Error fetching particulars:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch particulars",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchGroups()
+  }, [])
+
+  const handleLink = async (group: ParticularsGroup) => {
+    const particulars = group.variants
+      .map((variant) => variant.particulars)
+      .filter((particulars) => !excluded[group.key]?.includes(particulars))
+
+    try {
+      const response = await fetch("/api/contacts/merge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ targetId: targets[group.key], particulars }),
+      })
+      if (!response.ok) throw new Error("Failed to link particulars")
+
+      const { linked, skipped } = await response.json()
+      toast({
+        title: "Success",
+        description:
+          `${linked} entries linked` + (skipped ? `; ${skipped} entries in the locked period were left unlinked` : ""),
+      })
+
+      await fetchGroups()
+      onMerged()
+    } catch (error) {
+      console.error("Error linking particulars:", error)
+      toast({
+        title: "Error",
+        description: "Failed to link particulars",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const toggleVariant = (key: string, particulars: string, checked: boolean) => {
+    const current = excluded[key] ?? []
+    setExcluded({
+      ...excluded,
+      [key]: checked ? current.filter((value) => value !== particulars) : [...current, particulars],
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+        Loading particulars...
+      </div>
+    )
+  }
+
+  if (groups.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">Every entry is linked to a contact</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Spellings that differ only in case or spacing are grouped together. Pick the contact they belong to and link
+        them; untick any spelling that is a different person.
+      </p>
+      {groups.map((group) => (
+        <div key={group.key} className="border rounded-lg p-3 flex flex-col md:flex-row md:items-center gap-3">
+          <div className="flex-1 space-y-1">
+            {group.variants.map((variant) => (
+              <label key={variant.particulars} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={!excluded[group.key]?.includes(variant.particulars)}
+                  onCheckedChange={(checked) => toggleVariant(group.key, variant.particulars, checked === true)}
+                />
+                <span className="whitespace-pre">&quot;{variant.particulars}&quot;</span>
+                <Badge variant="secondary">{variant.count}</Badge>
+              </label>
+            ))}
+          </div>
+          <div className="w-full md:w-72">
+            <ContactCombobox
+              value={targets[group.key] ?? ""}
+              onChange={(contact) => setTargets({ ...targets, [group.key]: contact?.id ?? "" })}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => handleLink(group)}
+            disabled={!targets[group.key] || group.variants.every((v) => excluded[group.key]?.includes(v.particulars))}
+            className="flex items-center gap-2"
+          >
+            <Link2 className="h-4 w-4" />
+            Link
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+import { periodLabel } from "@/lib/period-keys"
+
+interface PeriodCloseReport {
+  key: string
+  startDate: string
+  endDate: string
+  closedAt: string
+  closedBy: { name: string }
+  accounts: {
+    accountId: string
+    name: string
+    baseCurrency: string
+    openingBalance: number
+    debits: number
+    credits: number
+    closingBalance: number
+    entryCount: number
+  }[]
+}
+
+export function PeriodCloseReport({ periodKey }: { periodKey: string }) {
+  const [report, setReport] = useState<PeriodCloseReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/periods/closes/${periodKey}`)
+        if (!response.ok) throw new Error("Failed to fetch closing report")
+        setReport(await response.json())
+      } catch (error) {
+        console.error("Error fetching closing report:", error)
+        toast({
+          title: "Error",
+          description: "Failed to fetch closing report",
+          variant: "destructive",
+        })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [periodKey])
+
+  return (
+    <Card className="max-w-5xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/periods">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Closing Report - {periodLabel(periodKey)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading report...</span>
+          </div>
+        ) : (
+          report && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {new Date(report.startDate).toLocaleDateString("en-GB")} to{" "}
+                {new Date(report.endDate).toLocaleDateString("en-GB")}, closed{" "}
+                {new Date(report.closedAt).toLocaleString("en-GB")} by {report.closedBy.name}. Closing balances
+                carry forward as the next period's opening balances.
+              </p>
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead>Account</TableHead>
+                      <TableHead>Entries</TableHead>
+                      <TableHead>Opening Balance</TableHead>
+                      <TableHead>Debits</TableHead>
+                      <TableHead>Credits</TableHead>
+                      <TableHead>Closing Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.accounts.map((account) => (
+                      <TableRow key={account.accountId}>
+                        <TableCell>{account.name}</TableCell>
+                        <TableCell>{account.entryCount}</TableCell>
+                        <TableCell>{formatMoney(account.openingBalance, account.baseCurrency)}</TableCell>
+                        <TableCell className="text-red-600">{formatMoney(account.debits, account.baseCurrency)}</TableCell>
+                        <TableCell className="text-green-600">
+                          {formatMoney(account.credits, account.baseCurrency)}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {formatMoney(account.closingBalance, account.baseCurrency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { FileText, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { can } from "@/lib/roles"
+import { periodLabel, type PeriodType } from "@/lib/period-keys"
+
+interface PeriodCloseSummary {
+  id: string
+  key: string
+  type: PeriodType
+  startDate: string
+  endDate: string
+  closedAt: string
+  closedBy: { name: string }
+}
+
+export function PeriodCloses({ onClosed }: { onClosed?: () => void }) {
+  const [closes, setCloses] = useState<PeriodCloseSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [closing, setClosing] = useState(false)
+  const [periodType, setPeriodType] = useState<PeriodType>("month")
+  const [month, setMonth] = useState("")
+  const [year, setYear] = useState("")
+  const canClose = can(useCurrentUser()?.role, "periods:manage")
+  const { toast } = useToast()
+
+  const fetchCloses = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/periods/closes")
+      if (!response.ok) throw new Error("Failed to fetch period closes")
+      setCloses(await response.json())
+    } catch (error) {
+      console.error("Error fetching period closes:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch closed periods",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchCloses()
+  }, [])
+
+  const handleClose = async () => {
+    const period = periodType === "month" ? month : year
+    if (!confirm(`Close ${periodLabel(period)}? Its entries will be locked.`)) return
+
+    try {
+      setClosing(true)
+      const response = await fetch("/api/periods/closes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ period }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: "Could not close period",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: `${periodLabel(period)} closed`,
+      })
+
+      onClosed?.()
+      await fetchCloses()
+    } catch (error) {
+      console.error("Error closing period:", error)
+      toast({
+        title: "Error",
+        description: "Failed to close period",
+        variant: "destructive",
+      })
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto mt-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Closed Periods</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canClose && (
+          <div className="flex items-end gap-4">
+            <div>
+              <Label htmlFor="close-type">Close</Label>
+              <Select value={periodType} onValueChange={(type) => setPeriodType(type as PeriodType)}>
+                <SelectTrigger id="close-type" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">Month</SelectItem>
+                  <SelectItem value="year">Year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="close-period">Period</Label>
+              {periodType === "month" ? (
+                <Input id="close-period" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+              ) : (
+                <Input
+                  id="close-period"
+                  type="number"
+                  placeholder="YYYY"
+                  min="1900"
+                  max="9999"
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                />
+              )}
+            </div>
+            <Button onClick={handleClose} disabled={closing || !(periodType === "month" ? month : year)}>
+              {closing && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Close Period
+            </Button>
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Period</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Report</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading periods...
+                  </TableCell>
+                </TableRow>
+              ) : closes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    No periods closed yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                closes.map((close) => (
+                  <TableRow key={close.id}>
+                    <TableCell>{periodLabel(close.key)}</TableCell>
+                    <TableCell>
+                      <div>{new Date(close.closedAt).toLocaleString("en-GB")}</div>
+                      <div className="text-xs text-muted-foreground">by {close.closedBy.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/periods/${close.key}`}>
+                          <FileText className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
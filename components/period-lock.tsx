@@ -0,0 +1,138 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Lock, LockOpen, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+
+export function PeriodLock() {
+  const [lockedThrough, setLockedThrough] = useState<string | null>(null)
+  const [newLockDate, setNewLockDate] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchLock = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/periods")
+      if (!response.ok) throw new Error("Failed to fetch period lock")
+      const data = await response.json()
+      setLockedThrough(data.lockedThrough)
+      setNewLockDate(data.lockedThrough ?? "")
+    } catch (error) {
+      console.error("Error fetching period lock:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch period lock",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchLock()
+  }, [])
+
+  const saveLock = async (date: string | null) => {
+    try {
+      setSaving(true)
+      const response = await fetch("/api/periods", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ lockedThrough: date }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+        toast({
+          title: "Could not update lock",
+          description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      const data = await response.json()
+      setLockedThrough(data.lockedThrough)
+      setNewLockDate(data.lockedThrough ?? "")
+      toast({
+        title: "Success",
+        description: data.lockedThrough ? `Locked through ${data.lockedThrough}` : "All periods unlocked",
+      })
+    } catch (error) {
+      console.error("Error updating period lock:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update period lock",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Periods</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Entries dated on or before the lock date cannot be added, edited or moved to the trash. Corrections are
+          posted as reversals dated after the lock.
+        </p>
+        {loading ? (
+          <div className="flex items-center">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            <span>Loading...</span>
+          </div>
+        ) : (
+          <>
+            <div className="border rounded-lg p-4 flex items-center gap-2">
+              {lockedThrough ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+              <span>
+                {lockedThrough
+                  ? `Locked through ${new Date(lockedThrough).toLocaleDateString("en-GB")}`
+                  : "No periods are locked"}
+              </span>
+            </div>
+            <div className="flex items-end gap-4">
+              <div className="flex-1">
+                <Label htmlFor="lock-date">Lock Entries Through</Label>
+                <Input
+                  id="lock-date"
+                  type="date"
+                  value={newLockDate}
+                  onChange={(e) => setNewLockDate(e.target.value)}
+                />
+              </div>
+              <Button onClick={() => saveLock(newLockDate)} disabled={saving || !newLockDate}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Lock className="h-4 w-4 mr-2" />}
+                Lock
+              </Button>
+              <Button variant="outline" onClick={() => saveLock(null)} disabled={saving || !lockedThrough}>
+                <LockOpen className="h-4 w-4 mr-2" />
+                Unlock All
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
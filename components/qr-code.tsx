@@ -0,0 +1,24 @@
+import { encodeQr } from "@/lib/qr"
+
+// QR code of `value` as an SVG, with the four-module quiet zone scanners expect around it
+export function QrCode({ value, size = 128 }: { value: string; size?: number }) {
+  const modules = encodeQr(value)
+  const extent = modules.length + 8
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : "")))
+    .join("")
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`QR code: ${value}`}
+    >
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
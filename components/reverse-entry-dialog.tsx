@@ -0,0 +1,77 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface ReverseEntryDialogProps {
+  entry: { id: string; date: string; particulars: string } | null
+  onClose: () => void
+  // Resolves to an error message for the date field, or nothing on success
+  onConfirm: (date: string) => Promise<string | void>
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+export function ReverseEntryDialog({ entry, onClose, onConfirm }: ReverseEntryDialogProps) {
+  const [date, setDate] = useState(today)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDate(today())
+    setError(null)
+  }, [entry?.id])
+
+  const handleConfirm = async () => {
+    setSaving(true)
+    const message = await onConfirm(date)
+    setSaving(false)
+    if (message) setError(message)
+  }
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reverse Entry</DialogTitle>
+          <DialogDescription>
+            {entry && `${new Date(entry.date).toLocaleDateString("en-GB")} - ${entry.particulars}. `}
+            A counter-entry with debit and credit swapped is posted on the date below. The original stays in the
+            statement.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="reverse-date">Reversal Date</Label>
+          <Input id="reverse-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          {error && <p className="text-sm font-medium text-destructive mt-1">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Posting...
+              </>
+            ) : (
+              "Post Reversal"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,261 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, Plus, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { ROLES, ROLE_LABELS, type Role } from "@/lib/roles"
+
+interface OrganizationUser {
+  id: string
+  name: string
+  email: string
+  role: Role
+  disabled: boolean
+}
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: "Read statements and reports",
+  clerk: "Add entries, edit today's entries and keep contacts",
+  approver: "Edit, reverse, delete and import past entries, reconcile bank statements, settle agents, merge contacts, manage rates and read the audit log",
+  admin: "Everything, including accounts, agents, users and the letterhead",
+}
+
+const emptyUser = () => ({ name: "", email: "", password: "", role: "clerk" as Role })
+
+export function UserAdmin() {
+  const [users, setUsers] = useState<OrganizationUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newUser, setNewUser] = useState(emptyUser)
+  const currentUser = useCurrentUser()
+  const { toast } = useToast()
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/users")
+      if (!response.ok) throw new Error("Failed to fetch users")
+      setUsers(await response.json())
+    } catch (error) {
+      console.error("Error fetching users:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch users",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchUsers()
+  }, [])
+
+  const showError = async (title: string, response: Response) => {
+    const data = await response.json()
+    const fieldMessages = Object.values(data.fieldErrors ?? {}).flat()
+    toast({
+      title,
+      description: fieldMessages.length > 0 ? fieldMessages.join(". ") : data.error,
+      variant: "destructive",
+    })
+  }
+
+  const handleAddUser = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch("/api/users", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newUser),
+      })
+
+      if (!response.ok) {
+        await showError("Could not add user", response)
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "User added successfully",
+      })
+
+      setNewUser(emptyUser())
+      await fetchUsers()
+    } catch (error) {
+      console.error("Error adding user:", error)
+      toast({
+        title: "Error",
+        description: "Failed to add user",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpdateUser = async (id: string, changes: Partial<Pick<OrganizationUser, "role" | "disabled">>) => {
+    try {
+      const response = await fetch(`/api/users/${id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      })
+
+      if (!response.ok) {
+        await showError("Could not update user", response)
+        return
+      }
+
+      const updated: OrganizationUser = await response.json()
+      setUsers(users.map((user) => (user.id === id ? updated : user)))
+    } catch (error) {
+      console.error("Error updating user:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update user",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <CardTitle className="text-2xl font-bold flex-1">Users</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="text-sm text-muted-foreground space-y-1">
+          {ROLES.map((role) => (
+            <li key={role}>
+              <span className="font-medium text-foreground">{ROLE_LABELS[role]}</span>: {ROLE_DESCRIPTIONS[role]}
+            </li>
+          ))}
+        </ul>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label htmlFor="user-name">Name</Label>
+            <Input
+              id="user-name"
+              value={newUser.name}
+              onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-email">Email</Label>
+            <Input
+              id="user-email"
+              type="email"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-password">Initial Password</Label>
+            <Input
+              id="user-password"
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-role">Role</Label>
+            <Select value={newUser.role} onValueChange={(role) => setNewUser({ ...newUser, role: role as Role })}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAddUser} disabled={saving} className="flex items-center gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add User
+          </Button>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading users...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                users.map((user) => (
+                  <TableRow key={user.id} className={user.disabled ? "text-muted-foreground" : undefined}>
+                    <TableCell>{user.name}</TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => handleUpdateUser(user.id, { role: role as Role })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={user.id === currentUser?.id}
+                        onClick={() => handleUpdateUser(user.id, { disabled: !user.disabled })}
+                      >
+                        {user.disabled ? "Enable" : "Disable"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
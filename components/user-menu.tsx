@@ -0,0 +1,99 @@
+"use client"
+
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Building2, History, Lock, LogOut, User, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { clearCurrentUser, useCurrentUser } from "@/hooks/use-current-user"
+import { ROLE_LABELS, can } from "@/lib/roles"
+
+export function UserMenu() {
+  const user = useCurrentUser()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" })
+      clearCurrentUser()
+      router.replace("/login")
+      router.refresh()
+    } catch (error) {
+      console.error("Error logging out:", error)
+      toast({
+        title: "Error",
+        description: "Failed to log out",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" title={user?.name}>
+          <User className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {user && (
+          <>
+            <DropdownMenuLabel>
+              <div>{user.name}</div>
+              <div className="text-xs font-normal text-muted-foreground">{user.email}</div>
+              <div className="text-xs font-normal text-muted-foreground">
+                {user.organization.name} · {ROLE_LABELS[user.role]}
+              </div>
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {can(user.role, "users:manage") && (
+              <DropdownMenuItem asChild>
+                <Link href="/admin/users">
+                  <Users className="h-4 w-4 mr-2" />
+                  Manage Users
+                </Link>
+              </DropdownMenuItem>
+            )}
+            {can(user.role, "organization:manage") && (
+              <DropdownMenuItem asChild>
+                <Link href="/admin/organization">
+                  <Building2 className="h-4 w-4 mr-2" />
+                  Organization
+                </Link>
+              </DropdownMenuItem>
+            )}
+            {can(user.role, "audit:view") && (
+              <DropdownMenuItem asChild>
+                <Link href="/audit">
+                  <History className="h-4 w-4 mr-2" />
+                  Audit Log
+                </Link>
+              </DropdownMenuItem>
+            )}
+            {can(user.role, "periods:manage") && (
+              <DropdownMenuItem asChild>
+                <Link href="/periods">
+                  <Lock className="h-4 w-4 mr-2" />
+                  Periods
+                </Link>
+              </DropdownMenuItem>
+            )}
+          </>
+        )}
+        <DropdownMenuItem onSelect={handleLogout}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Log Out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
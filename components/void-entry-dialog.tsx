@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface VoidEntryDialogProps {
+  entry: { id: string; date: string; particulars: string } | null
+  onClose: () => void
+  // Resolves to an error message for the reason field, or nothing on success
+  onConfirm: (reason: string) => Promise<string | void>
+}
+
+export function VoidEntryDialog({ entry, onClose, onConfirm }: VoidEntryDialogProps) {
+  const [reason, setReason] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setReason("")
+    setError(null)
+  }, [entry?.id])
+
+  const handleConfirm = async () => {
+    if (!reason.trim()) {
+      setError("A reason is required")
+      return
+    }
+
+    setSaving(true)
+    const message = await onConfirm(reason.trim())
+    setSaving(false)
+    if (message) setError(message)
+  }
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Entry to Trash</DialogTitle>
+          <DialogDescription>
+            {entry && `${new Date(entry.date).toLocaleDateString("en-GB")} - ${entry.particulars}. `}
+            The entry stops counting towards the balance and can be restored from the trash.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="void-reason">Reason</Label>
+          <Textarea
+            id="void-reason"
+            placeholder="Why is this entry being removed?"
+            value={reason}
+            maxLength={200}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {error && <p className="text-sm font-medium text-destructive mt-1">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={saving}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Moving...
+              </>
+            ) : (
+              "Move to Trash"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Role } from "@/lib/roles"
+
+export interface CurrentUser {
+  id: string
+  name: string
+  email: string
+  role: Role
+  organization: { id: string; name: string }
+}
+
+// Shared by every component on the page so the session is fetched once per load
+let currentUser: Promise<CurrentUser | null> | null = null
+
+function fetchCurrentUser() {
+  if (!currentUser) {
+    currentUser = fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .catch((error) => {
+        console.error("Error fetching session:", error)
+        currentUser = null
+        return null
+      })
+  }
+  return currentUser
+}
+
+export function clearCurrentUser() {
+  currentUser = null
+}
+
+export function useCurrentUser() {
+  const [user, setUser] = useState<CurrentUser | null>(null)
+
+  useEffect(() => {
+    fetchCurrentUser().then(setUser)
+  }, [])
+
+  return user
+}
@@ -0,0 +1,78 @@
+import { ObjectId, type Db, type WithId } from "mongodb"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import type { EntryDoc } from "@/lib/entries"
+
+export const ACCOUNT_TYPES = ["customer", "agent", "other"] as const
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number]
+
+export interface Account {
+  _id?: string
+  id?: string
+  name: string
+  type: AccountType
+  // Currency of the local debit/credit columns and the running balance
+  baseCurrency: string
+  archived: boolean
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// An account as stored; accounts created before base currencies existed have none
+export interface AccountDoc {
+  organizationId: ObjectId
+  name: string
+  type: AccountType
+  baseCurrency?: string
+  archived: boolean
+  // Branch number in the account's entry references; see lib/references
+  referenceBranch?: number | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const DEFAULT_ACCOUNT_NAME = "General"
+
+export function serializeAccount(account: WithId<AccountDoc>): Account {
+  const { _id, organizationId, ...fields } = account
+  return {
+    ...fields,
+    baseCurrency: account.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+    id: _id.toString(),
+  }
+}
+
+export function isAccountType(value: unknown): value is AccountType {
+  return typeof value === "string" && (ACCOUNT_TYPES as readonly string[]).includes(value)
+}
+
+// Looks up one of the organization's accounts by its string id, returning null for malformed ids,
+// missing documents and accounts that belong to another organization
+export async function findAccount(db: Db, organizationId: ObjectId, accountId: string) {
+  if (!ObjectId.isValid(accountId)) return null
+  return db.collection<AccountDoc>("accounts").findOne({ _id: new ObjectId(accountId), organizationId })
+}
+
+// Entries written before accounts existed have no accountId. They are moved into a "General" account
+// owned by `organizationId` so the old single statement keeps its history.
+export async function ensureDefaultAccount(db: Db, organizationId: ObjectId) {
+  const accountCount = await db.collection<AccountDoc>("accounts").countDocuments()
+  if (accountCount > 0) return
+
+  const orphanCount = await db.collection<EntryDoc>("entries").countDocuments({ accountId: { $exists: false } })
+  if (orphanCount === 0) return
+
+  const result = await db.collection<AccountDoc>("accounts").insertOne({
+    organizationId,
+    name: DEFAULT_ACCOUNT_NAME,
+    type: "other",
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+    archived: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })
+
+  await db
+    .collection<EntryDoc>("entries")
+    .updateMany({ accountId: { $exists: false } }, { $set: { accountId: result.insertedId } })
+}
@@ -0,0 +1,401 @@
+import { z } from "zod"
+import { ObjectId, type Db, type WithId } from "mongodb"
+import { notVoided, paidOutOnly } from "@/lib/balances"
+import { currencyCode, isoDate, optionalObjectId, type EntryInput } from "@/lib/entry-schema"
+import { BALANCE_TOLERANCE } from "@/lib/chart-of-accounts"
+import { postSettlementJournal, voidSettlementJournal } from "@/lib/ledger"
+import { recordEntryEvents, type AuditActor, type AuditContext } from "@/lib/audit"
+import type { EntryDoc } from "@/lib/entries"
+import type { AccountDoc } from "@/lib/accounts"
+
+// Partner agents pay out transfers abroad and collect money there, one agent per corridor: the country
+// it works in, the currency it pays out in and the local currency it settles with us in. Entries tagged
+// with an agent make up its position until a settlement nets them off with one payment.
+
+export interface Agent {
+  id: string
+  name: string
+  country: string
+  // Currency of the country amounts the agent pays out or collects
+  currency: string
+  // Currency of the local amounts, which the agent is settled in; matches the base currency of tagged accounts
+  settlementCurrency: string
+  archived: boolean
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// What the organization owes the agent over its unsettled transfers, in both currencies. Positive is a
+// payable (the agent paid out for us), negative a receivable (the agent collected for us).
+export interface AgentPosition {
+  openTransfers: number
+  foreign: number
+  local: number
+}
+
+export interface AgentSettlement {
+  id: string
+  agentId: string
+  date: string
+  entryIds: string[]
+  // Net of the cleared transfers; positive was paid to the agent, negative received from it
+  foreignAmount: number
+  localAmount: number
+  counterAccountId: string | null
+  reference: string | null
+  actor: AuditActor
+  voided: { at: Date; actor: AuditActor } | null
+  createdAt: Date
+}
+
+// An agent as stored
+export interface AgentDoc {
+  organizationId: ObjectId
+  name: string
+  country: string
+  currency: string
+  settlementCurrency: string
+  archived?: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A settlement as stored; references are ObjectIds
+interface AgentSettlementDoc
+  extends Omit<AgentSettlement, "id" | "agentId" | "entryIds" | "counterAccountId"> {
+  organizationId: ObjectId
+  agentId: ObjectId
+  entryIds: ObjectId[]
+  counterAccountId: ObjectId | null
+}
+
+// One line of an agent's running position: a tagged transfer, or a settlement taking its transfers back out
+export interface AgentLedgerRow {
+  id: string
+  kind: "transfer" | "settlement"
+  date: string
+  particulars: string
+  // Party account of a transfer
+  accountId: string | null
+  accountName: string | null
+  foreign: number
+  local: number
+  foreignBalance: number
+  localBalance: number
+  // Settlement a transfer was cleared by, or the settlement itself
+  settlementId: string | null
+}
+
+const currency = (label: string) => currencyCode.refine((code) => code !== undefined, `${label} is required`)
+
+export const agentSchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name is required")
+    .max(200, "Name must be at most 200 characters"),
+  country: z
+    .string({ required_error: "Country is required" })
+    .trim()
+    .min(1, "Country is required")
+    .max(80, "Country must be at most 80 characters"),
+  currency: currency("Payout currency"),
+  settlementCurrency: currency("Settlement currency"),
+})
+
+export type AgentInput = z.output<typeof agentSchema>
+
+export const agentSettlementSchema = z.object({
+  date: isoDate,
+  entryIds: z
+    .array(z.string().regex(/^[a-f\d]{24}$/i, "Invalid transfer"), { required_error: "Choose transfers to settle" })
+    .min(1, "Choose transfers to settle")
+    .refine((ids) => new Set(ids).size === ids.length, "A transfer is listed twice"),
+  // Cash or bank ledger account the net was paid through; cash in hand when blank
+  counterAccountId: optionalObjectId,
+  reference: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() || undefined : (value ?? undefined)),
+    z.string().max(100, "Reference must be at most 100 characters").optional(),
+  ),
+})
+
+export type AgentSettlementInput = z.output<typeof agentSettlementSchema>
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureAgentIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = Promise.all([
+      db.collection<AgentDoc>("agents").createIndex({ organizationId: 1, name: 1 }),
+      db.collection<EntryDoc>("entries").createIndex({ agentId: 1, date: 1 }, { sparse: true }),
+      db.collection<AgentSettlementDoc>("agent_settlements").createIndex({ agentId: 1, date: 1 }),
+    ])
+  }
+  return indexReady
+}
+
+export function serializeAgent(agent: WithId<AgentDoc>): Agent {
+  return {
+    id: agent._id.toString(),
+    name: agent.name,
+    country: agent.country,
+    currency: agent.currency,
+    settlementCurrency: agent.settlementCurrency,
+    archived: Boolean(agent.archived),
+    createdAt: agent.createdAt,
+    updatedAt: agent.updatedAt,
+  }
+}
+
+export function serializeAgentSettlement(settlement: WithId<AgentSettlementDoc>): AgentSettlement {
+  return {
+    id: settlement._id.toString(),
+    agentId: settlement.agentId.toString(),
+    date: settlement.date,
+    entryIds: settlement.entryIds.map((id) => id.toString()),
+    foreignAmount: settlement.foreignAmount,
+    localAmount: settlement.localAmount,
+    counterAccountId: settlement.counterAccountId?.toString() ?? null,
+    reference: settlement.reference ?? null,
+    actor: settlement.actor,
+    voided: settlement.voided ?? null,
+    createdAt: settlement.createdAt,
+  }
+}
+
+export async function findAgent(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<AgentDoc>("agents").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+export async function findAgentSettlement(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<AgentSettlementDoc>("agent_settlements").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// Why an entry of an account in `baseCurrency` cannot be tagged with the agent it names, or null when it can.
+// An entry may keep the archived agent it was already tagged with.
+export async function agentFieldError(
+  db: Db,
+  organizationId: ObjectId,
+  fields: EntryInput,
+  baseCurrency: string,
+  currentAgentId: ObjectId | null = null,
+) {
+  if (!fields.agentId) return null
+
+  const agent = await findAgent(db, organizationId, fields.agentId)
+  if (!agent) return "Agent not found"
+  if (agent.archived && !currentAgentId?.equals(agent._id)) return "Agent is archived"
+  if (agent.settlementCurrency !== baseCurrency) {
+    return `${agent.name} settles in ${agent.settlementCurrency}, this account is in ${baseCurrency}`
+  }
+  if ((fields.debitCountry > 0 || fields.creditCountry > 0) && fields.countryCurrency !== agent.currency) {
+    return `${agent.name} pays out in ${agent.currency}`
+  }
+  return null
+}
+
+// Debit is money paid out through the agent, so it adds to what we owe it; credit was collected by the agent.
+// Only paid-out transfers are owed: pending ones may still be cancelled, cancelled and refunded ones never were.
+const openTransfers = (agentIds: ObjectId[]) => ({
+  agentId: { $in: agentIds },
+  ...notVoided,
+  ...paidOutOnly,
+  settlement: null,
+})
+
+async function positionsOf(db: Db, agentIds: ObjectId[]) {
+  const totals = await db
+    .collection<EntryDoc>("entries")
+    .aggregate([
+      { $match: openTransfers(agentIds) },
+      {
+        $group: {
+          _id: "$agentId",
+          openTransfers: { $sum: 1 },
+          foreign: { $sum: { $subtract: ["$debitCountry", "$creditCountry"] } },
+          local: { $sum: { $subtract: ["$debit", "$credit"] } },
+        },
+      },
+    ])
+    .toArray()
+  return new Map<string, AgentPosition>(
+    totals.map((total) => [
+      total._id.toString(),
+      { openTransfers: total.openTransfers, foreign: total.foreign, local: total.local },
+    ]),
+  )
+}
+
+// The organization's agents by name, each with its position over unsettled transfers
+export async function listAgentsWithPositions(db: Db, organizationId: ObjectId) {
+  await ensureAgentIndexes(db)
+  const agents = await db.collection<AgentDoc>("agents").find({ organizationId }).sort({ name: 1 }).toArray()
+  const positions = await positionsOf(db, agents.map((agent) => agent._id))
+  return agents.map((agent) => ({
+    ...serializeAgent(agent),
+    position: positions.get(agent._id.toString()) ?? { openTransfers: 0, foreign: 0, local: 0 },
+  }))
+}
+
+export async function getAgentPosition(db: Db, agentId: ObjectId): Promise<AgentPosition> {
+  return (await positionsOf(db, [agentId])).get(agentId.toString()) ?? { openTransfers: 0, foreign: 0, local: 0 }
+}
+
+// Every transfer tagged with the agent and every settlement with it, oldest first, with the running position
+// in both currencies. Undone settlements, voided transfers and transfers not paid out are left out.
+export async function getAgentLedger(db: Db, agentId: ObjectId) {
+  await ensureAgentIndexes(db)
+  const [entries, settlements] = await Promise.all([
+    db
+      .collection<EntryDoc>("entries")
+      .find({ agentId, ...notVoided, ...paidOutOnly })
+      .sort({ date: 1, _id: 1 })
+      .toArray(),
+    db
+      .collection<AgentSettlementDoc>("agent_settlements")
+      .find({ agentId, voided: null })
+      .sort({ date: 1, _id: 1 })
+      .toArray(),
+  ])
+
+  const accountIds = [...new Set(entries.map((entry) => entry.accountId.toString()))].map((id) => new ObjectId(id))
+  const accounts = await db
+    .collection<AccountDoc>("accounts")
+    .find({ _id: { $in: accountIds } }, { projection: { name: 1 } })
+    .toArray()
+  const accountNames = new Map(accounts.map((account) => [account._id.toString(), account.name as string]))
+
+  const rows = [
+    ...entries.map((entry) => ({
+      id: entry._id.toString(),
+      kind: "transfer" as const,
+      date: entry.date as string,
+      particulars: entry.particulars as string,
+      accountId: entry.accountId.toString(),
+      accountName: accountNames.get(entry.accountId.toString()) ?? null,
+      foreign: (entry.debitCountry ?? 0) - (entry.creditCountry ?? 0),
+      local: entry.debit - entry.credit,
+      settlementId: entry.settlement?.settlementId.toString() ?? null,
+    })),
+    ...settlements.map((settlement) => ({
+      id: settlement._id.toString(),
+      kind: "settlement" as const,
+      date: settlement.date as string,
+      particulars: settlement.reference ? `Settlement ${settlement.reference}` : "Settlement",
+      accountId: null,
+      accountName: null,
+      foreign: -settlement.foreignAmount,
+      local: -settlement.localAmount,
+      settlementId: settlement._id.toString(),
+    })),
+  ]
+  // A settlement dated the same day as its transfers comes after them
+  rows.sort((a, b) => a.date.localeCompare(b.date) || (a.kind === b.kind ? 0 : a.kind === "transfer" ? -1 : 1))
+
+  let foreignBalance = 0
+  let localBalance = 0
+  const ledger: AgentLedgerRow[] = rows.map((row) => {
+    foreignBalance += row.foreign
+    localBalance += row.local
+    return { ...row, foreignBalance, localBalance }
+  })
+
+  return { rows: ledger, settlements: settlements.map(serializeAgentSettlement) }
+}
+
+// Clear `input.entryIds` against one net payment, recording a settlement event per transfer. Returns null when
+// one of them is not an open transfer of the agent, e.g. because a concurrent settlement already took it.
+export async function settleAgentTransfers(
+  db: Db,
+  organizationId: ObjectId,
+  agent: WithId<AgentDoc>,
+  input: AgentSettlementInput,
+  context: AuditContext,
+) {
+  const entryIds = input.entryIds.map((id) => new ObjectId(id))
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({ _id: { $in: entryIds }, organizationId, ...openTransfers([agent._id]) })
+    .toArray()
+  if (entries.length !== entryIds.length) return null
+
+  // Claim the transfers first so two settlements cannot clear the same one
+  const _id = new ObjectId()
+  const at = new Date()
+  const cleared = { settlementId: _id, at }
+  const claimed = await db
+    .collection<EntryDoc>("entries")
+    .updateMany(
+      { _id: { $in: entryIds }, ...openTransfers([agent._id]) },
+      { $set: { settlement: cleared, updatedAt: at } },
+    )
+  if (claimed.modifiedCount !== entryIds.length) {
+    await db
+      .collection<EntryDoc>("entries")
+      .updateMany({ "settlement.settlementId": _id }, { $set: { settlement: null } })
+    return null
+  }
+  await recordEntryEvents(
+    db,
+    organizationId,
+    "settlement",
+    entries.map((entry) => ({ before: entry, after: { ...entry, settlement: cleared, updatedAt: at } })),
+    context,
+  )
+
+  const settlement = {
+    _id,
+    organizationId,
+    agentId: agent._id,
+    date: input.date,
+    entryIds,
+    foreignAmount: entries.reduce((sum, entry) => sum + (entry.debitCountry ?? 0) - (entry.creditCountry ?? 0), 0),
+    localAmount: entries.reduce((sum, entry) => sum + entry.debit - entry.credit, 0),
+    counterAccountId: input.counterAccountId ? new ObjectId(input.counterAccountId) : null,
+    reference: input.reference ?? null,
+    actor: context.actor,
+    voided: null,
+    createdAt: at,
+  }
+  await db.collection<AgentSettlementDoc>("agent_settlements").insertOne(settlement)
+
+  // Transfers that cancel out need no payment
+  if (Math.abs(settlement.localAmount) >= BALANCE_TOLERANCE) {
+    await postSettlementJournal(db, organizationId, {
+      _id,
+      date: settlement.date,
+      memo: `Settlement with ${agent.name}${settlement.reference ? ` (${settlement.reference})` : ""}`,
+      currency: agent.settlementCurrency,
+      amount: settlement.localAmount,
+      counterAccountId: settlement.counterAccountId,
+    })
+  }
+
+  return serializeAgentSettlement(settlement)
+}
+
+// Undo a settlement: its transfers are open again, each with a settlement event, and its payment leaves
+// the journal. Returns false when it was already undone.
+export async function undoAgentSettlement(db: Db, settlement: WithId<AgentSettlementDoc>, context: AuditContext) {
+  const at = new Date()
+  const result = await db
+    .collection<AgentSettlementDoc>("agent_settlements")
+    .updateOne({ _id: settlement._id, voided: null }, { $set: { voided: { at, actor: context.actor } } })
+  if (result.modifiedCount === 0) return false
+
+  const entries = await db.collection<EntryDoc>("entries").find({ "settlement.settlementId": settlement._id }).toArray()
+  await db
+    .collection<EntryDoc>("entries")
+    .updateMany({ "settlement.settlementId": settlement._id }, { $set: { settlement: null, updatedAt: at } })
+  await recordEntryEvents(
+    db,
+    settlement.organizationId,
+    "settlement",
+    entries.map((entry) => ({ before: entry, after: { ...entry, settlement: null, updatedAt: at } })),
+    context,
+  )
+  await voidSettlementJournal(db, settlement._id, context.actor)
+  return true
+}
@@ -0,0 +1,226 @@
+import { ObjectId, type Db, type WithId } from "mongodb"
+import type { NextRequest } from "next/server"
+import type { Session } from "@/lib/auth"
+import { serializeEntry, type EntryDoc } from "@/lib/entries"
+
+// "void" moves an entry to the trash and "delete" purges it for good; "reverse" links an entry to its reversal;
+// "status" moves a transfer along its lifecycle; "settlement" clears a transfer against an agent settlement
+// or opens it again; "reconciliation" matches an entry to a bank line or unmatches it
+export const ENTRY_EVENT_TYPES = [
+  "create",
+  "update",
+  "void",
+  "restore",
+  "delete",
+  "reverse",
+  "status",
+  "settlement",
+  "reconciliation",
+] as const
+
+export type EntryEventType = (typeof ENTRY_EVENT_TYPES)[number]
+
+export interface AuditActor {
+  userId: ObjectId
+  name: string
+  email: string
+}
+
+// Who made a change and from where; passed down from the route handler into the entry functions
+export interface AuditContext {
+  actor: AuditActor
+  ip: string | null
+}
+
+export interface EntryEvent {
+  id: string
+  entryId: string
+  accountId: string
+  type: EntryEventType
+  // Entry as it was before and after the change; null before a create and after a delete
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor: { userId: string; name: string; email: string }
+  ip: string | null
+  at: Date
+}
+
+// An event as stored
+interface EntryEventDoc {
+  organizationId: ObjectId
+  entryId: ObjectId
+  accountId: ObjectId
+  type: EntryEventType
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor: AuditActor
+  ip: string | null
+  at: Date
+}
+
+export function isEntryEventType(value: unknown): value is EntryEventType {
+  return typeof value === "string" && (ENTRY_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+// Number of reverse proxies in front of the app. Each appends the address it received the request from to
+// X-Forwarded-For, so only the last TRUSTED_PROXY_COUNT hops were written by them; anything before those
+// came from the client and may be forged.
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 0)
+
+// The client address as seen by the outermost trusted proxy. Route handlers cannot read the connection's
+// own address, so without a trusted proxy the address is left out rather than taken from the client.
+export function requestIp(request: NextRequest) {
+  if (!Number.isInteger(TRUSTED_PROXY_COUNT) || TRUSTED_PROXY_COUNT < 1) return null
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops[hops.length - TRUSTED_PROXY_COUNT] ?? null
+}
+
+export function auditContext(request: NextRequest, session: Session): AuditContext {
+  return {
+    actor: { userId: session.userId, name: session.name, email: session.email },
+    ip: requestIp(request),
+  }
+}
+
+// Running balances shift whenever an earlier entry changes, so they are left out of snapshots
+// to keep each event about what the user actually changed
+function entrySnapshot(entry: EntryDoc | null) {
+  if (!entry) return null
+  const { id, balance, createdAt, updatedAt, statusHistory, ...fields } = serializeEntry(entry)
+  return fields
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+export function ensureAuditIndexes(db: Db) {
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      db.collection<EntryEventDoc>("entry_events").createIndex({ entryId: 1, _id: 1 }),
+      db.collection<EntryEventDoc>("entry_events").createIndex({ organizationId: 1, _id: -1 }),
+    ])
+  }
+  return indexesReady
+}
+
+// entry_events is append-only: nothing in the app updates or deletes an event once written
+export async function recordEntryEvent(
+  db: Db,
+  organizationId: ObjectId,
+  type: EntryEventType,
+  before: EntryDoc | null,
+  after: EntryDoc | null,
+  context: AuditContext,
+) {
+  await ensureAuditIndexes(db)
+  await db.collection<EntryEventDoc>("entry_events").insertOne(entryEvent(organizationId, type, before, after, context))
+}
+
+// One "create" event per entry for entries written in bulk, such as an import
+export async function recordCreateEvents(
+  db: Db,
+  organizationId: ObjectId,
+  entries: EntryDoc[],
+  context: AuditContext,
+) {
+  if (entries.length === 0) return
+  await ensureAuditIndexes(db)
+  await db
+    .collection<EntryEventDoc>("entry_events")
+    .insertMany(entries.map((entry) => entryEvent(organizationId, "create", null, entry, context)))
+}
+
+// One event per entry for entries changed in bulk, such as a contact merge or an agent settlement
+export async function recordEntryEvents(
+  db: Db,
+  organizationId: ObjectId,
+  type: EntryEventType,
+  changes: { before: EntryDoc; after: EntryDoc }[],
+  context: AuditContext,
+) {
+  if (changes.length === 0) return
+  await ensureAuditIndexes(db)
+  await db
+    .collection<EntryEventDoc>("entry_events")
+    .insertMany(changes.map(({ before, after }) => entryEvent(organizationId, type, before, after, context)))
+}
+
+function entryEvent(
+  organizationId: ObjectId,
+  type: EntryEventType,
+  before: EntryDoc | null,
+  after: EntryDoc | null,
+  context: AuditContext,
+): EntryEventDoc {
+  // Every event has an entry on at least one side
+  const entry = (after ?? before)!
+  return {
+    organizationId,
+    entryId: entry._id,
+    accountId: entry.accountId,
+    type,
+    before: entrySnapshot(before),
+    after: entrySnapshot(after),
+    actor: context.actor,
+    ip: context.ip,
+    at: new Date(),
+  }
+}
+
+export function serializeEntryEvent(event: WithId<EntryEventDoc>): EntryEvent {
+  return {
+    id: event._id.toString(),
+    entryId: event.entryId.toString(),
+    accountId: event.accountId?.toString(),
+    type: event.type,
+    before: event.before,
+    after: event.after,
+    actor: { ...event.actor, userId: event.actor.userId.toString() },
+    ip: event.ip ?? null,
+    at: event.at,
+  }
+}
+
+// Oldest first, so the history reads as the entry's life story
+export async function listEntryEvents(db: Db, organizationId: ObjectId, entryId: string) {
+  if (!ObjectId.isValid(entryId)) return []
+  const events = await db
+    .collection<EntryEventDoc>("entry_events")
+    .find({ organizationId, entryId: new ObjectId(entryId) })
+    .sort({ _id: 1 })
+    .toArray()
+  return events.map(serializeEntryEvent)
+}
+
+export interface AuditQuery {
+  type?: EntryEventType
+  accountId?: string
+  // Id of the last event on the previous page
+  cursor?: string
+  limit: number
+}
+
+export const AUDIT_PAGE_SIZE = 50
+
+// Newest first across the whole organization
+export async function listAuditEvents(db: Db, organizationId: ObjectId, query: AuditQuery) {
+  const events = await db
+    .collection<EntryEventDoc>("entry_events")
+    .find({
+      organizationId,
+      ...(query.type && { type: query.type }),
+      ...(query.accountId && ObjectId.isValid(query.accountId) && { accountId: new ObjectId(query.accountId) }),
+      ...(query.cursor && ObjectId.isValid(query.cursor) && { _id: { $lt: new ObjectId(query.cursor) } }),
+    })
+    .sort({ _id: -1 })
+    .limit(query.limit + 1)
+    .toArray()
+
+  const page = events.slice(0, query.limit)
+  return {
+    events: page.map(serializeEntryEvent),
+    nextCursor: events.length > query.limit ? page[page.length - 1]._id.toString() : null,
+  }
+}
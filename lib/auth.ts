@@ -0,0 +1,144 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { ObjectId, type Db } from "mongodb"
+import { type NextRequest, NextResponse } from "next/server"
+import { getDatabase } from "@/lib/mongodb"
+import { ensureDefaultAccount } from "@/lib/accounts"
+import { can, isRole, type Permission, type Role } from "@/lib/roles"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+export const SESSION_COOKIE = "session"
+export const SESSION_TTL_DAYS = 30
+
+export interface Session {
+  userId: ObjectId
+  organizationId: ObjectId
+  name: string
+  email: string
+  role: Role
+}
+
+// Passwords are stored as "scrypt$<salt>$<hash>" in hex
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+// Only a hash of the session token is stored, so a leaked sessions collection cannot be replayed
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+export function ensureAuthIndexes(db: Db) {
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      db.collection("users").createIndex({ email: 1 }, { unique: true }),
+      db.collection("sessions").createIndex({ tokenHash: 1 }, { unique: true }),
+      db.collection("sessions").createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ])
+  }
+  return indexesReady
+}
+
+export async function createSession(db: Db, user: { _id: ObjectId; organizationId: ObjectId }) {
+  await ensureAuthIndexes(db)
+
+  const token = randomBytes(32).toString("base64url")
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  await db.collection("sessions").insertOne({
+    tokenHash: hashToken(token),
+    userId: user._id,
+    organizationId: user.organizationId,
+    createdAt: new Date(),
+    expiresAt,
+  })
+
+  return { token, expiresAt }
+}
+
+export async function deleteSession(db: Db, token: string) {
+  await db.collection("sessions").deleteOne({ tokenHash: hashToken(token) })
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 })
+}
+
+// Resolve the session cookie to its user. Returns null for a missing, unknown or expired session.
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token) return null
+
+  const db = await getDatabase()
+  const session = await db
+    .collection("sessions")
+    .findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } })
+  if (!session) return null
+
+  const user = await db.collection("users").findOne({ _id: session.userId, disabled: { $ne: true } })
+  if (!user) return null
+
+  return {
+    userId: user._id,
+    organizationId: user.organizationId,
+    name: user.name,
+    email: user.email,
+    // Users registered before roles existed all founded their organization
+    role: isRole(user.role) ? user.role : "admin",
+  }
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+}
+
+export function forbidden(message = "You do not have permission to do this") {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
+
+// Resolve the session and check it grants `permission`; returns the error response to send otherwise
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission,
+): Promise<{ session: Session; response?: never } | { session?: never; response: NextResponse }> {
+  const session = await getSession(request)
+  if (!session) return { response: unauthorized() }
+  if (!can(session.role, permission)) return { response: forbidden() }
+  return { session }
+}
+
+// Data written before organizations existed has no organizationId. The first organization to register
+// takes it over, including the "General" account for entries older than accounts.
+export async function claimLegacyData(db: Db, organizationId: ObjectId) {
+  await ensureDefaultAccount(db, organizationId)
+
+  const unowned = { organizationId: { $exists: false } }
+  await Promise.all(
+    ["accounts", "entries", "rates"].map((name) =>
+      db.collection(name).updateMany(unowned, { $set: { organizationId } }),
+    ),
+  )
+}
@@ -0,0 +1,183 @@
+import { ObjectId, type Db } from "mongodb"
+import {
+  DEFAULT_TRANSFER_STATUS,
+  INACTIVE_TRANSFER_STATUSES,
+  countsInBalance,
+  type TransferStatus,
+} from "@/lib/transfer-status"
+import type { EntryDoc } from "@/lib/entries"
+
+// Running balances are stored in two places:
+//  - every entry carries `balance`, the account's ledger balance after that entry in (date, _id) order
+//  - `balance_checkpoints` holds one closing balance per account and month that has entries
+// Writes shift both by the amount's effect, so reading a balance never has to scan the whole ledger.
+// Voided entries are in the trash and take no part in any balance. Cancelled and refunded transfers stay in
+// the running order with a zero effect, so their stored balance is the one before them.
+
+export interface BalanceCheckpoint {
+  accountId: ObjectId
+  month: string
+  closingBalance: number
+  updatedAt: Date
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+export function ensureBalanceIndexes(db: Db) {
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      db.collection<EntryDoc>("entries").createIndex({ accountId: 1, date: 1, _id: 1 }),
+      db.collection("balance_checkpoints").createIndex({ accountId: 1, month: 1 }, { unique: true }),
+    ])
+  }
+  return indexesReady
+}
+
+// Matches entries that are not in the trash
+export const notVoided = { voided: null }
+
+// Matches entries whose amount is part of the balance: not in the trash, nor cancelled or refunded
+export const inBalance = { ...notVoided, status: { $nin: [...INACTIVE_TRANSFER_STATUSES] } }
+
+// Matches paid-out transfers, including entries written before statuses existed
+export const paidOutOnly = { status: { $in: [null, DEFAULT_TRANSFER_STATUS] } }
+
+// Matches transfers received but not yet paid out. They are part of the stored ledger balance; screens that
+// show the balance without them subtract getPendingTotal.
+export const pendingOnly = { status: "pending" as const }
+
+export function monthOf(date: string) {
+  return date.slice(0, 7)
+}
+
+// yyyy-mm-dd of the day before `date`
+export function previousDay(date: string) {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - 1)
+  return day.toISOString().split("T")[0]
+}
+
+// Effect of an entry on the running balance
+export function entryDelta(entry: { debit: number; credit: number; status?: TransferStatus | null }) {
+  return countsInBalance(entry.status) ? entry.credit - entry.debit : 0
+}
+
+function afterPosition(accountId: ObjectId, date: string, id: ObjectId) {
+  return { accountId, ...notVoided, $or: [{ date: { $gt: date } }, { date, _id: { $gt: id } }] }
+}
+
+async function ensureCheckpoint(db: Db, accountId: ObjectId, month: string) {
+  const checkpoints = db.collection<BalanceCheckpoint>("balance_checkpoints")
+  if (await checkpoints.findOne({ accountId, month })) return
+
+  // A month without a checkpoint has no entries yet, so it closes where the previous month did
+  const previous = await checkpoints.findOne({ accountId, month: { $lt: month } }, { sort: { month: -1 } })
+  await checkpoints.updateOne(
+    { accountId, month },
+    { $setOnInsert: { closingBalance: previous?.closingBalance ?? 0, updatedAt: new Date() } },
+    { upsert: true },
+  )
+}
+
+// Apply `delta` to every entry after (date, id) and to every checkpoint from date's month onwards
+export async function shiftBalancesAfter(db: Db, accountId: ObjectId, date: string, id: ObjectId, delta: number) {
+  if (delta === 0) return
+
+  await ensureCheckpoint(db, accountId, monthOf(date))
+  await db.collection<EntryDoc>("entries").updateMany(afterPosition(accountId, date, id), { $inc: { balance: delta } })
+  await db
+    .collection("balance_checkpoints")
+    .updateMany(
+      { accountId, month: { $gte: monthOf(date) } },
+      { $inc: { closingBalance: delta }, $set: { updatedAt: new Date() } },
+    )
+}
+
+// Ledger balance immediately before (date, id): the stored balance of the previous entry.
+// The entry `id` itself is skipped so an entry being moved never reads its own stale balance.
+export async function getBalanceBefore(db: Db, accountId: ObjectId, date: string, id: ObjectId) {
+  const previous = await db
+    .collection<EntryDoc>("entries")
+    .findOne(
+      { accountId, ...notVoided, _id: { $ne: id }, $or: [{ date: { $lt: date } }, { date, _id: { $lt: id } }] },
+      { sort: { date: -1, _id: -1 }, projection: { balance: 1 } },
+    )
+
+  return previous?.balance ?? 0
+}
+
+// Balance after every entry dated on or before asOf: the previous month's checkpoint plus this month so far
+export async function getBalanceAsOf(db: Db, accountId: ObjectId, asOf: string) {
+  const month = monthOf(asOf)
+  const checkpoint = await db
+    .collection<BalanceCheckpoint>("balance_checkpoints")
+    .findOne({ accountId, month: { $lt: month } }, { sort: { month: -1 } })
+
+  const [monthToDate] = await db
+    .collection<EntryDoc>("entries")
+    .aggregate([
+      { $match: { accountId, ...inBalance, date: { $gte: `${month}-01`, $lte: asOf } } },
+      { $group: { _id: null, total: { $sum: { $subtract: ["$credit", "$debit"] } } } },
+    ])
+    .toArray()
+
+  return (checkpoint?.closingBalance ?? 0) + (monthToDate?.total ?? 0)
+}
+
+// Effect of the account's pending entries dated on or before asOf
+export async function getPendingTotal(db: Db, accountId: ObjectId, asOf: string) {
+  const [pending] = await db
+    .collection<EntryDoc>("entries")
+    .aggregate([
+      { $match: { accountId, ...notVoided, ...pendingOnly, date: { $lte: asOf } } },
+      { $group: { _id: null, total: { $sum: { $subtract: ["$credit", "$debit"] } } } },
+    ])
+    .toArray()
+  return pending?.total ?? 0
+}
+
+// Recompute every stored balance and checkpoint of an account from scratch
+export async function rebuildBalances(db: Db, accountId: ObjectId) {
+  const entries = db.collection<EntryDoc>("entries")
+  const checkpoints = db.collection("balance_checkpoints")
+
+  const cursor = entries
+    .find({ accountId, ...notVoided }, { projection: { date: 1, debit: 1, credit: 1, status: 1 } })
+    .sort({ date: 1, _id: 1 })
+
+  const entryUpdates = []
+  const closingBalances = new Map<string, number>()
+  let runningBalance = 0
+  for await (const entry of cursor) {
+    runningBalance = runningBalance + entryDelta(entry)
+    entryUpdates.push({ updateOne: { filter: { _id: entry._id }, update: { $set: { balance: runningBalance } } } })
+    closingBalances.set(monthOf(entry.date), runningBalance)
+  }
+
+  if (entryUpdates.length > 0) {
+    await entries.bulkWrite(entryUpdates, { ordered: false })
+  }
+
+  await checkpoints.deleteMany({ accountId })
+  if (closingBalances.size > 0) {
+    await checkpoints.insertMany(
+      [...closingBalances].map(([month, closingBalance]) => ({
+        accountId,
+        month,
+        closingBalance,
+        updatedAt: new Date(),
+      })),
+    )
+  }
+}
+
+// Entries written before balances were persisted have no `balance`; rebuild the account once when any are found
+export async function ensureBalances(db: Db, accountId: ObjectId) {
+  await ensureBalanceIndexes(db)
+  const missing = await db
+    .collection<EntryDoc>("entries")
+    .findOne({ accountId, ...notVoided, balance: { $exists: false } })
+  if (missing) {
+    await rebuildBalances(db, accountId)
+  }
+}
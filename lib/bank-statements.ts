@@ -0,0 +1,284 @@
+// Parsers for the bank statement formats we receive: OFX (1.x SGML and 2.x XML), ISO 20022 CAMT.053
+// and SWIFT MT940. Each turns a file into the same list of booked lines; nothing here touches the database.
+
+export const BANK_STATEMENT_FORMATS = ["ofx", "camt053", "mt940"] as const
+
+export type BankStatementFormat = (typeof BANK_STATEMENT_FORMATS)[number]
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  ofx: "OFX",
+  camt053: "CAMT.053",
+  mt940: "MT940",
+}
+
+export interface BankLine {
+  date: string
+  // Positive for money received, negative for money paid out
+  amount: number
+  // Bank or end-to-end reference, used when matching against entry particulars
+  reference: string
+  description: string
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat
+  currency: string | null
+  openingBalance: number | null
+  closingBalance: number | null
+  lines: BankLine[]
+}
+
+function roundAmount(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function unescapeXml(text: string) {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+      if (entity[0] === "#") {
+        const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        return String.fromCodePoint(code)
+      }
+      return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity.toLowerCase()]!
+    })
+}
+
+function collapseSpaces(text: string) {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+// --- OFX ---
+
+// OFX 1.x leaves leaf elements unclosed (<TRNAMT>-12.50), so read a value up to the next tag or line break
+function ofxValue(block: string, tag: string) {
+  const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1]
+  return value === undefined ? "" : unescapeXml(value).trim()
+}
+
+// DTPOSTED is YYYYMMDD optionally followed by a time and timezone, which we drop
+function ofxDate(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : ""
+}
+
+function parseOfxAmount(value: string) {
+  // Some banks write the decimal separator as a comma
+  const amount = Number(value.replace(",", "."))
+  return Number.isFinite(amount) ? roundAmount(amount) : NaN
+}
+
+export function parseOfx(text: string): ParsedBankStatement {
+  const lines: BankLine[] = []
+  for (const match of text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+    const block = match[1]
+    const name = ofxValue(block, "NAME")
+    const memo = ofxValue(block, "MEMO")
+    lines.push({
+      date: ofxDate(ofxValue(block, "DTPOSTED")),
+      amount: parseOfxAmount(ofxValue(block, "TRNAMT")),
+      reference: ofxValue(block, "REFNUM") || ofxValue(block, "CHECKNUM") || ofxValue(block, "FITID"),
+      description: collapseSpaces([name, memo].filter(Boolean).join(" ")),
+    })
+  }
+
+  const ledgerBalance = text.match(/<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|$)/i)?.[1]
+  const closing = ledgerBalance ? parseOfxAmount(ofxValue(ledgerBalance, "BALAMT")) : NaN
+
+  return {
+    format: "ofx",
+    currency: ofxValue(text, "CURDEF").toUpperCase() || null,
+    openingBalance: null,
+    closingBalance: Number.isFinite(closing) ? closing : null,
+    lines,
+  }
+}
+
+// --- CAMT.053 ---
+
+// Elements may carry a namespace prefix (<ns2:Ntry>), so match the local name only
+function xmlElements(xml: string, name: string) {
+  return [...xml.matchAll(new RegExp(`<(?:\\w+:)?${name}\\b([^>]*)>([\\s\\S]*?)<\\/(?:\\w+:)?${name}>`, "g"))].map(
+    (match) => ({ attributes: match[1], content: match[2] }),
+  )
+}
+
+function xmlText(xml: string, ...path: string[]) {
+  let current = xml
+  for (const name of path) {
+    const element = xmlElements(current, name)[0]
+    if (!element) return ""
+    current = element.content
+  }
+  return collapseSpaces(unescapeXml(current.replace(/<[^>]+>/g, " ")))
+}
+
+function camtAmount(xml: string) {
+  const element = xmlElements(xml, "Amt")[0]
+  if (!element) return { amount: NaN, currency: null }
+  const amount = roundAmount(Number(element.content.trim()))
+  const sign = xmlText(xml, "CdtDbtInd") === "DBIT" ? -1 : 1
+  return {
+    amount: sign * amount,
+    currency: element.attributes.match(/Ccy="([A-Za-z]{3})"/)?.[1].toUpperCase() ?? null,
+  }
+}
+
+function camtBalance(statement: string, codes: string[]) {
+  for (const balance of xmlElements(statement, "Bal")) {
+    if (codes.includes(xmlText(balance.content, "Tp", "CdOrPrtry", "Cd"))) {
+      return camtAmount(balance.content).amount
+    }
+  }
+  return null
+}
+
+export function parseCamt053(text: string): ParsedBankStatement {
+  // A file may hold several statements; they are read as one list of lines
+  const statements = xmlElements(text, "Stmt").map((element) => element.content)
+  const lines: BankLine[] = []
+  let currency: string | null = null
+
+  for (const statement of statements) {
+    for (const entry of xmlElements(statement, "Ntry")) {
+      const xml = entry.content
+      // Only booked entries; pending ones may still change or disappear
+      const status = xmlText(xml, "Sts", "Cd") || xmlText(xml, "Sts")
+      if (status && status !== "BOOK") continue
+
+      const { amount, currency: entryCurrency } = camtAmount(xml)
+      currency ??= entryCurrency
+      const bookingDate = xmlText(xml, "BookgDt", "Dt") || xmlText(xml, "BookgDt", "DtTm") || xmlText(xml, "ValDt", "Dt")
+      // The other party is the creditor of money paid out and the debtor of money received
+      const counterparty = xmlText(xml, "RltdPties", amount < 0 ? "Cdtr" : "Dbtr", "Nm")
+      const remittance = xmlElements(xml, "Ustrd")
+        .map((element) => collapseSpaces(unescapeXml(element.content)))
+        .join(" ")
+      const endToEnd = xmlText(xml, "Refs", "EndToEndId")
+
+      lines.push({
+        date: bookingDate.slice(0, 10),
+        amount,
+        reference:
+          (endToEnd !== "NOTPROVIDED" && endToEnd) || xmlText(xml, "AcctSvcrRef") || xmlText(xml, "NtryRef"),
+        description: collapseSpaces(
+          [counterparty, remittance || xmlText(xml, "AddtlNtryInf")].filter(Boolean).join(" "),
+        ),
+      })
+    }
+  }
+
+  const first = statements[0] ?? ""
+  const last = statements[statements.length - 1] ?? ""
+  return {
+    format: "camt053",
+    currency: xmlText(first, "Acct", "Ccy").toUpperCase() || currency,
+    openingBalance: camtBalance(first, ["OPBD", "PRCD"]),
+    closingBalance: camtBalance(last, ["CLBD"]),
+    lines,
+  }
+}
+
+// --- MT940 ---
+
+// MT940 dates are YYMMDD; years before 80 are taken as 20xx
+function mt940Date(value: string) {
+  const year = Number(value.slice(0, 2))
+  return `${year < 80 ? 2000 + year : 1900 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}`
+}
+
+function mt940Amount(value: string) {
+  return roundAmount(Number(value.replace(",", ".")))
+}
+
+// Split the message into (tag, value) fields; a value runs over continuation lines until the next tag
+function mt940Fields(text: string) {
+  const fields: { tag: string; value: string }[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (match) fields.push({ tag: match[1], value: match[2] })
+    else if (fields.length > 0 && line.trim() !== "" && !/^-\}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+  return fields
+}
+
+// :60F:/:62F: balances are C or D, YYMMDD, currency, amount
+function mt940Balance(value: string) {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/)
+  if (!match) return null
+  return { amount: (match[1] === "D" ? -1 : 1) * mt940Amount(match[4]), currency: match[3] }
+}
+
+// :86: usually carries structured subfields (?20 to ?29 remittance text, ?32/?33 counterparty name)
+function mt940Description(value: string) {
+  const flat = value.replace(/\r?\n/g, "")
+  if (!/\?\d{2}/.test(flat)) return collapseSpaces(flat)
+
+  const subfields = [...flat.matchAll(/\?(\d{2})([^?]*)/g)]
+  const text = (codes: (code: number) => boolean) =>
+    subfields
+      .filter((match) => codes(Number(match[1])))
+      .map((match) => match[2])
+      .join("")
+  return collapseSpaces(`${text((code) => code === 32 || code === 33)} ${text((code) => code >= 20 && code <= 29)}`)
+}
+
+export function parseMt940(text: string): ParsedBankStatement {
+  const lines: BankLine[] = []
+  let currency: string | null = null
+  let openingBalance: number | null = null
+  let closingBalance: number | null = null
+
+  for (const { tag, value } of mt940Fields(text)) {
+    if (tag === "60F" || tag === "60M") {
+      const balance = mt940Balance(value)
+      currency ??= balance?.currency ?? null
+      // The first opening balance of the file opens the statement; later ones are intermediate pages
+      if (openingBalance === null && balance) openingBalance = balance.amount
+    } else if (tag === "62F" || tag === "62M") {
+      closingBalance = mt940Balance(value)?.amount ?? closingBalance
+    } else if (tag === "61") {
+      // Value date, optional entry date, mark (RC/RD reverse a credit/debit), optional funds code,
+      // amount, transaction type, customer reference, optional //bank reference, optional extra line
+      const match = value.match(
+        /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})([^\n/]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/,
+      )
+      if (!match) {
+        lines.push({ date: "", amount: NaN, reference: "", description: collapseSpaces(value) })
+        continue
+      }
+      const [, valueDate, , mark, , amount, , customerReference, bankReference = "", supplementary = ""] = match
+      const sign = mark === "C" || mark === "RD" ? 1 : -1
+      const reference = customerReference.trim()
+      lines.push({
+        date: mt940Date(valueDate),
+        amount: sign * mt940Amount(amount),
+        reference: reference && reference !== "NONREF" ? reference : bankReference.trim(),
+        description: collapseSpaces(supplementary),
+      })
+    } else if (tag === "86" && lines.length > 0) {
+      const line = lines[lines.length - 1]
+      line.description = collapseSpaces(`${mt940Description(value)} ${line.description}`)
+    }
+  }
+
+  return { format: "mt940", currency, openingBalance, closingBalance, lines }
+}
+
+export function detectBankStatementFormat(text: string): BankStatementFormat | null {
+  if (/OFXHEADER|<OFX>/i.test(text)) return "ofx"
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(text)) return "camt053"
+  if (/^:20:/m.test(text) && /^:61:/m.test(text)) return "mt940"
+  return null
+}
+
+// Parse a statement file in any supported format. Returns null when the format is not recognized.
+export function parseBankStatement(text: string): ParsedBankStatement | null {
+  const format = detectBankStatementFormat(text)
+  if (format === "ofx") return parseOfx(text)
+  if (format === "camt053") return parseCamt053(text)
+  if (format === "mt940") return parseMt940(text)
+  return null
+}
@@ -0,0 +1,133 @@
+import { z } from "zod"
+import { amount, currencyCode, isoDate } from "@/lib/entry-schema"
+import type { AccountType } from "@/lib/accounts"
+
+// The chart of accounts behind the double-entry journal. Party accounts (customers, agents, others) keep
+// their single-sided statements; every statement entry is also posted to the journal against a control
+// account for the party's type and a counter account such as cash in hand or bank. Nothing here touches
+// the database so the ledger screens and the entry form can use it in the browser.
+
+export const LEDGER_ACCOUNT_TYPES = ["asset", "liability", "equity", "income", "expense"] as const
+
+export type LedgerAccountType = (typeof LEDGER_ACCOUNT_TYPES)[number]
+
+export const LEDGER_ACCOUNT_TYPE_LABELS: Record<LedgerAccountType, string> = {
+  asset: "Asset",
+  liability: "Liability",
+  equity: "Equity",
+  income: "Income",
+  expense: "Expense",
+}
+
+// Accounts every organization's chart starts with, referred to in code by their key
+export const SYSTEM_LEDGER_ACCOUNTS = [
+  { key: "cash", code: "1000", name: "Cash in Hand", type: "asset" },
+  { key: "bank", code: "1100", name: "Bank", type: "asset" },
+  { key: "receivables", code: "1200", name: "Customer Receivables", type: "asset" },
+  { key: "payables", code: "2000", name: "Agent Payables", type: "liability" },
+  { key: "otherParties", code: "2100", name: "Other Party Balances", type: "liability" },
+  { key: "agentClearing", code: "2200", name: "Agent Settlement Clearing", type: "liability" },
+  { key: "agentPending", code: "2300", name: "Pending Agent Transfers", type: "liability" },
+  { key: "equity", code: "3000", name: "Owner's Equity", type: "equity" },
+  { key: "income", code: "4000", name: "Commission Income", type: "income" },
+  { key: "expenses", code: "5000", name: "Operating Expenses", type: "expense" },
+] as const satisfies readonly { key: string; code: string; name: string; type: LedgerAccountType }[]
+
+export type SystemLedgerKey = (typeof SYSTEM_LEDGER_ACCOUNTS)[number]["key"]
+
+// Counter account of statement entries that do not name one
+export const DEFAULT_COUNTER_KEY: SystemLedgerKey = "cash"
+
+// Control account holding the statement balances of each party type. Only statement entries post to
+// control accounts, so a party's lines there always add up to its statement.
+export const PARTY_CONTROL_ACCOUNTS: Record<AccountType, SystemLedgerKey> = {
+  customer: "receivables",
+  agent: "payables",
+  other: "otherParties",
+}
+
+// Counter account of entries paid out or collected by a partner agent. Agent settlements clear it, so its
+// balance per currency is what the organization owes its agents (credit) or is owed by them (debit).
+export const AGENT_CLEARING_KEY: SystemLedgerKey = "agentClearing"
+
+// Counter account of agent transfers not yet paid out. They move to the clearing account once paid out,
+// so the clearing account matches the agent positions, which only count paid-out transfers.
+export const AGENT_PENDING_KEY: SystemLedgerKey = "agentPending"
+
+// Accounts whose balance is kept by a sub-ledger (party statements, agent positions) rather than posted by hand
+const CONTROL_KEYS: readonly SystemLedgerKey[] = [
+  ...Object.values(PARTY_CONTROL_ACCOUNTS),
+  AGENT_CLEARING_KEY,
+  AGENT_PENDING_KEY,
+]
+
+export interface LedgerAccount {
+  id: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  // Set on the system accounts created with the chart
+  key: SystemLedgerKey | null
+  archived: boolean
+}
+
+export function isControlAccount(account: { key?: string | null }) {
+  return CONTROL_KEYS.includes(account.key as SystemLedgerKey)
+}
+
+// Ledger accounts a statement entry or a manual journal line may post to
+export function isPostingAccount(account: { key?: string | null; archived?: boolean }) {
+  return !account.archived && !isControlAccount(account)
+}
+
+// Journal amounts are compared to the cent
+export const BALANCE_TOLERANCE = 0.005
+
+export const ledgerAccountSchema = z.object({
+  code: z
+    .string({ required_error: "Code is required" })
+    .trim()
+    .regex(/^\d{3,6}$/, "Code must be 3 to 6 digits"),
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be at most 100 characters"),
+  type: z.enum(LEDGER_ACCOUNT_TYPES, { errorMap: () => ({ message: "Choose a type" }) }),
+})
+
+export type LedgerAccountInput = z.output<typeof ledgerAccountSchema>
+
+export const journalLineSchema = z
+  .object({
+    ledgerAccountId: z.string({ required_error: "Choose an account" }).regex(/^[a-f\d]{24}$/i, "Choose an account"),
+    debit: amount,
+    credit: amount,
+  })
+  .refine((line) => (line.debit > 0) !== (line.credit > 0), {
+    message: "Enter either a debit or a credit",
+    path: ["debit"],
+  })
+
+// Body of a manual journal entry; statement entries are posted to the journal on their own
+export const journalEntrySchema = z
+  .object({
+    date: isoDate,
+    memo: z
+      .string({ required_error: "Memo is required" })
+      .trim()
+      .min(1, "Memo is required")
+      .max(200, "Memo must be at most 200 characters"),
+    currency: currencyCode.refine((code) => code !== undefined, "Currency is required"),
+    lines: z.array(journalLineSchema).min(2, "A journal entry needs at least two lines"),
+  })
+  .refine(
+    (entry) => {
+      const debit = entry.lines.reduce((sum, line) => sum + line.debit, 0)
+      const credit = entry.lines.reduce((sum, line) => sum + line.credit, 0)
+      return Math.abs(debit - credit) < BALANCE_TOLERANCE
+    },
+    { message: "Debits and credits must balance", path: ["lines"] },
+  )
+
+export type JournalEntryInput = z.output<typeof journalEntrySchema>
@@ -0,0 +1,301 @@
+import { z } from "zod"
+import { ObjectId, type Db, type WithId } from "mongodb"
+import { entryDelta, inBalance, notVoided } from "@/lib/balances"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { optionalText } from "@/lib/entry-schema"
+import { escapeRegex, type EntryDoc } from "@/lib/entries"
+import { recordEntryEvents, type AuditContext } from "@/lib/audit"
+import { getLockDate, isLocked } from "@/lib/periods"
+import type { AccountDoc } from "@/lib/accounts"
+
+export interface Contact {
+  _id?: string
+  id?: string
+  name: string
+  phone?: string | null
+  country?: string | null
+  idDocumentNumber?: string | null
+  notes?: string | null
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// A contact as stored
+export interface ContactDoc {
+  organizationId: ObjectId
+  name: string
+  phone?: string | null
+  country?: string | null
+  idDocumentNumber?: string | null
+  notes?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const contactSchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name is required")
+    .max(200, "Name must be at most 200 characters"),
+  phone: optionalText(40),
+  country: optionalText(80),
+  idDocumentNumber: optionalText(80),
+  notes: optionalText(1000),
+})
+
+export type ContactInput = z.output<typeof contactSchema>
+
+export const CONTACT_SEARCH_LIMIT = 20
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureContactIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = Promise.all([
+      db.collection<ContactDoc>("contacts").createIndex({ organizationId: 1, name: 1 }),
+      db.collection<EntryDoc>("entries").createIndex({ contactId: 1 }, { sparse: true }),
+    ])
+  }
+  return indexReady
+}
+
+export function serializeContact({ _id, organizationId, ...contact }: WithId<ContactDoc>): Contact {
+  return { ...contact, id: _id.toString() }
+}
+
+// Collapse case and whitespace so "Ali", "ali " and "ALI" compare equal
+export function normalizeName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+export async function findContact(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<ContactDoc>("contacts").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// Contacts whose name, phone or ID document number contains `search`, by name
+export async function searchContacts(db: Db, organizationId: ObjectId, search: string, limit = CONTACT_SEARCH_LIMIT) {
+  const pattern = { $regex: escapeRegex(search.trim()), $options: "i" }
+  const contacts = await db
+    .collection<ContactDoc>("contacts")
+    .find({
+      organizationId,
+      ...(search.trim() && { $or: [{ name: pattern }, { phone: pattern }, { idDocumentNumber: pattern }] }),
+    })
+    .sort({ name: 1 })
+    .limit(limit)
+    .toArray()
+  return contacts.map(serializeContact)
+}
+
+export interface ParticularsGroup {
+  // Normalized form shared by every spelling in the group
+  key: string
+  variants: { particulars: string; count: number }[]
+  count: number
+}
+
+// Particulars of entries not yet linked to a contact, grouped by their normalized spelling, largest first
+export async function listUnlinkedParticulars(db: Db, organizationId: ObjectId): Promise<ParticularsGroup[]> {
+  const rows = await db
+    .collection<EntryDoc>("entries")
+    .aggregate<{ _id: string; count: number }>([
+      { $match: { organizationId, ...notVoided, contactId: null } },
+      { $group: { _id: "$particulars", count: { $sum: 1 } } },
+    ])
+    .toArray()
+
+  const groups = new Map<string, ParticularsGroup>()
+  for (const row of rows) {
+    const key = normalizeName(row._id)
+    const group = groups.get(key) ?? { key, variants: [], count: 0 }
+    group.variants.push({ particulars: row._id, count: row.count })
+    group.count += row.count
+    groups.set(key, group)
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+}
+
+export const mergeSchema = z.object({
+  targetId: z.string({ required_error: "Choose a contact" }).regex(/^[a-f\d]{24}$/i, "Choose a contact"),
+  // Exact particulars strings whose unlinked entries should point at the target
+  particulars: z.array(z.string()).default([]),
+  // Duplicate contacts folded into the target and then deleted
+  contactIds: z.array(z.string().regex(/^[a-f\d]{24}$/i)).default([]),
+})
+
+// Link entries by particulars and fold duplicate contacts into `target`, recording an update event per entry.
+// Entries in the locked period keep their contact, and a duplicate still linked to one of them is kept.
+export async function mergeIntoContact(
+  db: Db,
+  organizationId: ObjectId,
+  target: { _id: ObjectId },
+  particulars: string[],
+  contactIds: string[],
+  context: AuditContext,
+) {
+  const entries = db.collection<EntryDoc>("entries")
+  const duplicates = contactIds.map((id) => new ObjectId(id)).filter((id) => !id.equals(target._id))
+
+  const conditions: Record<string, unknown>[] = []
+  if (particulars.length > 0) conditions.push({ contactId: null, particulars: { $in: particulars } })
+  if (duplicates.length > 0) conditions.push({ contactId: { $in: duplicates } })
+  if (conditions.length === 0) return { linked: 0, skipped: 0 }
+
+  const lockDate = await getLockDate(db, organizationId)
+  const matching = await entries.find({ organizationId, $or: conditions }).toArray()
+  const locked = matching.filter((entry) => lockDate && isLocked(entry.date, lockDate))
+  const moving = matching.filter((entry) => !locked.includes(entry))
+
+  if (moving.length > 0) {
+    const updatedAt = new Date()
+    await entries.updateMany(
+      { _id: { $in: moving.map((entry) => entry._id) } },
+      { $set: { contactId: target._id, updatedAt } },
+    )
+    await recordEntryEvents(
+      db,
+      organizationId,
+      "update",
+      moving.map((entry) => ({ before: entry, after: { ...entry, contactId: target._id, updatedAt } })),
+      context,
+    )
+  }
+
+  const keep = new Set(locked.map((entry) => entry.contactId?.toString()))
+  const removable = duplicates.filter((id) => !keep.has(id.toString()))
+  if (removable.length > 0) {
+    await db.collection<ContactDoc>("contacts").deleteMany({ organizationId, _id: { $in: removable } })
+  }
+
+  return { linked: moving.length, skipped: locked.length }
+}
+
+export interface ContactStatementRow {
+  id: string
+  accountId: string
+  accountName: string
+  baseCurrency: string
+  date: string
+  particulars: string
+  debitCountry: number
+  debit: number
+  creditCountry: number
+  credit: number
+  countryCurrency: string | null
+  exchangeRate: number | null
+  // The party's own running balance in the account's base currency, across every account they appear in
+  balance: number
+}
+
+export interface ContactCurrencyTotal {
+  currency: string
+  // Local columns: opening and closing balance of the party in this base currency
+  openingBalance: number
+  debit: number
+  credit: number
+  closingBalance: number
+}
+
+export interface ContactCountryTotal {
+  currency: string
+  debitCountry: number
+  debit: number
+  creditCountry: number
+  credit: number
+}
+
+export interface ContactStatement {
+  rows: ContactStatementRow[]
+  totals: ContactCurrencyTotal[]
+  countryTotals: ContactCountryTotal[]
+  // Date of the party's latest entry, regardless of the requested range
+  lastActivity: string | null
+}
+
+// Entries linked to a contact in (date, _id) order with the party's running balance per base currency.
+// Balances are computed here rather than read from `entry.balance`, which belongs to the whole account.
+// Cancelled and refunded transfers are left out, as they no longer move money for the party.
+export async function buildContactStatement(
+  db: Db,
+  organizationId: ObjectId,
+  contactId: ObjectId,
+  { startDate, endDate }: { startDate?: string; endDate?: string },
+): Promise<ContactStatement> {
+  const match = { organizationId, contactId, ...inBalance }
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({ ...match, ...(endDate && { date: { $lte: endDate } }) })
+    .sort({ date: 1, _id: 1 })
+    .toArray()
+
+  const accountIds = [...new Set(entries.map((entry) => entry.accountId.toString()))].map((id) => new ObjectId(id))
+  const accounts = await db
+    .collection<AccountDoc>("accounts")
+    .find({ organizationId, _id: { $in: accountIds } }, { projection: { name: 1, baseCurrency: 1 } })
+    .toArray()
+  const accountById = new Map(accounts.map((account) => [account._id.toString(), account]))
+
+  const totals = new Map<string, ContactCurrencyTotal>()
+  const countryTotals = new Map<string, ContactCountryTotal>()
+  const rows: ContactStatementRow[] = []
+
+  for (const entry of entries) {
+    const account = accountById.get(entry.accountId.toString())
+    const currency = account?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const total = totals.get(currency) ?? { currency, openingBalance: 0, debit: 0, credit: 0, closingBalance: 0 }
+    totals.set(currency, total)
+    total.closingBalance += entryDelta(entry)
+
+    // Entries before the range only carry the opening balance forward
+    if (startDate && entry.date < startDate) {
+      total.openingBalance = total.closingBalance
+      continue
+    }
+
+    total.debit += entry.debit
+    total.credit += entry.credit
+    if (entry.countryCurrency) {
+      const country = countryTotals.get(entry.countryCurrency) ?? {
+        currency: entry.countryCurrency,
+        debitCountry: 0,
+        debit: 0,
+        creditCountry: 0,
+        credit: 0,
+      }
+      country.debitCountry += entry.debitCountry
+      country.debit += entry.debit
+      country.creditCountry += entry.creditCountry
+      country.credit += entry.credit
+      countryTotals.set(entry.countryCurrency, country)
+    }
+
+    rows.push({
+      id: entry._id.toString(),
+      accountId: entry.accountId.toString(),
+      accountName: account?.name ?? "",
+      baseCurrency: currency,
+      date: entry.date,
+      particulars: entry.particulars,
+      debitCountry: entry.debitCountry,
+      debit: entry.debit,
+      creditCountry: entry.creditCountry,
+      credit: entry.credit,
+      countryCurrency: entry.countryCurrency || null,
+      exchangeRate: entry.exchangeRate ?? null,
+      balance: total.closingBalance,
+    })
+  }
+
+  const latest = await db
+    .collection<EntryDoc>("entries")
+    .findOne(match, { sort: { date: -1 }, projection: { date: 1 } })
+
+  return {
+    rows,
+    totals: [...totals.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+    countryTotals: [...countryTotals.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+    lastActivity: latest?.date ?? null,
+  }
+}
@@ -0,0 +1,61 @@
+// Minimal RFC 4180 reader: quoted fields may contain the delimiter, doubled quotes and line breaks.
+// Blank lines are skipped and a leading UTF-8 BOM is ignored.
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    field = ""
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow()
+  return rows
+}
+
+// A spreadsheet runs a cell starting with one of these as a formula, the tab and carriage return included
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+// Amounts already formatted as text, e.g. "-12.50" or "-12,50", which are safe to leave as they are
+const FORMATTED_NUMBER = /^[-+]?\d+([.,]\d+)?$/
+
+// RFC 4180 writer: fields containing the delimiter, a quote or a line break are quoted with quotes doubled,
+// and records end in CRLF. Text that a spreadsheet would run as a formula, such as particulars typed as
+// "=HYPERLINK(...)", is prefixed with an apostrophe so it opens as plain text.
+export function formatCsv(rows: (string | number | null | undefined)[][], delimiter = ",") {
+  const escape = (value: string | number | null | undefined) => {
+    let text = value == null ? "" : String(value)
+    if (typeof value === "string" && FORMULA_PREFIX.test(text) && !FORMATTED_NUMBER.test(text)) text = `'${text}`
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  return rows.map((row) => row.map(escape).join(delimiter) + "\r\n").join("")
+}
@@ -0,0 +1,39 @@
+export const DEFAULT_BASE_CURRENCY = "USD"
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+
+export function isCurrencyCode(value: unknown): value is string {
+  if (typeof value !== "string" || !CURRENCY_CODE_PATTERN.test(value)) return false
+  try {
+    new Intl.NumberFormat("en", { style: "currency", currency: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+// Format an amount with its currency symbol; amounts without a known currency fall back to plain grouping
+export function formatMoney(amount: number, currency?: string | null) {
+  if (!currency) return amount.toLocaleString()
+
+  let formatter = formatters.get(currency)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: "currency", currency })
+    formatters.set(currency, formatter)
+  }
+  return formatter.format(amount)
+}
+
+// Local (base currency) units paid per one unit of the country currency, taken from whichever side is filled in.
+// Null when the entry has no country amount to compare against.
+export function impliedExchangeRate(entry: { debitCountry: number; debit: number; creditCountry: number; credit: number }) {
+  if (entry.debitCountry > 0 && entry.debit > 0) return entry.debit / entry.debitCountry
+  if (entry.creditCountry > 0 && entry.credit > 0) return entry.credit / entry.creditCountry
+  return null
+}
+
+export function formatRate(rate: number | null | undefined) {
+  return rate ? rate.toLocaleString(undefined, { maximumFractionDigits: 6 }) : "-"
+}
@@ -0,0 +1,771 @@
+import { ObjectId, type Db } from "mongodb"
+import { PARTY_FIELDS, type EntryFieldErrors, type EntryInput, type PayoutMethod } from "@/lib/entry-schema"
+import { DEFAULT_BASE_CURRENCY, impliedExchangeRate } from "@/lib/currency"
+import { findEffectiveRate, type AppliedRate } from "@/lib/rates"
+import {
+  ensureBalances,
+  entryDelta,
+  getBalanceAsOf,
+  getBalanceBefore,
+  getPendingTotal,
+  inBalance,
+  notVoided,
+  pendingOnly,
+  previousDay,
+  rebuildBalances,
+  shiftBalancesAfter,
+} from "@/lib/balances"
+import { recordCreateEvents, recordEntryEvent, type AuditActor, type AuditContext } from "@/lib/audit"
+import { deleteEntryJournal, findPostingAccount, syncEntryJournal, syncEntryJournals } from "@/lib/ledger"
+import { agentFieldError } from "@/lib/agents"
+import { findContact } from "@/lib/contacts"
+import { getLockDate, isLocked, periodLockedMessage } from "@/lib/periods"
+import { reserveReferences } from "@/lib/references"
+import {
+  DEFAULT_TRANSFER_STATUS,
+  countsInBalance,
+  isTransferStatus,
+  type TransferStatus,
+  type TransferStatusChange,
+} from "@/lib/transfer-status"
+import type { AccountDoc } from "@/lib/accounts"
+
+export interface AccountEntry {
+  _id?: string
+  id?: string
+  accountId: string
+  // Unique per organization, printed on the receipt; see lib/references
+  reference?: string | null
+  date: string
+  particulars: string
+  debitCountry: number
+  debit: number
+  creditCountry: number
+  credit: number
+  countryCurrency?: string | null
+  exchangeRate: number | null
+  // Reference rate from the rate table on the entry date, kept for audit
+  appliedRate?: AppliedRate | null
+  balance: number
+  // Set while the entry is in the trash
+  voided?: EntryVoid | null
+  // Links between an entry and the counter-entry that reverses it
+  reversalOf?: string | null
+  reversedBy?: string | null
+  contactId?: string | null
+  // Ledger account on the other side of the entry's journal entry; cash in hand when null
+  counterAccountId?: string | null
+  // Set once the entry is matched to a line of an imported bank statement
+  reconciled?: EntryReconciliation | null
+  // Partner agent who paid out or collected the transfer; the entry counts toward the agent's position
+  agentId?: string | null
+  // Set once the transfer is cleared by a settlement with its agent
+  settlement?: EntrySettlement | null
+  status?: TransferStatus
+  // Sender and beneficiary of the transfer as given at the counter; particulars stays the statement label
+  senderName?: string | null
+  senderPhone?: string | null
+  senderIdNumber?: string | null
+  beneficiaryName?: string | null
+  beneficiaryPhone?: string | null
+  beneficiaryIdNumber?: string | null
+  beneficiaryCountry?: string | null
+  payoutMethod?: PayoutMethod | null
+  // Every status the entry has been in, oldest first, starting with the one it was created in
+  statusHistory?: TransferStatusChange[]
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export interface EntryVoid {
+  at: Date
+  reason: string
+  actor: AuditActor
+}
+
+export interface EntryReconciliation {
+  bankLineId: string
+  at: Date
+}
+
+export interface EntrySettlement {
+  settlementId: string
+  at: Date
+}
+
+// An entry as stored: links are ObjectIds, and entries written before statuses existed have no status
+export interface EntryDoc
+  extends Omit<
+    AccountEntry,
+    | "_id"
+    | "id"
+    | "accountId"
+    | "exchangeRate"
+    | "reversalOf"
+    | "reversedBy"
+    | "contactId"
+    | "counterAccountId"
+    | "reconciled"
+    | "agentId"
+    | "settlement"
+    | "status"
+    | "statusHistory"
+  > {
+  _id: ObjectId
+  organizationId: ObjectId
+  accountId: ObjectId
+  exchangeRate?: number | null
+  reversalOf?: ObjectId | null
+  reversedBy?: ObjectId | null
+  contactId?: ObjectId | null
+  counterAccountId?: ObjectId | null
+  reconciled?: { bankLineId: ObjectId; at: Date } | null
+  agentId?: ObjectId | null
+  settlement?: { settlementId: ObjectId; at: Date } | null
+  status?: TransferStatus | null
+  statusHistory?: (Omit<TransferStatusChange, "actor"> & { actor: AuditActor })[]
+}
+
+export function serializeEntry(entry: EntryDoc): AccountEntry {
+  const { _id, organizationId, ...fields } = entry
+  return {
+    ...fields,
+    id: _id.toString(),
+    accountId: entry.accountId.toString(),
+    reference: entry.reference ?? null,
+    exchangeRate: entry.exchangeRate ?? null,
+    reversalOf: entry.reversalOf?.toString() ?? null,
+    reversedBy: entry.reversedBy?.toString() ?? null,
+    contactId: entry.contactId?.toString() ?? null,
+    counterAccountId: entry.counterAccountId?.toString() ?? null,
+    reconciled: entry.reconciled ? { ...entry.reconciled, bankLineId: entry.reconciled.bankLineId.toString() } : null,
+    agentId: entry.agentId?.toString() ?? null,
+    settlement: entry.settlement
+      ? { ...entry.settlement, settlementId: entry.settlement.settlementId.toString() }
+      : null,
+    status: entry.status ?? DEFAULT_TRANSFER_STATUS,
+    statusHistory: (entry.statusHistory ?? []).map((change) => ({
+      ...change,
+      actor: { ...change.actor, userId: change.actor.userId.toString() },
+    })),
+  }
+}
+
+export const ENTRY_SORT_FIELDS = ["date", "particulars", "debit", "credit", "createdAt"] as const
+
+export type EntrySortField = (typeof ENTRY_SORT_FIELDS)[number]
+
+export interface EntryQuery {
+  particulars?: string
+  startDate?: string
+  endDate?: string
+  minAmount?: number
+  maxAmount?: number
+  status?: TransferStatus
+  // Show running balances without pending transfers; the stored balances include them
+  excludePending?: boolean
+  sort: EntrySortField
+  order: "asc" | "desc"
+  limit: number
+  cursor?: EntryCursor
+}
+
+export interface EntryPage {
+  entries: AccountEntry[]
+  nextCursor: string | null
+  openingBalance: number
+}
+
+interface EntryCursor {
+  value: unknown
+  id: string
+}
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 500
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function encodeCursor(cursor: EntryCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+export function decodeCursor(token: string): EntryCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"))
+    return cursor && ObjectId.isValid(cursor.id) ? cursor : null
+  } catch {
+    return null
+  }
+}
+
+// Parse the list query string. Returns an error message instead of throwing so route handlers can answer 400.
+export function parseEntryQuery(params: URLSearchParams): EntryQuery | { error: string } {
+  const query: EntryQuery = { sort: "date", order: "asc", limit: DEFAULT_PAGE_SIZE }
+
+  const particulars = params.get("particulars")?.trim()
+  if (particulars) query.particulars = particulars
+
+  for (const key of ["startDate", "endDate"] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    if (!DATE_PATTERN.test(value)) return { error: `${key} must be YYYY-MM-DD` }
+    query[key] = value
+  }
+
+  for (const key of ["minAmount", "maxAmount"] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    const amount = Number(value)
+    if (!Number.isFinite(amount)) return { error: `${key} must be a number` }
+    query[key] = amount
+  }
+
+  const status = params.get("status")
+  if (status) {
+    if (!isTransferStatus(status)) return { error: "Invalid status" }
+    query.status = status
+  }
+
+  const pending = params.get("pending")
+  if (pending) {
+    if (pending !== "include" && pending !== "exclude") return { error: "pending must be include or exclude" }
+    query.excludePending = pending === "exclude"
+  }
+
+  const sort = params.get("sort")
+  if (sort) {
+    if (!(ENTRY_SORT_FIELDS as readonly string[]).includes(sort)) return { error: "Invalid sort field" }
+    query.sort = sort as EntrySortField
+  }
+
+  const order = params.get("order")
+  if (order) {
+    if (order !== "asc" && order !== "desc") return { error: "order must be asc or desc" }
+    query.order = order
+  }
+
+  const limit = params.get("limit")
+  if (limit) {
+    const size = Number(limit)
+    if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }
+    }
+    query.limit = size
+  }
+
+  const cursor = params.get("cursor")
+  if (cursor) {
+    const decoded = decodeCursor(cursor)
+    if (!decoded) return { error: "Invalid cursor" }
+    query.cursor = decoded
+  }
+
+  return query
+}
+
+function buildEntryFilter(accountId: string, query: EntryQuery) {
+  const conditions: Record<string, unknown>[] = [{ accountId: new ObjectId(accountId) }, notVoided]
+
+  // The particulars filter is the statement's search box, so it also finds a transfer by its reference
+  // or by the sender's and beneficiary's names, phone numbers and ID numbers
+  if (query.particulars) {
+    const pattern = { $regex: escapeRegex(query.particulars), $options: "i" }
+    conditions.push({
+      $or: ["particulars", "reference", ...PARTY_FIELDS.filter((field) => field !== "payoutMethod")].map(
+        (field) => ({ [field]: pattern }),
+      ),
+    })
+  }
+  if (query.startDate || query.endDate) {
+    conditions.push({
+      date: {
+        ...(query.startDate && { $gte: query.startDate }),
+        ...(query.endDate && { $lte: query.endDate }),
+      },
+    })
+  }
+  if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+    const range = {
+      ...(query.minAmount !== undefined && { $gte: query.minAmount }),
+      ...(query.maxAmount !== undefined && { $lte: query.maxAmount }),
+    }
+    conditions.push({ $or: [{ debit: range }, { credit: range }] })
+  }
+  if (query.status) {
+    // Entries from before statuses existed have none and count as paid out
+    conditions.push({
+      status: query.status === DEFAULT_TRANSFER_STATUS ? { $in: [null, DEFAULT_TRANSFER_STATUS] } : query.status,
+    })
+  }
+  if (query.cursor) {
+    const op = query.order === "asc" ? "$gt" : "$lt"
+    const value = query.sort === "createdAt" ? new Date(query.cursor.value as string) : query.cursor.value
+    const id = new ObjectId(query.cursor.id)
+    conditions.push({ $or: [{ [query.sort]: { [op]: value } }, { [query.sort]: value, _id: { [op]: id } }] })
+  }
+
+  return { $and: conditions }
+}
+
+// Fetch one page of an account's entries with filters, sort and cursor applied. Each row carries its
+// stored ledger balance; openingBalance is the balance before the page's chronologically earliest row.
+export async function listAccountEntries(db: Db, accountId: string, query: EntryQuery): Promise<EntryPage> {
+  const accountObjectId = new ObjectId(accountId)
+  await ensureBalances(db, accountObjectId)
+
+  const direction = query.order === "asc" ? 1 : -1
+  const rows = await db
+    .collection<EntryDoc>("entries")
+    .find(buildEntryFilter(accountId, query))
+    .sort({ [query.sort]: direction, _id: direction })
+    .limit(query.limit + 1)
+    .toArray()
+
+  const hasMore = rows.length > query.limit
+  const page = hasMore ? rows.slice(0, query.limit) : rows
+
+  let openingBalance = 0
+  if (page.length > 0) {
+    const first = page.reduce((earliest, row) =>
+      row.date < earliest.date || (row.date === earliest.date && row._id.toString() < earliest._id.toString())
+        ? row
+        : earliest,
+    )
+    openingBalance = await getBalanceBefore(db, accountObjectId, first.date, first._id)
+  } else if (query.startDate) {
+    // A period without entries still opens where the previous one closed
+    openingBalance = await getBalanceAsOf(db, accountObjectId, previousDay(query.startDate))
+  }
+
+  if (query.excludePending) {
+    openingBalance = await withoutPending(db, accountObjectId, page, openingBalance, query.startDate)
+  }
+
+  const lastRow = page[page.length - 1]
+  return {
+    entries: page.map(serializeEntry),
+    nextCursor: hasMore ? encodeCursor({ value: lastRow[query.sort], id: lastRow._id.toString() }) : null,
+    openingBalance,
+  }
+}
+
+// Take pending transfers out of a page's running balances (in place) and out of its opening balance, which
+// is returned. Pending transfers are few, so they are read once and summed per row.
+async function withoutPending(
+  db: Db,
+  accountId: ObjectId,
+  page: EntryDoc[],
+  openingBalance: number,
+  startDate: string | undefined,
+) {
+  const pending = await db
+    .collection<EntryDoc>("entries")
+    .find({ accountId, ...notVoided, ...pendingOnly }, { projection: { date: 1, debit: 1, credit: 1 } })
+    .toArray()
+  if (pending.length === 0) return openingBalance
+
+  // Effect of the pending entries at or before (date, id), or strictly before it
+  const pendingThrough = (date: string, id: string, inclusive: boolean) =>
+    pending
+      .filter((entry) => {
+        const entryId = entry._id.toString()
+        return entry.date < date || (entry.date === date && (inclusive ? entryId <= id : entryId < id))
+      })
+      .reduce((sum, entry) => sum + entryDelta(entry), 0)
+
+  for (const row of page) {
+    row.balance -= pendingThrough(row.date, row._id.toString(), true)
+  }
+
+  if (page.length > 0) {
+    const first = page.reduce((earliest, row) =>
+      row.date < earliest.date || (row.date === earliest.date && row._id.toString() < earliest._id.toString())
+        ? row
+        : earliest,
+    )
+    return openingBalance - pendingThrough(first.date, first._id.toString(), false)
+  }
+  return startDate ? openingBalance - (await getPendingTotal(db, accountId, previousDay(startDate))) : openingBalance
+}
+
+// Reference rate from the country currency to the account's base currency on the entry date
+async function lookupAppliedRate(db: Db, organizationId: ObjectId, accountId: ObjectId, fields: EntryInput) {
+  if (!fields.countryCurrency) return null
+
+  const account = await db
+    .collection<AccountDoc>("accounts")
+    .findOne({ _id: accountId }, { projection: { baseCurrency: 1 } })
+  const baseCurrency = account?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+  return findEffectiveRate(db, organizationId, fields.countryCurrency, baseCurrency, fields.date)
+}
+
+// A settled transfer is part of a payment already made to or received from its agent
+export const SETTLED_MESSAGE = "The entry is cleared by an agent settlement; undo the settlement before changing it"
+
+// A reversal pair only cancels out while both halves keep their amounts; moving the reversal to the trash
+// undoes it and frees the original again
+export const REVERSED_MESSAGE = "The entry is part of a reversal; move the reversal to the trash before changing it"
+
+// Why an entry cannot be written as given: a 400 with per-field errors or a 409 for the period lock
+export interface EntryRefsError {
+  status: 400 | 409
+  body: { error: string; fieldErrors?: EntryFieldErrors }
+}
+
+// Checks shared by every route that creates or updates an entry: the contact, counter account and agent the
+// fields point at must belong to the organization and be usable, and no date involved may be locked.
+// `existing` is the entry being updated, whose old date must be unlocked too and whose agent may be archived.
+export async function validateEntryRefs(
+  db: Db,
+  organizationId: ObjectId,
+  fields: EntryInput,
+  baseCurrency: string,
+  existing: { date: string; agentId?: ObjectId | null } | null = null,
+): Promise<EntryRefsError | null> {
+  const invalid = (fieldErrors: EntryFieldErrors): EntryRefsError => ({
+    status: 400,
+    body: { error: "Validation failed", fieldErrors },
+  })
+
+  if (fields.contactId && !(await findContact(db, organizationId, fields.contactId))) {
+    return invalid({ contactId: ["Contact not found"] })
+  }
+  if (fields.counterAccountId && !(await findPostingAccount(db, organizationId, fields.counterAccountId))) {
+    return invalid({ counterAccountId: ["Choose an open ledger account"] })
+  }
+  const agentError = await agentFieldError(db, organizationId, fields, baseCurrency, existing?.agentId ?? null)
+  if (agentError) return invalid({ agentId: [agentError] })
+
+  const lockDate = await getLockDate(db, organizationId)
+  if (lockDate && (isLocked(fields.date, lockDate) || (existing && isLocked(existing.date, lockDate)))) {
+    return { status: 409, body: { error: periodLockedMessage(lockDate) } }
+  }
+  return null
+}
+
+function initialStatus(fields: EntryInput, context: AuditContext) {
+  return { status: fields.status ?? DEFAULT_TRANSFER_STATUS, from: null, at: new Date(), actor: context.actor }
+}
+
+// The caller has already checked that the account belongs to `organizationId`
+export async function createAccountEntry(
+  db: Db,
+  organizationId: ObjectId,
+  accountId: string,
+  fields: EntryInput,
+  context: AuditContext,
+  { _id = new ObjectId(), reversalOf }: { _id?: ObjectId; reversalOf?: ObjectId } = {},
+) {
+  const accountObjectId = new ObjectId(accountId)
+  await ensureBalances(db, accountObjectId)
+
+  const delta = entryDelta(fields)
+  const balanceBefore = await getBalanceBefore(db, accountObjectId, fields.date, _id)
+  const [reference] = await reserveReferences(db, organizationId, accountObjectId, fields.date)
+
+  const newEntry = {
+    _id,
+    organizationId,
+    accountId: accountObjectId,
+    reference,
+    ...fields,
+    contactId: fields.contactId ? new ObjectId(fields.contactId) : null,
+    counterAccountId: fields.counterAccountId ? new ObjectId(fields.counterAccountId) : null,
+    agentId: fields.agentId ? new ObjectId(fields.agentId) : null,
+    exchangeRate: impliedExchangeRate(fields),
+    appliedRate: await lookupAppliedRate(db, organizationId, accountObjectId, fields),
+    balance: balanceBefore + delta,
+    status: fields.status ?? DEFAULT_TRANSFER_STATUS,
+    statusHistory: [initialStatus(fields, context)],
+    ...(reversalOf && { reversalOf }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  await db.collection<EntryDoc>("entries").insertOne(newEntry)
+  await shiftBalancesAfter(db, accountObjectId, fields.date, _id, delta)
+  await syncEntryJournal(db, newEntry)
+  await recordEntryEvent(db, organizationId, "create", null, newEntry, context)
+
+  return serializeEntry(newEntry)
+}
+
+// Insert many entries of one account in a single bulk write, then recompute the account's balances once
+// instead of shifting them row by row. The caller has already checked the account and every row.
+export async function importAccountEntries(
+  db: Db,
+  organizationId: ObjectId,
+  accountId: string,
+  rows: EntryInput[],
+  context: AuditContext,
+) {
+  const accountObjectId = new ObjectId(accountId)
+  await ensureBalances(db, accountObjectId)
+
+  // One block of consecutive references per entry date
+  const references = new Map<string, string[]>()
+  for (const date of new Set(rows.map((fields) => fields.date))) {
+    const count = rows.filter((fields) => fields.date === date).length
+    references.set(date, await reserveReferences(db, organizationId, accountObjectId, date, count))
+  }
+
+  const now = new Date()
+  const entries = []
+  for (const fields of rows) {
+    entries.push({
+      _id: new ObjectId(),
+      organizationId,
+      accountId: accountObjectId,
+      reference: references.get(fields.date)!.shift(),
+      ...fields,
+      contactId: fields.contactId ? new ObjectId(fields.contactId) : null,
+      counterAccountId: fields.counterAccountId ? new ObjectId(fields.counterAccountId) : null,
+      agentId: fields.agentId ? new ObjectId(fields.agentId) : null,
+      exchangeRate: impliedExchangeRate(fields),
+      appliedRate: await lookupAppliedRate(db, organizationId, accountObjectId, fields),
+      // Filled in by rebuildBalances below
+      balance: 0,
+      status: fields.status ?? DEFAULT_TRANSFER_STATUS,
+      statusHistory: [initialStatus(fields, context)],
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  if (entries.length === 0) return 0
+
+  await db.collection<EntryDoc>("entries").insertMany(entries, { ordered: true })
+  await rebuildBalances(db, accountObjectId)
+  await syncEntryJournals(db, organizationId, entries)
+  await recordCreateEvents(db, organizationId, entries, context)
+
+  return entries.length
+}
+
+export async function findAccountEntry(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<EntryDoc>("entries").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// Update an entry and move the balance effect from its old position/amount to the new one.
+// Returns null when the entry does not exist in the organization.
+export async function updateAccountEntry(
+  db: Db,
+  organizationId: ObjectId,
+  id: string,
+  fields: EntryInput,
+  context: AuditContext,
+) {
+  const existing = await findAccountEntry(db, organizationId, id)
+  if (!existing) return null
+
+  await ensureBalances(db, existing.accountId)
+
+  const oldDelta = entryDelta(existing)
+  const newDelta = entryDelta({ ...fields, status: existing.status })
+
+  await shiftBalancesAfter(db, existing.accountId, existing.date, existing._id, -oldDelta)
+  const balanceBefore = await getBalanceBefore(db, existing.accountId, fields.date, existing._id)
+
+  const updateData = {
+    ...fields,
+    countryCurrency: fields.countryCurrency ?? null,
+    ...Object.fromEntries(PARTY_FIELDS.map((field) => [field, fields[field] ?? null])),
+    contactId: fields.contactId ? new ObjectId(fields.contactId) : null,
+    counterAccountId: fields.counterAccountId ? new ObjectId(fields.counterAccountId) : null,
+    agentId: fields.agentId ? new ObjectId(fields.agentId) : null,
+    exchangeRate: impliedExchangeRate(fields),
+    appliedRate: await lookupAppliedRate(db, organizationId, existing.accountId, fields),
+    balance: balanceBefore + newDelta,
+    status: existing.status ?? DEFAULT_TRANSFER_STATUS,
+    updatedAt: new Date(),
+  }
+  await db.collection<EntryDoc>("entries").updateOne({ _id: existing._id }, { $set: updateData })
+  await shiftBalancesAfter(db, existing.accountId, fields.date, existing._id, newDelta)
+
+  const updated = { ...existing, ...updateData }
+  await syncEntryJournal(db, updated)
+  await recordEntryEvent(db, organizationId, "update", existing, updated, context)
+
+  return serializeEntry(updated)
+}
+
+// Post a counter-entry on `date` that cancels `original` (debit and credit swapped, country amounts too)
+// and link the two. Returns null when the entry is voided, cancelled or refunded, or has already been reversed.
+export async function reverseAccountEntry(
+  db: Db,
+  organizationId: ObjectId,
+  original: EntryDoc,
+  date: string,
+  context: AuditContext,
+) {
+  // Claim the original first so two concurrent requests cannot both reverse it
+  const _id = new ObjectId()
+  const claimed = await db
+    .collection<EntryDoc>("entries")
+    .updateOne(
+      { _id: original._id, organizationId, reversedBy: null, ...inBalance },
+      { $set: { reversedBy: _id, updatedAt: new Date() } },
+    )
+  if (claimed.modifiedCount === 0) return null
+
+  const fields: EntryInput = {
+    date,
+    particulars: `Reversal: ${original.particulars}`.slice(0, 200),
+    debitCountry: original.creditCountry,
+    debit: original.credit,
+    creditCountry: original.debitCountry,
+    credit: original.debit,
+    countryCurrency: original.countryCurrency ?? undefined,
+    contactId: original.contactId?.toString(),
+    counterAccountId: original.counterAccountId?.toString(),
+    agentId: original.agentId?.toString(),
+    // A reversal of a pending transfer is pending too, so both halves post to the same agent account
+    status: original.status === "pending" ? "pending" : undefined,
+    ...Object.fromEntries(PARTY_FIELDS.map((field) => [field, original[field] ?? undefined])),
+  }
+  const reversal = await createAccountEntry(db, organizationId, original.accountId.toString(), fields, context, {
+    _id,
+    reversalOf: original._id,
+  })
+  await recordEntryEvent(db, organizationId, "reverse", original, { ...original, reversedBy: _id }, context)
+
+  return reversal
+}
+
+// Move a transfer to `status`, recording when and by whom. Cancelling or refunding takes the amount out of
+// every later balance and voids the journal entry. The caller has checked that the transition is allowed.
+// Returns null when the entry was voided, settled or its status changed in the meantime.
+export async function changeEntryStatus(
+  db: Db,
+  organizationId: ObjectId,
+  existing: EntryDoc,
+  status: TransferStatus,
+  context: AuditContext,
+) {
+  const from: TransferStatus = existing.status ?? DEFAULT_TRANSFER_STATUS
+  const change = { status, from, at: new Date(), actor: context.actor }
+  await ensureBalances(db, existing.accountId)
+  // Only cancelling or refunding a transfer that still carried its amount changes any balance
+  const leavesBalance = countsInBalance(from) && !countsInBalance(status)
+  const delta = leavesBalance ? -entryDelta(existing) : 0
+  const updated = await db.collection<EntryDoc>("entries").findOneAndUpdate(
+    { _id: existing._id, ...notVoided, settlement: null, status: existing.status ?? null },
+    {
+      // Like a voided entry, a cancelled or refunded transfer no longer stands for the bank line it was matched to
+      $set: { status, updatedAt: change.at, ...(leavesBalance && { reconciled: null }) },
+      $inc: { balance: delta },
+      $push: { statusHistory: change },
+    },
+    { returnDocument: "after" },
+  )
+  if (!updated) return null
+
+  if (leavesBalance) {
+    if (existing.reconciled) {
+      await db
+        .collection("bank_lines")
+        .updateOne({ _id: existing.reconciled.bankLineId, "match.entryId": existing._id }, { $set: { match: null } })
+    }
+    await shiftBalancesAfter(db, existing.accountId, existing.date, existing._id, delta)
+  }
+  // Paying out an agent transfer moves it to the clearing account; cancelling or refunding voids it
+  await syncEntryJournal(db, updated)
+  await recordEntryEvent(db, organizationId, "status", existing, updated, context)
+  return serializeEntry(updated)
+}
+
+// Move an entry to the trash and take its amount out of every later balance.
+// Returns false when it does not exist in the organization or is already voided.
+export async function voidAccountEntry(
+  db: Db,
+  organizationId: ObjectId,
+  id: string,
+  reason: string,
+  context: AuditContext,
+) {
+  const existing = await findAccountEntry(db, organizationId, id)
+  if (!existing || existing.voided) return false
+
+  const voided: EntryVoid = { at: new Date(), reason, actor: context.actor }
+  // A voided entry no longer stands for the bank line it was matched to, so the line goes back to unmatched
+  const result = await db
+    .collection<EntryDoc>("entries")
+    .updateOne({ _id: existing._id, ...notVoided }, { $set: { voided, reconciled: null, updatedAt: new Date() } })
+  if (result.modifiedCount === 0) return false
+
+  if (existing.reconciled) {
+    await db
+      .collection("bank_lines")
+      .updateOne({ _id: existing.reconciled.bankLineId, "match.entryId": existing._id }, { $set: { match: null } })
+  }
+
+  await shiftBalancesAfter(db, existing.accountId, existing.date, existing._id, -entryDelta(existing))
+  // Voiding a reversal undoes it, so the original can be reversed again
+  if (existing.reversalOf) {
+    await db
+      .collection<EntryDoc>("entries")
+      .updateOne({ _id: existing.reversalOf, reversedBy: existing._id }, { $set: { reversedBy: null } })
+  }
+  await syncEntryJournal(db, { ...existing, voided })
+  await recordEntryEvent(db, organizationId, "void", existing, { ...existing, voided }, context)
+  return true
+}
+
+// Take an entry out of the trash and put its amount back into the running balance.
+// Returns false when it does not exist in the organization or is not voided.
+export async function restoreAccountEntry(db: Db, organizationId: ObjectId, id: string, context: AuditContext) {
+  const existing = await findAccountEntry(db, organizationId, id)
+  if (!existing?.voided) return false
+
+  await ensureBalances(db, existing.accountId)
+  const delta = entryDelta(existing)
+  const balance = (await getBalanceBefore(db, existing.accountId, existing.date, existing._id)) + delta
+
+  const result = await db
+    .collection<EntryDoc>("entries")
+    .updateOne(
+      { _id: existing._id, voided: { $ne: null } },
+      { $set: { voided: null, balance, updatedAt: new Date() } },
+    )
+  if (result.modifiedCount === 0) return false
+
+  await shiftBalancesAfter(db, existing.accountId, existing.date, existing._id, delta)
+  if (existing.reversalOf) {
+    await db
+      .collection<EntryDoc>("entries")
+      .updateOne({ _id: existing.reversalOf, reversedBy: null }, { $set: { reversedBy: existing._id } })
+  }
+  await syncEntryJournal(db, { ...existing, voided: null })
+  await recordEntryEvent(db, organizationId, "restore", existing, { ...existing, voided: null, balance }, context)
+  return true
+}
+
+// Permanently remove a voided entry. Its balances were already adjusted when it was voided.
+// Returns false when it does not exist in the organization or is not in the trash.
+export async function purgeAccountEntry(db: Db, organizationId: ObjectId, id: string, context: AuditContext) {
+  if (!ObjectId.isValid(id)) return false
+  const existing = await db
+    .collection<EntryDoc>("entries")
+    .findOneAndDelete({ _id: new ObjectId(id), organizationId, voided: { $ne: null } })
+  if (!existing) return false
+
+  await deleteEntryJournal(db, existing._id)
+  await recordEntryEvent(db, organizationId, "delete", existing, null, context)
+  return true
+}
+
+// The account's trash, most recently voided first
+export async function listVoidedEntries(db: Db, accountId: ObjectId) {
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({ accountId, voided: { $ne: null } })
+    .sort({ "voided.at": -1 })
+    .toArray()
+  return entries.map(serializeEntry)
+}
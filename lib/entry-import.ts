@@ -0,0 +1,71 @@
+import { ObjectId, type Db } from "mongodb"
+import { entrySchema, type EntryInput } from "@/lib/entry-schema"
+import { notVoided } from "@/lib/balances"
+import { normalizeName } from "@/lib/contacts"
+import { isLocked, periodLockedMessage } from "@/lib/periods"
+import { mapImportRow, type ImportRequest } from "@/lib/import-mapping"
+import type { EntryDoc } from "@/lib/entries"
+
+export interface ImportPreviewRow {
+  line: number
+  // Validated entry, or null when the row has errors
+  entry: EntryInput | null
+  errors: string[]
+  // Same date, particulars and amounts as an entry already in the account or earlier in the file
+  duplicate: boolean
+}
+
+function duplicateKey(entry: Pick<EntryInput, "date" | "particulars" | "debitCountry" | "debit" | "creditCountry" | "credit">) {
+  return [
+    entry.date,
+    normalizeName(entry.particulars),
+    entry.debitCountry,
+    entry.debit,
+    entry.creditCountry,
+    entry.credit,
+  ].join("|")
+}
+
+// Validate every row against the entry schema and the period lock, and flag likely duplicates
+export async function previewImport(
+  db: Db,
+  request: ImportRequest,
+  lockDate: string | null,
+): Promise<ImportPreviewRow[]> {
+  const rows: ImportPreviewRow[] = request.rows.map((row, index) => {
+    const line = request.firstLine + index
+    const parsed = entrySchema.safeParse(mapImportRow(row, request))
+    if (!parsed.success) {
+      return { line, entry: null, errors: parsed.error.issues.map((issue) => issue.message), duplicate: false }
+    }
+    if (lockDate && isLocked(parsed.data.date, lockDate)) {
+      return { line, entry: null, errors: [periodLockedMessage(lockDate)], duplicate: false }
+    }
+    return { line, entry: parsed.data, errors: [], duplicate: false }
+  })
+
+  const valid = rows.filter((row) => row.entry)
+  if (valid.length === 0) return rows
+
+  const dates = valid.map((row) => row.entry!.date).sort()
+  const existing = await db
+    .collection<EntryDoc>("entries")
+    .find(
+      {
+        accountId: new ObjectId(request.accountId),
+        ...notVoided,
+        date: { $gte: dates[0], $lte: dates[dates.length - 1] },
+      },
+      { projection: { date: 1, particulars: 1, debitCountry: 1, debit: 1, creditCountry: 1, credit: 1 } },
+    )
+    .toArray()
+
+  const seen = new Set(existing.map((entry) => duplicateKey(entry)))
+  for (const row of valid) {
+    const key = duplicateKey(row.entry!)
+    row.duplicate = seen.has(key)
+    seen.add(key)
+  }
+
+  return rows
+}
@@ -0,0 +1,154 @@
+import { z } from "zod"
+import { isCurrencyCode } from "@/lib/currency"
+import { INITIAL_TRANSFER_STATUSES } from "@/lib/transfer-status"
+
+export const MAX_PARTICULARS_LENGTH = 200
+export const MAX_AMOUNT = 1_000_000_000_000
+
+// Form inputs send amounts as strings and the API may receive either; blank means zero
+export const amount = z.preprocess(
+  (value) => {
+    if (value === undefined || value === null) return 0
+    if (typeof value === "string") return value.trim() === "" ? 0 : Number(value)
+    return value
+  },
+  z
+    .number({ invalid_type_error: "Must be a number" })
+    .finite("Must be a number")
+    .nonnegative("Cannot be negative")
+    .max(MAX_AMOUNT, "Amount is too large"),
+)
+
+// Blank means "no currency"; codes are upper-cased so "usd" and "USD" are the same
+export const currencyCode = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toUpperCase() || undefined : (value ?? undefined)),
+  z.string().refine(isCurrencyCode, "Unknown currency code").optional(),
+)
+
+// Blank means "none"; used for optional references to other documents
+export const optionalObjectId = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim() || undefined : (value ?? undefined)),
+  z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, "Invalid reference")
+    .optional(),
+)
+
+// Blank means "not given"; free-text details such as names and phone numbers
+export const optionalText = (max: number) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() || undefined : (value ?? undefined)),
+    z.string().max(max, `Must be at most ${max} characters`).optional(),
+  )
+
+export const PAYOUT_METHODS = ["cashPickup", "bankAccount", "mobileWallet"] as const
+
+export type PayoutMethod = (typeof PAYOUT_METHODS)[number]
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethod, string> = {
+  cashPickup: "Cash pickup",
+  bankAccount: "Bank account",
+  mobileWallet: "Mobile wallet",
+}
+
+// Who sends the transfer and who receives it, kept for compliance. All optional so plain ledger lines and
+// imports still validate; the name is required once any other detail of that party is given.
+export const SENDER_FIELDS = ["senderName", "senderPhone", "senderIdNumber"] as const
+export const BENEFICIARY_FIELDS = [
+  "beneficiaryName",
+  "beneficiaryPhone",
+  "beneficiaryIdNumber",
+  "beneficiaryCountry",
+  "payoutMethod",
+] as const
+export const PARTY_FIELDS = [...SENDER_FIELDS, ...BENEFICIARY_FIELDS] as const
+
+export type PartyField = (typeof PARTY_FIELDS)[number]
+
+export const isoDate = z
+  .string({ required_error: "Date is required" })
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`)
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+  }, "Not a valid date")
+
+// Shared by the entry route handlers and the add/edit forms
+export const entrySchema = z
+  .object({
+    date: isoDate,
+    particulars: z
+      .string({ required_error: "Particulars is required" })
+      .trim()
+      .min(1, "Particulars is required")
+      .max(MAX_PARTICULARS_LENGTH, `Particulars must be at most ${MAX_PARTICULARS_LENGTH} characters`),
+    debitCountry: amount,
+    debit: amount,
+    creditCountry: amount,
+    credit: amount,
+    countryCurrency: currencyCode,
+    // Contact the entry is with; particulars keeps the free-text name as entered
+    contactId: optionalObjectId,
+    // Ledger account on the other side of the journal entry, e.g. bank; cash in hand when blank
+    counterAccountId: optionalObjectId,
+    // Partner agent who paid out or collected the transfer abroad
+    agentId: optionalObjectId,
+    // Status a new entry starts in, paid out when blank; edits keep the status, which changes by transition only
+    status: z.preprocess(
+      (value) => (typeof value === "string" ? value.trim() || undefined : (value ?? undefined)),
+      z.enum(INITIAL_TRANSFER_STATUSES, { errorMap: () => ({ message: "Choose pending or paid out" }) }).optional(),
+    ),
+    senderName: optionalText(200),
+    senderPhone: optionalText(40),
+    senderIdNumber: optionalText(80),
+    beneficiaryName: optionalText(200),
+    beneficiaryPhone: optionalText(40),
+    beneficiaryIdNumber: optionalText(80),
+    beneficiaryCountry: optionalText(80),
+    payoutMethod: z.preprocess(
+      (value) => (typeof value === "string" ? value.trim() || undefined : (value ?? undefined)),
+      z.enum(PAYOUT_METHODS, { errorMap: () => ({ message: "Choose a payout method" }) }).optional(),
+    ),
+  })
+  .refine((entry) => entry.debit > 0 || entry.credit > 0, {
+    message: "Enter a debit or a credit amount",
+    path: ["debit"],
+  })
+  .refine((entry) => entry.countryCurrency || (entry.debitCountry === 0 && entry.creditCountry === 0), {
+    message: "Currency is required for country amounts",
+    path: ["countryCurrency"],
+  })
+  .refine((entry) => !(entry.agentId && entry.counterAccountId), {
+    message: "Agent entries are paid through the agent",
+    path: ["counterAccountId"],
+  })
+  .refine((entry) => entry.senderName || SENDER_FIELDS.every((field) => !entry[field]), {
+    message: "Sender name is required with sender details",
+    path: ["senderName"],
+  })
+  .refine((entry) => entry.beneficiaryName || BENEFICIARY_FIELDS.every((field) => !entry[field]), {
+    message: "Beneficiary name is required with beneficiary details",
+    path: ["beneficiaryName"],
+  })
+
+export type EntryBody = z.input<typeof entrySchema>
+export type EntryInput = z.output<typeof entrySchema>
+
+export type EntryFieldErrors = Partial<Record<keyof EntryInput, string[]>>
+
+// Body returned with a 400 when an entry fails validation
+export function validationErrorBody(error: z.ZodError<EntryBody>) {
+  return {
+    error: "Validation failed",
+    fieldErrors: error.flatten().fieldErrors as EntryFieldErrors,
+  }
+}
+
+// Body of DELETE /api/entries/[id]; voiding always needs a reason for the trash and the audit log
+export const voidEntrySchema = z.object({
+  reason: z
+    .string({ required_error: "A reason is required" })
+    .trim()
+    .min(1, "A reason is required")
+    .max(200, "Keep the reason under 200 characters"),
+})
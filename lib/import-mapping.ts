@@ -0,0 +1,153 @@
+import { z } from "zod"
+import { currencyCode } from "@/lib/entry-schema"
+
+// Column mapping and value normalization for spreadsheet imports, shared by the import wizard and
+// /api/entries/import. Nothing here touches the database so the wizard can use it in the browser.
+
+export const IMPORT_FIELDS = [
+  "date",
+  "particulars",
+  "debitCountry",
+  "debit",
+  "creditCountry",
+  "credit",
+  "countryCurrency",
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+
+export const REQUIRED_IMPORT_FIELDS: readonly ImportField[] = ["date", "particulars"]
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  particulars: "Particulars",
+  debitCountry: "Debit Country",
+  debit: "Debit (Out)",
+  creditCountry: "Credit Country",
+  credit: "Credit (In)",
+  countryCurrency: "Country Currency",
+}
+
+export const IMPORT_DATE_FORMATS = ["yyyy-mm-dd", "dd/mm/yyyy", "mm/dd/yyyy"] as const
+
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number]
+
+// "point" reads 1,234.56 and "comma" reads 1.234,56
+export const IMPORT_NUMBER_FORMATS = ["point", "comma"] as const
+
+export type ImportNumberFormat = (typeof IMPORT_NUMBER_FORMATS)[number]
+
+export const MAX_IMPORT_ROWS = 5000
+// Far more than MAX_IMPORT_ROWS rows need, in CSV or XLSX
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024
+
+// Column index per field; fields left out are blank for every row
+export type ImportMapping = Partial<Record<ImportField, number>>
+
+const columnIndex = z.number().int().min(0)
+
+export const importRequestSchema = z.object({
+  accountId: z.string().regex(/^[a-f\d]{24}$/i, "Choose an account"),
+  // Data rows without the header row
+  rows: z
+    .array(z.array(z.string()))
+    .min(1, "The file has no rows to import")
+    .max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+  // Spreadsheet line of rows[0], so messages point at the line the user sees
+  firstLine: z.number().int().min(1).default(2),
+  mapping: z.object({
+    date: columnIndex,
+    particulars: columnIndex,
+    debitCountry: columnIndex.optional(),
+    debit: columnIndex.optional(),
+    creditCountry: columnIndex.optional(),
+    credit: columnIndex.optional(),
+    countryCurrency: columnIndex.optional(),
+  }),
+  dateFormat: z.enum(IMPORT_DATE_FORMATS).default("yyyy-mm-dd"),
+  // Whether the rows come from an XLSX workbook, whose date cells hold Excel serial numbers
+  serialDates: z.boolean().default(false),
+  numberFormat: z.enum(IMPORT_NUMBER_FORMATS).default("point"),
+  // Used for rows without a country currency column or with the cell left blank
+  defaultCountryCurrency: currencyCode,
+  // Without commit the rows are only validated and checked for duplicates
+  commit: z.boolean().default(false),
+  skipDuplicates: z.boolean().default(true),
+})
+
+export type ImportRequest = z.output<typeof importRequestSchema>
+
+// Header names the wizard recognizes when proposing a mapping, compared in lower case without spaces
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "entrydate", "txndate"],
+  particulars: ["particulars", "name", "person", "description", "details"],
+  debitCountry: ["debitcountry", "countrydebit"],
+  debit: ["debit", "debit(out)", "out", "paid"],
+  creditCountry: ["creditcountry", "countrycredit"],
+  credit: ["credit", "credit(in)", "in", "received"],
+  countryCurrency: ["countrycurrency", "currency"],
+}
+
+export function guessMapping(header: string[]): ImportMapping {
+  const names = header.map((name) => name.toLowerCase().replace(/\s+/g, ""))
+  const mapping: ImportMapping = {}
+  for (const field of IMPORT_FIELDS) {
+    // Exported statements label local columns with the currency, e.g. "Debit (Out) USD"
+    const index = names.findIndex((name) =>
+      HEADER_ALIASES[field].some(
+        (alias) => name === alias || (name.startsWith(alias) && /^[a-z]{3}$/.test(name.slice(alias.length))),
+      ),
+    )
+    if (index >= 0 && !Object.values(mapping).includes(index)) mapping[field] = index
+  }
+  return mapping
+}
+
+// Excel stores dates as days since 1899-12-30
+function excelSerialToDate(serial: number) {
+  return new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 86_400_000).toISOString().split("T")[0]
+}
+
+// Normalize a date cell to yyyy-mm-dd. Cells that do not match the format are passed through for
+// the entry schema to reject with its own message. Only workbook cells are read as serial numbers, so a
+// number in a CSV file is never quietly turned into a date.
+export function normalizeImportDate(value: string, format: ImportDateFormat, serialDates = false) {
+  const text = value.trim()
+  // XLSX files hold dates as serial numbers unless the column was formatted as text
+  if (serialDates && /^\d{4,5}(\.\d+)?$/.test(text)) return excelSerialToDate(Number(text))
+  if (format === "yyyy-mm-dd") return text
+
+  const parts = text.split(/[/.-]/)
+  if (parts.length !== 3) return text
+  const [first, second, year] = parts
+  const [day, month] = format === "dd/mm/yyyy" ? [first, second] : [second, first]
+  return `${year.padStart(4, "20")}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+}
+
+// Strip grouping separators, spaces and currency symbols, leaving a string the entry schema can read
+export function normalizeImportAmount(value: string, format: ImportNumberFormat) {
+  const text = value.trim().replace(/[\s '$€£¥₹]/g, "")
+  return format === "comma" ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "")
+}
+
+// Entry body for one row, before validation
+export function mapImportRow(
+  row: string[],
+  request: Pick<ImportRequest, "mapping" | "dateFormat" | "serialDates" | "numberFormat" | "defaultCountryCurrency">,
+) {
+  const cell = (field: ImportField) => {
+    const index = request.mapping[field]
+    return index === undefined ? "" : (row[index] ?? "")
+  }
+  const amount = (field: ImportField) => normalizeImportAmount(cell(field), request.numberFormat)
+
+  return {
+    date: normalizeImportDate(cell("date"), request.dateFormat, request.serialDates),
+    particulars: cell("particulars"),
+    debitCountry: amount("debitCountry"),
+    debit: amount("debit"),
+    creditCountry: amount("creditCountry"),
+    credit: amount("credit"),
+    countryCurrency: cell("countryCurrency").trim() || request.defaultCountryCurrency,
+  }
+}
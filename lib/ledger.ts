@@ -0,0 +1,535 @@
+import { ObjectId, type AnyBulkWriteOperation, type Db, type WithId } from "mongodb"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { countsInBalance } from "@/lib/transfer-status"
+import type { AuditActor } from "@/lib/audit"
+import type { AccountType, AccountDoc } from "@/lib/accounts"
+import type { AccountEntry, EntryDoc } from "@/lib/entries"
+import {
+  AGENT_CLEARING_KEY,
+  AGENT_PENDING_KEY,
+  DEFAULT_COUNTER_KEY,
+  PARTY_CONTROL_ACCOUNTS,
+  SYSTEM_LEDGER_ACCOUNTS,
+  isPostingAccount,
+  type JournalEntryInput,
+  type LedgerAccount,
+  type LedgerAccountType,
+  type SystemLedgerKey,
+} from "@/lib/chart-of-accounts"
+
+export interface JournalLine {
+  ledgerAccountId: string
+  // Party account whose statement the line belongs to; set on control account lines only
+  partyAccountId: string | null
+  debit: number
+  credit: number
+}
+
+export interface JournalEntry {
+  id: string
+  date: string
+  memo: string
+  currency: string
+  lines: JournalLine[]
+  source: JournalSource
+  // Statement entry the journal entry was posted from, or null for manual and settlement journal entries
+  entryId: string | null
+  voided: { at: Date } | null
+  createdAt: Date
+}
+
+export type JournalSource = "entry" | "manual" | "settlement"
+
+// A ledger account as stored; system accounts carry the key the chart of accounts knows them by
+interface LedgerAccountDoc {
+  organizationId: ObjectId
+  code: string
+  name: string
+  type: LedgerAccountType
+  key?: SystemLedgerKey | null
+  archived?: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A journal line as stored; control account lines also keep the statement entry's country amounts
+interface JournalLineDoc {
+  ledgerAccountId: ObjectId
+  partyAccountId: ObjectId | null
+  debit: number
+  credit: number
+  debitCountry?: number
+  creditCountry?: number
+  countryCurrency?: string | null
+}
+
+// A journal entry as stored; those posted before sources were recorded all came from statement entries
+interface JournalEntryDoc {
+  organizationId: ObjectId
+  date: string
+  memo: string
+  currency: string
+  lines: JournalLineDoc[]
+  source?:
+    | { type: "entry"; entryId: ObjectId }
+    | { type: "manual"; actor: AuditActor }
+    | { type: "settlement"; settlementId: ObjectId }
+  voided: { at: Date; actor?: AuditActor } | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface TrialBalanceRow {
+  ledgerAccountId: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  currency: string
+  debit: number
+  credit: number
+}
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureLedgerIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = Promise.all([
+      db.collection<LedgerAccountDoc>("ledger_accounts").createIndex({ organizationId: 1, code: 1 }, { unique: true }),
+      db.collection<JournalEntryDoc>("journal_entries").createIndex({ organizationId: 1, date: 1, _id: 1 }),
+      db.collection<JournalEntryDoc>("journal_entries").createIndex({ "lines.ledgerAccountId": 1, date: 1 }),
+      // One journal entry per statement entry; manual journal entries have no source entry
+      db.collection<JournalEntryDoc>("journal_entries").createIndex(
+        { "source.entryId": 1 },
+        { unique: true, partialFilterExpression: { "source.entryId": { $exists: true } } },
+      ),
+    ])
+  }
+  return indexReady
+}
+
+export function serializeLedgerAccount(account: WithId<LedgerAccountDoc>): LedgerAccount {
+  return {
+    id: account._id.toString(),
+    code: account.code,
+    name: account.name,
+    type: account.type,
+    key: account.key ?? null,
+    archived: Boolean(account.archived),
+  }
+}
+
+export function serializeJournalEntry(journal: WithId<JournalEntryDoc>): JournalEntry {
+  return {
+    id: journal._id.toString(),
+    date: journal.date,
+    memo: journal.memo,
+    currency: journal.currency,
+    lines: journal.lines.map((line) => ({
+      ledgerAccountId: line.ledgerAccountId.toString(),
+      partyAccountId: line.partyAccountId?.toString() ?? null,
+      debit: line.debit,
+      credit: line.credit,
+    })),
+    source: journal.source?.type ?? "entry",
+    entryId: journal.source?.type === "entry" ? journal.source.entryId.toString() : null,
+    voided: journal.voided ? { at: journal.voided.at } : null,
+    createdAt: journal.createdAt,
+  }
+}
+
+// Create any system account missing from the organization's chart and return their ids by key
+export async function ensureChartOfAccounts(db: Db, organizationId: ObjectId) {
+  await ensureLedgerIndexes(db)
+
+  const accounts = db.collection<LedgerAccountDoc>("ledger_accounts")
+  let existing = await accounts.find({ organizationId, key: { $ne: null } }).toArray()
+  if (existing.length < SYSTEM_LEDGER_ACCOUNTS.length) {
+    const now = new Date()
+    const result = await accounts.bulkWrite(
+      SYSTEM_LEDGER_ACCOUNTS.map((account) => ({
+        updateOne: {
+          filter: { organizationId, key: account.key },
+          update: { $setOnInsert: { ...account, organizationId, archived: false, createdAt: now, updatedAt: now } },
+          upsert: true,
+        },
+      })),
+    )
+    existing = await accounts.find({ organizationId, key: { $ne: null } }).toArray()
+
+    // Pending agent transfers posted before their own account existed sit on the clearing account
+    const pendingIndex = SYSTEM_LEDGER_ACCOUNTS.findIndex((account) => account.key === AGENT_PENDING_KEY)
+    if (result.upsertedIds[pendingIndex]) {
+      const pending = await db
+        .collection<EntryDoc>("entries")
+        .find({ organizationId, agentId: { $ne: null }, status: "pending" })
+        .toArray()
+      await syncEntryJournals(db, organizationId, pending)
+    }
+  }
+
+  return new Map(existing.map((account) => [account.key as SystemLedgerKey, account._id as ObjectId]))
+}
+
+export async function listLedgerAccounts(db: Db, organizationId: ObjectId) {
+  await ensureChartOfAccounts(db, organizationId)
+  const accounts = await db
+    .collection<LedgerAccountDoc>("ledger_accounts")
+    .find({ organizationId })
+    .sort({ code: 1 })
+    .toArray()
+  return accounts.map(serializeLedgerAccount)
+}
+
+export async function findLedgerAccount(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<LedgerAccountDoc>("ledger_accounts").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// The ledger account a statement entry or manual journal line names, or null when it is missing,
+// archived or a control account
+export async function findPostingAccount(db: Db, organizationId: ObjectId, id: string) {
+  const account = await findLedgerAccount(db, organizationId, id)
+  return account && isPostingAccount({ key: account.key, archived: account.archived }) ? account : null
+}
+
+// Journal entry for one statement entry: the party's side on its type's control account, the other side
+// on the entry's counter account. Debit and credit keep the statement's meaning on the party line.
+// Entries paid out or collected by an agent post their other side to the agent clearing account, or to
+// the pending agent transfers account until they are paid out.
+function entryJournal(
+  entry: EntryDoc,
+  account: WithId<AccountDoc> | undefined,
+  chart: Map<SystemLedgerKey, ObjectId>,
+): Omit<JournalEntryDoc, "createdAt" | "updatedAt"> {
+  const controlKey = PARTY_CONTROL_ACCOUNTS[account?.type as AccountType] ?? PARTY_CONTROL_ACCOUNTS.other
+  const control = chart.get(controlKey)!
+  const counter = entry.agentId
+    ? chart.get(entry.status === "pending" ? AGENT_PENDING_KEY : AGENT_CLEARING_KEY)!
+    : (entry.counterAccountId ?? chart.get(DEFAULT_COUNTER_KEY)!)
+
+  return {
+    organizationId: entry.organizationId,
+    date: entry.date,
+    memo: entry.particulars,
+    currency: account?.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+    lines: [
+      {
+        ledgerAccountId: control,
+        partyAccountId: entry.accountId,
+        debit: entry.debit,
+        credit: entry.credit,
+        debitCountry: entry.debitCountry ?? 0,
+        creditCountry: entry.creditCountry ?? 0,
+        countryCurrency: entry.countryCurrency ?? null,
+      },
+      { ledgerAccountId: counter, partyAccountId: null, debit: entry.credit, credit: entry.debit },
+    ],
+    source: { type: "entry", entryId: entry._id },
+    // Cancelled and refunded transfers keep their journal entry, voided from their last status change
+    voided: entry.voided ? { at: entry.voided.at } : countsInBalance(entry.status) ? null : { at: entry.updatedAt! },
+  }
+}
+
+// Bring the journal entries of `entries` (raw documents of one organization) in line with them
+export async function syncEntryJournals(db: Db, organizationId: ObjectId, entries: EntryDoc[]) {
+  if (entries.length === 0) return
+
+  const chart = await ensureChartOfAccounts(db, organizationId)
+  const accountIds = [...new Set(entries.map((entry) => entry.accountId.toString()))].map((id) => new ObjectId(id))
+  const accounts = await db
+    .collection<AccountDoc>("accounts")
+    .find({ _id: { $in: accountIds } }, { projection: { type: 1, baseCurrency: 1 } })
+    .toArray()
+  const byId = new Map(accounts.map((account) => [account._id.toString(), account]))
+
+  const now = new Date()
+  const operations: AnyBulkWriteOperation<JournalEntryDoc>[] = entries.map((entry) => ({
+    updateOne: {
+      filter: { "source.entryId": entry._id },
+      update: {
+        $set: { ...entryJournal(entry, byId.get(entry.accountId.toString()), chart), updatedAt: now },
+        $setOnInsert: { createdAt: now },
+      },
+      upsert: true,
+    },
+  }))
+  await db.collection<JournalEntryDoc>("journal_entries").bulkWrite(operations, { ordered: false })
+}
+
+export function syncEntryJournal(db: Db, entry: EntryDoc) {
+  return syncEntryJournals(db, entry.organizationId, [entry])
+}
+
+export async function deleteEntryJournal(db: Db, entryId: ObjectId) {
+  await db.collection<JournalEntryDoc>("journal_entries").deleteOne({ "source.entryId": entryId })
+}
+
+// Post again every entry of a party account, e.g. after its type moved it to another control account
+export async function resyncAccountJournals(db: Db, organizationId: ObjectId, accountId: ObjectId) {
+  const entries = await db.collection<EntryDoc>("entries").find({ accountId, organizationId }).toArray()
+  await syncEntryJournals(db, organizationId, entries)
+}
+
+const BACKFILL_BATCH_SIZE = 500
+
+// Entries written before the journal existed are posted the first time the organization's ledger is read
+export async function ensureJournal(db: Db, organizationId: ObjectId) {
+  const organization = await db
+    .collection("organizations")
+    .findOne({ _id: organizationId }, { projection: { journalReady: 1 } })
+  if (organization?.journalReady) return
+
+  const cursor = db.collection<EntryDoc>("entries").find({ organizationId })
+  let batch: EntryDoc[] = []
+  for await (const entry of cursor) {
+    batch.push(entry)
+    if (batch.length === BACKFILL_BATCH_SIZE) {
+      await syncEntryJournals(db, organizationId, batch)
+      batch = []
+    }
+  }
+  await syncEntryJournals(db, organizationId, batch)
+  await db.collection("organizations").updateOne({ _id: organizationId }, { $set: { journalReady: true } })
+}
+
+// Post a balanced manual journal entry. The caller has already checked every line's account.
+export async function postManualJournal(
+  db: Db,
+  organizationId: ObjectId,
+  input: JournalEntryInput,
+  actor: AuditActor,
+) {
+  await ensureLedgerIndexes(db)
+
+  const now = new Date()
+  const journal: WithId<JournalEntryDoc> = {
+    _id: new ObjectId(),
+    organizationId,
+    date: input.date,
+    memo: input.memo,
+    currency: input.currency!,
+    lines: input.lines.map((line) => ({
+      ledgerAccountId: new ObjectId(line.ledgerAccountId),
+      partyAccountId: null,
+      debit: line.debit,
+      credit: line.credit,
+    })),
+    source: { type: "manual", actor },
+    voided: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await db.collection<JournalEntryDoc>("journal_entries").insertOne(journal)
+  return serializeJournalEntry(journal)
+}
+
+export async function findJournalEntry(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<JournalEntryDoc>("journal_entries").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// Void a manual journal entry. Entries posted from the statement follow their statement entry instead.
+// Returns false when it is already voided.
+export async function voidManualJournal(db: Db, journal: { _id: ObjectId }, actor: AuditActor) {
+  const result = await db
+    .collection<JournalEntryDoc>("journal_entries")
+    .updateOne(
+      { _id: journal._id, "source.type": "manual", voided: null },
+      { $set: { voided: { at: new Date(), actor }, updatedAt: new Date() } },
+    )
+  return result.modifiedCount > 0
+}
+
+export interface SettlementPayment {
+  _id: ObjectId
+  date: string
+  memo: string
+  currency: string
+  amount: number
+  counterAccountId: ObjectId | null
+}
+
+// Post the payment of an agent settlement: `amount` is what the organization owed the agent (negative when
+// the agent owed it), moved from the agent clearing account to the cash or bank account it was paid through
+export async function postSettlementJournal(
+  db: Db,
+  organizationId: ObjectId,
+  settlement: SettlementPayment,
+) {
+  const chart = await ensureChartOfAccounts(db, organizationId)
+  const paid = Math.abs(settlement.amount)
+  const owed = settlement.amount > 0
+  const now = new Date()
+  await db.collection<JournalEntryDoc>("journal_entries").insertOne({
+    organizationId,
+    date: settlement.date,
+    memo: settlement.memo,
+    currency: settlement.currency,
+    lines: [
+      {
+        ledgerAccountId: chart.get(AGENT_CLEARING_KEY)!,
+        partyAccountId: null,
+        debit: owed ? paid : 0,
+        credit: owed ? 0 : paid,
+      },
+      {
+        ledgerAccountId: settlement.counterAccountId ?? chart.get(DEFAULT_COUNTER_KEY)!,
+        partyAccountId: null,
+        debit: owed ? 0 : paid,
+        credit: owed ? paid : 0,
+      },
+    ],
+    source: { type: "settlement", settlementId: settlement._id },
+    voided: null,
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+export async function voidSettlementJournal(db: Db, settlementId: ObjectId, actor: AuditActor) {
+  await db
+    .collection<JournalEntryDoc>("journal_entries")
+    .updateOne(
+      { "source.settlementId": settlementId, voided: null },
+      { $set: { voided: { at: new Date(), actor }, updatedAt: new Date() } },
+    )
+}
+
+export const JOURNAL_PAGE_SIZE = 100
+
+// Journal entries in a date range, newest first, voided ones included so the journal reads as a log
+export async function listJournalEntries(
+  db: Db,
+  organizationId: ObjectId,
+  { startDate, endDate }: { startDate?: string; endDate?: string },
+) {
+  await ensureJournal(db, organizationId)
+  const journals = await db
+    .collection<JournalEntryDoc>("journal_entries")
+    .find({
+      organizationId,
+      ...((startDate || endDate) && {
+        date: { ...(startDate && { $gte: startDate }), ...(endDate && { $lte: endDate }) },
+      }),
+    })
+    .sort({ date: -1, _id: -1 })
+    .limit(JOURNAL_PAGE_SIZE)
+    .toArray()
+  return journals.map(serializeJournalEntry)
+}
+
+// Debit and credit totals per ledger account and currency up to `asOf`. Each currency balances on its own.
+export async function getTrialBalance(db: Db, organizationId: ObjectId, asOf: string): Promise<TrialBalanceRow[]> {
+  await ensureJournal(db, organizationId)
+  const totals = await db
+    .collection<JournalEntryDoc>("journal_entries")
+    .aggregate([
+      { $match: { organizationId, voided: null, date: { $lte: asOf } } },
+      { $unwind: "$lines" },
+      {
+        $group: {
+          _id: { ledgerAccountId: "$lines.ledgerAccountId", currency: "$currency" },
+          debit: { $sum: "$lines.debit" },
+          credit: { $sum: "$lines.credit" },
+        },
+      },
+    ])
+    .toArray()
+
+  const accounts = await db.collection<LedgerAccountDoc>("ledger_accounts").find({ organizationId }).toArray()
+  const byId = new Map(accounts.map((account) => [account._id.toString(), account]))
+
+  return totals
+    .flatMap((total) => {
+      const account = byId.get(total._id.ledgerAccountId.toString())
+      if (!account) return []
+      return [
+        {
+          ledgerAccountId: account._id.toString(),
+          code: account.code,
+          name: account.name,
+          type: account.type,
+          currency: total._id.currency,
+          debit: total.debit,
+          credit: total.credit,
+        },
+      ]
+    })
+    .sort((a, b) => a.currency.localeCompare(b.currency) || a.code.localeCompare(b.code))
+}
+
+export interface LedgerViewQuery {
+  startDate?: string
+  endDate?: string
+  currency?: string
+  partyAccountId?: ObjectId
+}
+
+// One ledger account's journal lines in the statement's AccountEntry shape, oldest first, with the same
+// running balance convention (credit minus debit), so a party's lines on its control account read exactly
+// like its statement. A ledger account can hold several currencies; the view shows one at a time.
+export async function getLedgerAccountView(
+  db: Db,
+  organizationId: ObjectId,
+  ledgerAccountId: ObjectId,
+  query: LedgerViewQuery,
+) {
+  await ensureJournal(db, organizationId)
+
+  const lineMatch = {
+    "lines.ledgerAccountId": ledgerAccountId,
+    ...(query.partyAccountId && { "lines.partyAccountId": query.partyAccountId }),
+  }
+  const journalMatch = { organizationId, voided: null, ...lineMatch }
+  const base = [{ $match: journalMatch }, { $unwind: "$lines" }, { $match: lineMatch }]
+
+  const journals = db.collection<JournalEntryDoc>("journal_entries")
+  const currencies: string[] = (await journals.distinct("currency", journalMatch)).sort()
+  const currency = query.currency ?? currencies[0] ?? DEFAULT_BASE_CURRENCY
+
+  const [opening] = query.startDate
+    ? await journals
+        .aggregate([
+          ...base,
+          { $match: { currency, date: { $lt: query.startDate } } },
+          { $group: { _id: null, balance: { $sum: { $subtract: ["$lines.credit", "$lines.debit"] } } } },
+        ])
+        .toArray()
+    : []
+
+  const rows = await journals
+    .aggregate([
+      ...base,
+      {
+        $match: {
+          currency,
+          ...((query.startDate || query.endDate) && {
+            date: { ...(query.startDate && { $gte: query.startDate }), ...(query.endDate && { $lte: query.endDate }) },
+          }),
+        },
+      },
+      { $sort: { date: 1, _id: 1 } },
+    ])
+    .toArray()
+
+  const openingBalance: number = opening?.balance ?? 0
+  let balance = openingBalance
+  const entries: AccountEntry[] = rows.map((row) => {
+    balance += row.lines.credit - row.lines.debit
+    return {
+      id: row._id.toString(),
+      accountId: ledgerAccountId.toString(),
+      date: row.date,
+      particulars: row.memo,
+      debitCountry: row.lines.debitCountry ?? 0,
+      debit: row.lines.debit,
+      creditCountry: row.lines.creditCountry ?? 0,
+      credit: row.lines.credit,
+      countryCurrency: row.lines.countryCurrency ?? undefined,
+      exchangeRate: null,
+      balance,
+    }
+  })
+
+  return { currencies, currency, openingBalance, closingBalance: balance, entries }
+}
@@ -1,4 +1,4 @@
-import { MongoClient, type Db } from "mongodb"
+import { MongoClient, MongoServerError, type Db } from "mongodb"
 
 if (!process.env.MONGODB_URI) {
   throw new Error("Please add your MongoDB URI to .env.local")
@@ -34,3 +34,8 @@ export async function getDatabase(): Promise<Db> {
   const client = await clientPromise
   return client.db("account_statement")
 }
+
+// A write refused by a unique index (E11000), e.g. when two requests insert the same key at once
+export function isDuplicateKeyError(error: unknown) {
+  return error instanceof MongoServerError && error.code === 11000
+}
@@ -0,0 +1,43 @@
+import { z } from "zod"
+import type { Db, ObjectId } from "mongodb"
+
+// Business details printed at the top of generated statements
+export interface Letterhead {
+  name: string
+  address: string | null
+  // JPEG as a data: URL, kept small enough to live on the organization document
+  logo: string | null
+}
+
+export const MAX_LOGO_BYTES = 200 * 1024
+
+const JPEG_DATA_URL = /^data:image\/jpeg;base64,[A-Za-z0-9+/]+=*$/
+
+export const letterheadSchema = z.object({
+  name: z.string().trim().min(1, "Business name is required").max(200),
+  address: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() || null : (value ?? null)),
+    z.string().max(500, "Address must be at most 500 characters").nullable(),
+  ),
+  logo: z
+    .string()
+    .regex(JPEG_DATA_URL, "Logo must be a JPEG image")
+    .refine((value) => logoBytes(value).length <= MAX_LOGO_BYTES, "Logo must be at most 200 KB")
+    .nullable()
+    .default(null),
+})
+
+export function logoBytes(dataUrl: string) {
+  return new Uint8Array(Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64"))
+}
+
+export async function getLetterhead(db: Db, organizationId: ObjectId): Promise<Letterhead> {
+  const organization = await db
+    .collection("organizations")
+    .findOne({ _id: organizationId }, { projection: { name: 1, address: 1, logo: 1 } })
+  return {
+    name: organization?.name ?? "",
+    address: organization?.address ?? null,
+    logo: organization?.logo ?? null,
+  }
+}
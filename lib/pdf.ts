@@ -0,0 +1,253 @@
+// Minimal PDF 1.4 writer: text in the built-in Helvetica fonts, rules and JPEG images.
+// Coordinates are in points from the top-left corner of the page. Text is WinAnsi encoded: accented
+// letters outside it print without their accent and other characters as "?", and the document records
+// that it did so in `substituted` so the caller can tell the reader.
+
+export type PdfFont = "regular" | "bold"
+
+export interface PdfImage {
+  name: string
+  data: Uint8Array
+  width: number
+  height: number
+  colorSpace: "DeviceGray" | "DeviceRGB"
+}
+
+export interface PdfPage {
+  operations: string[]
+}
+
+export interface PdfDocument {
+  width: number
+  height: number
+  pages: PdfPage[]
+  images: PdfImage[]
+  // Whether any drawn text had characters replaced because WinAnsi cannot encode them
+  substituted: boolean
+}
+
+export const A4_LANDSCAPE = { width: 841.89, height: 595.28 }
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" }
+
+// Advance widths of characters 32-126 per 1000 units of font size, from the standard Helvetica metrics
+// prettier-ignore
+const CHAR_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+    556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+    556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+    500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+    611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+    611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+    556, 556, 500, 389, 280, 389, 584,
+  ],
+}
+
+// Characters WinAnsi places in 0x80-0x9F, where Latin-1 has control codes
+// prettier-ignore
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+  // Narrow spaces used as digit group separators by some locales
+  0x202f: 32, 0x2009: 32,
+}
+
+// Latin-1 maps onto WinAnsi unchanged from 0xA0 upwards
+function winAnsiByte(char: string): number | undefined {
+  const code = char.codePointAt(0)!
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code
+  return WIN_ANSI_EXTRAS[code]
+}
+
+// Encoded bytes of `text`, and whether any character had to be replaced
+function encodeWinAnsi(text: string) {
+  const bytes: number[] = []
+  let substituted = false
+  for (const char of text) {
+    let byte = winAnsiByte(char)
+    if (byte === undefined) {
+      substituted = true
+      // Letters such as "ă" or "ș" decompose into a base letter WinAnsi has and a combining accent
+      byte = winAnsiByte(char.normalize("NFD")[0]) ?? 63
+    }
+    bytes.push(byte)
+  }
+  return { bytes, substituted }
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = "regular") {
+  const widths = CHAR_WIDTHS[font]
+  const units = encodeWinAnsi(text).bytes.reduce((sum, code) => sum + (widths[code - 32] ?? 556), 0)
+  return (units * size) / 1000
+}
+
+// Shorten `text` with an ellipsis until it fits in `maxWidth`
+export function fitText(text: string, maxWidth: number, size: number, font: PdfFont = "regular") {
+  if (textWidth(text, size, font) <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && textWidth(`${text.slice(0, end)}...`, size, font) > maxWidth) end--
+  return `${text.slice(0, end)}...`
+}
+
+export function createPdfDocument(size = A4_LANDSCAPE): PdfDocument {
+  return { ...size, pages: [], images: [], substituted: false }
+}
+
+export function addPage(doc: PdfDocument) {
+  const page: PdfPage = { operations: [] }
+  doc.pages.push(page)
+  return page
+}
+
+function pt(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+export function drawText(
+  doc: PdfDocument,
+  page: PdfPage,
+  text: string,
+  x: number,
+  top: number,
+  { size = 10, font = "regular", align = "left" }: { size?: number; font?: PdfFont; align?: "left" | "right" } = {},
+) {
+  const left = align === "right" ? x - textWidth(text, size, font) : x
+  // `top` is the top of the line; PDF positions text by its baseline
+  const baseline = doc.height - top - size * 0.8
+  const { bytes, substituted } = encodeWinAnsi(text)
+  if (substituted) doc.substituted = true
+  const hex = bytes.map((code) => code.toString(16).padStart(2, "0")).join("")
+  page.operations.push(`BT /${FONT_NAMES[font]} ${pt(size)} Tf ${pt(left)} ${pt(baseline)} Td <${hex}> Tj ET`)
+}
+
+export function drawLine(doc: PdfDocument, page: PdfPage, x1: number, top1: number, x2: number, top2: number, width = 0.5) {
+  page.operations.push(
+    `${pt(width)} w ${pt(x1)} ${pt(doc.height - top1)} m ${pt(x2)} ${pt(doc.height - top2)} l S`,
+  )
+}
+
+export function fillRect(doc: PdfDocument, page: PdfPage, x: number, top: number, width: number, height: number, gray: number) {
+  page.operations.push(`q ${gray} g ${pt(x)} ${pt(doc.height - top - height)} ${pt(width)} ${pt(height)} re f Q`)
+}
+
+// Register a baseline or progressive JPEG. Returns null for anything the reader cannot size or that is CMYK.
+export function addJpegImage(doc: PdfDocument, data: Uint8Array): PdfImage | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null
+
+  let i = 2
+  while (i + 9 < data.length) {
+    if (data[i] !== 0xff) return null
+    const marker = data[i + 1]
+    const length = (data[i + 2] << 8) | data[i + 3]
+    // Start-of-frame markers carry the dimensions; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (data[i + 5] << 8) | data[i + 6]
+      const width = (data[i + 7] << 8) | data[i + 8]
+      const components = data[i + 9]
+      if (components !== 1 && components !== 3) return null
+
+      const image: PdfImage = {
+        name: `Im${doc.images.length + 1}`,
+        data,
+        width,
+        height,
+        colorSpace: components === 1 ? "DeviceGray" : "DeviceRGB",
+      }
+      doc.images.push(image)
+      return image
+    }
+    i += 2 + length
+  }
+  return null
+}
+
+export function drawImage(
+  doc: PdfDocument,
+  page: PdfPage,
+  image: PdfImage,
+  x: number,
+  top: number,
+  width: number,
+  height: number,
+) {
+  page.operations.push(`q ${pt(width)} 0 0 ${pt(height)} ${pt(x)} ${pt(doc.height - top - height)} cm /${image.name} Do Q`)
+}
+
+// Serialize the document. Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs.
+export function renderPdf(doc: PdfDocument): Uint8Array {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const writeObject = (number: number, body: string, stream?: Uint8Array) => {
+    offsets[number] = length
+    write(`${number} 0 obj\n${body}\n`)
+    if (stream) {
+      write("stream\n")
+      write(stream)
+      write("\nendstream\n")
+    }
+    write("endobj\n")
+  }
+
+  const firstImage = 5
+  const firstPage = firstImage + doc.images.length
+  const pageNumbers = doc.pages.map((_, index) => firstPage + index * 2)
+  const xObjects = doc.images.map((image, index) => `/${image.name} ${firstImage + index} 0 R`).join(" ")
+  const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >>`
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n")
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>")
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pageNumbers.map((number) => `${number} 0 R`).join(" ")}] /Count ${doc.pages.length} ` +
+      `/MediaBox [0 0 ${pt(doc.width)} ${pt(doc.height)}] >>`,
+  )
+  writeObject(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  writeObject(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+
+  doc.images.forEach((image, index) => {
+    writeObject(
+      firstImage + index,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data,
+    )
+  })
+
+  doc.pages.forEach((page, index) => {
+    const content = encoder.encode(page.operations.join("\n"))
+    writeObject(pageNumbers[index], `<< /Type /Page /Parent 2 0 R /Resources ${resources} /Contents ${pageNumbers[index] + 1} 0 R >>`)
+    writeObject(pageNumbers[index] + 1, `<< /Length ${content.length} >>`, content)
+  })
+
+  const objectCount = firstPage + doc.pages.length * 2
+  const xrefOffset = length
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let number = 1; number < objectCount; number++) {
+    write(`${offsets[number].toString().padStart(10, "0")} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const output = new Uint8Array(length)
+  let position = 0
+  for (const chunk of chunks) {
+    output.set(chunk, position)
+    position += chunk.length
+  }
+  return output
+}
@@ -0,0 +1,48 @@
+// Fiscal periods are calendar months and years, identified by "yyyy-mm" and "yyyy" keys
+
+export const PERIOD_TYPES = ["month", "year"] as const
+
+export type PeriodType = (typeof PERIOD_TYPES)[number]
+
+export interface Period {
+  key: string
+  type: PeriodType
+  startDate: string
+  endDate: string
+}
+
+// Parse a period key into its first and last day; null for anything else
+export function parsePeriod(key: string): Period | null {
+  const month = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(key)
+  if (month) {
+    const lastDay = new Date(Date.UTC(Number(month[1]), Number(month[2]), 0)).getUTCDate()
+    return { key, type: "month", startDate: `${key}-01`, endDate: `${key}-${String(lastDay).padStart(2, "0")}` }
+  }
+  if (/^\d{4}$/.test(key)) {
+    return { key, type: "year", startDate: `${key}-01-01`, endDate: `${key}-12-31` }
+  }
+  return null
+}
+
+export function periodLabel(key: string) {
+  const period = parsePeriod(key)
+  if (!period || period.type === "year") return key
+  return new Date(`${period.startDate}T00:00:00Z`).toLocaleDateString("en-GB", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+// The last `months` months and `years` years up to today, most recent first
+export function recentPeriods(months = 12, years = 3, today = new Date()) {
+  const keys: string[] = []
+  for (let offset = 0; offset < months; offset++) {
+    const month = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - offset, 1))
+    keys.push(month.toISOString().slice(0, 7))
+  }
+  for (let offset = 0; offset < years; offset++) {
+    keys.push(String(today.getUTCFullYear() - offset))
+  }
+  return keys
+}
@@ -0,0 +1,182 @@
+import type { Db, ObjectId, WithId } from "mongodb"
+import { z } from "zod"
+import { isoDate } from "@/lib/entry-schema"
+import type { AuditActor } from "@/lib/audit"
+import { ensureBalances, getBalanceAsOf, inBalance, previousDay } from "@/lib/balances"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { parsePeriod, type Period } from "@/lib/period-keys"
+import type { EntryDoc } from "@/lib/entries"
+import type { AccountDoc } from "@/lib/accounts"
+
+// Entries dated on or before an organization's lock date are posted for good: they cannot be created,
+// edited, voided or restored. Mistakes in a locked period are corrected with a reversal dated after it.
+export interface PeriodLock {
+  lockedThrough: string | null
+  updatedAt?: Date
+  updatedBy?: AuditActor
+}
+
+export const periodLockSchema = z.object({
+  lockedThrough: isoDate.nullable(),
+})
+
+export async function getLockDate(db: Db, organizationId: ObjectId): Promise<string | null> {
+  const organization = await db
+    .collection("organizations")
+    .findOne({ _id: organizationId }, { projection: { periodLock: 1 } })
+  return organization?.periodLock?.lockedThrough ?? null
+}
+
+export function isLocked(date: string, lockDate: string) {
+  return date <= lockDate
+}
+
+export function periodLockedMessage(lockDate: string) {
+  return `Entries dated on or before ${lockDate} are locked. Post a reversal instead.`
+}
+
+export async function setLockDate(db: Db, organizationId: ObjectId, lockedThrough: string | null, actor: AuditActor) {
+  const periodLock: PeriodLock = { lockedThrough, updatedAt: new Date(), updatedBy: actor }
+  await db.collection("organizations").updateOne({ _id: organizationId }, { $set: { periodLock } })
+  return periodLock
+}
+
+export interface AccountClosingBalance {
+  accountId: string
+  name: string
+  baseCurrency: string
+  openingBalance: number
+  debits: number
+  credits: number
+  closingBalance: number
+  entryCount: number
+}
+
+export interface PeriodClose extends Period {
+  id: string
+  closedAt: Date
+  closedBy: { name: string; email: string }
+  accounts: AccountClosingBalance[]
+}
+
+// A period close as stored
+interface PeriodCloseDoc extends Period {
+  organizationId: ObjectId
+  closedAt: Date
+  closedBy: AuditActor
+  accounts: (Omit<AccountClosingBalance, "accountId"> & { accountId: ObjectId })[]
+}
+
+export const periodCloseSchema = z.object({
+  period: z
+    .string({ required_error: "Period is required" })
+    .refine((key) => parsePeriod(key) !== null, "Period must be YYYY-MM or YYYY"),
+})
+
+let indexReady: Promise<unknown> | null = null
+
+function ensurePeriodIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = db
+      .collection<PeriodCloseDoc>("period_closes")
+      .createIndex({ organizationId: 1, key: 1 }, { unique: true })
+  }
+  return indexReady
+}
+
+export function serializePeriodClose(close: WithId<PeriodCloseDoc>): PeriodClose {
+  return {
+    id: close._id.toString(),
+    key: close.key,
+    type: close.type,
+    startDate: close.startDate,
+    endDate: close.endDate,
+    closedAt: close.closedAt,
+    closedBy: { name: close.closedBy.name, email: close.closedBy.email },
+    accounts: close.accounts.map((account) => ({ ...account, accountId: account.accountId.toString() })),
+  }
+}
+
+// Last day of the latest closed period, or null when none is closed. The lock date cannot move before it,
+// or entries could change under a closing snapshot.
+export async function getClosedThrough(db: Db, organizationId: ObjectId): Promise<string | null> {
+  const latest = await db
+    .collection<PeriodCloseDoc>("period_closes")
+    .findOne({ organizationId }, { sort: { endDate: -1 }, projection: { endDate: 1 } })
+  return latest?.endDate ?? null
+}
+
+export async function findPeriodClose(db: Db, organizationId: ObjectId, key: string) {
+  return db.collection<PeriodCloseDoc>("period_closes").findOne({ organizationId, key })
+}
+
+// Most recent period first
+export async function listPeriodCloses(db: Db, organizationId: ObjectId) {
+  const closes = await db
+    .collection<PeriodCloseDoc>("period_closes")
+    .find({ organizationId }, { projection: { accounts: 0 } })
+    .sort({ endDate: -1, type: 1 })
+    .toArray()
+  return closes.map((close) => serializePeriodClose({ ...close, accounts: [] }))
+}
+
+// Snapshot every account's opening and closing balance and period totals, then lock the period so
+// the snapshot stays true. The next period's opening balance is this period's closing balance.
+export async function closePeriod(db: Db, organizationId: ObjectId, period: Period, actor: AuditActor) {
+  await ensurePeriodIndexes(db)
+
+  const accounts = await db.collection<AccountDoc>("accounts").find({ organizationId }).sort({ name: 1 }).toArray()
+  const totals = await db
+    .collection<EntryDoc>("entries")
+    .aggregate([
+      { $match: { organizationId, ...inBalance, date: { $gte: period.startDate, $lte: period.endDate } } },
+      {
+        $group: {
+          _id: "$accountId",
+          debits: { $sum: "$debit" },
+          credits: { $sum: "$credit" },
+          entryCount: { $sum: 1 },
+        },
+      },
+    ])
+    .toArray()
+  const totalsByAccount = new Map(totals.map((total) => [total._id.toString(), total]))
+
+  const snapshots: PeriodCloseDoc["accounts"] = []
+  for (const account of accounts) {
+    const total = totalsByAccount.get(account._id.toString())
+    // Archived accounts only appear when they still had activity in the period
+    if (account.archived && !total) continue
+
+    await ensureBalances(db, account._id)
+    const openingBalance = await getBalanceAsOf(db, account._id, previousDay(period.startDate))
+    const debits = total?.debits ?? 0
+    const credits = total?.credits ?? 0
+    snapshots.push({
+      accountId: account._id,
+      name: account.name,
+      baseCurrency: account.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+      openingBalance,
+      debits,
+      credits,
+      closingBalance: openingBalance + credits - debits,
+      entryCount: total?.entryCount ?? 0,
+    })
+  }
+
+  const close: PeriodCloseDoc = {
+    organizationId,
+    ...period,
+    closedAt: new Date(),
+    closedBy: actor,
+    accounts: snapshots,
+  }
+  const result = await db.collection<PeriodCloseDoc>("period_closes").insertOne(close)
+
+  const lockDate = await getLockDate(db, organizationId)
+  if (!lockDate || lockDate < period.endDate) {
+    await setLockDate(db, organizationId, period.endDate, actor)
+  }
+
+  return serializePeriodClose({ ...close, _id: result.insertedId })
+}
@@ -0,0 +1,312 @@
+// Minimal QR code encoder: byte mode, error correction level M, versions 1-10 (up to 213 bytes of UTF-8),
+// which is plenty for transfer references. Returns the module matrix; drawing it is up to the caller.
+// Nothing here touches Node APIs so receipts can render the code in the browser.
+
+// Per version at level M: error correction codewords per block and the data codewords of each block
+const VERSIONS: { ecPerBlock: number; blocks: number[] }[] = [
+  { ecPerBlock: 10, blocks: [16] },
+  { ecPerBlock: 16, blocks: [28] },
+  { ecPerBlock: 26, blocks: [44] },
+  { ecPerBlock: 18, blocks: [32, 32] },
+  { ecPerBlock: 24, blocks: [43, 43] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27] },
+  { ecPerBlock: 18, blocks: [31, 31, 31, 31] },
+  { ecPerBlock: 22, blocks: [38, 38, 39, 39] },
+  { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37] },
+  { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44] },
+]
+
+const ALIGNMENT_POSITIONS = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+]
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+// Multiplication in GF(256) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)))
+  }
+  return result
+}
+
+function bit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0
+}
+
+// Data codewords of `bytes` padded to the capacity of `version`, then split into blocks, each followed by
+// its error correction codewords, interleaved as the standard requires
+function codewords(bytes: Uint8Array, version: number) {
+  const { ecPerBlock, blocks } = VERSIONS[version - 1]
+  const capacity = blocks.reduce((sum, size) => sum + size, 0)
+
+  const bits: boolean[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push(bit(value, i))
+  }
+  append(0b0100, 4)
+  append(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach((byte) => append(byte, 8))
+  append(0, Math.min(4, capacity * 8 - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const data: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, set) => (byte << 1) | (set ? 1 : 0), 0))
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) data.push(pad)
+
+  const divisor = reedSolomonDivisor(ecPerBlock)
+  const dataBlocks: number[][] = []
+  const ecBlocks: number[][] = []
+  let offset = 0
+  for (const size of blocks) {
+    const block = data.slice(offset, offset + size)
+    dataBlocks.push(block)
+    ecBlocks.push(reedSolomonRemainder(block, divisor))
+    offset += size
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < Math.max(...blocks); i++) {
+    for (const block of dataBlocks) if (i < block.length) result.push(block[i])
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    for (const block of ecBlocks) result.push(block[i])
+  }
+  return result
+}
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly reserved: boolean[][]
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.reserved[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [this.size - 4, 3],
+      [3, this.size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4)
+          }
+        }
+      }
+    }
+
+    const positions = ALIGNMENT_POSITIONS[this.version - 1]
+    const last = positions.length - 1
+    positions.forEach((cx, i) =>
+      positions.forEach((cy, j) => {
+        // The corners are taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      }),
+    )
+
+    // Reserve the format areas now; the real bits are written once the mask is chosen
+    this.drawFormat(0)
+
+    if (this.version >= 7) {
+      let remainder = this.version
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+      const bits = (this.version << 12) | remainder
+      for (let i = 0; i < 18; i++) {
+        const a = this.size - 11 + (i % 3)
+        const b = Math.floor(i / 3)
+        this.setFunction(a, b, bit(bits, i))
+        this.setFunction(b, a, bit(bits, i))
+      }
+    }
+  }
+
+  // Level M is 00 in the format information, so only the mask number is encoded
+  drawFormat(mask: number) {
+    const data = mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(bits, i))
+    this.setFunction(8, 7, bit(bits, 6))
+    this.setFunction(8, 8, bit(bits, 7))
+    this.setFunction(7, 8, bit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(bits, i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  // Codewords fill two-module columns from the bottom right, zig-zagging up and down and skipping the
+  // vertical timing pattern
+  drawCodewords(data: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.reserved[y][x] && i < data.length * 8) {
+            this.modules[y][x] = bit(data[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  // Penalty score from the standard: long runs, 2x2 blocks, finder-like patterns and dark/light imbalance
+  penalty() {
+    const { size, modules } = this
+    let score = 0
+    const finderLike = [true, false, true, true, true, false, true, false, false, false, false]
+    const lines = [
+      ...modules,
+      ...Array.from({ length: size }, (_, x) => modules.map((row) => row[x])),
+    ]
+
+    for (const line of lines) {
+      let run = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++
+        } else {
+          if (run >= 5) score += run - 2
+          run = 1
+        }
+      }
+      for (let i = 0; i + finderLike.length <= size; i++) {
+        const forward = finderLike.every((dark, k) => line[i + k] === dark)
+        const backward = finderLike.every((dark, k) => line[i + finderLike.length - 1 - k] === dark)
+        if (forward || backward) score += 40
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x]
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          score += 3
+        }
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10
+    return score
+  }
+}
+
+// Module matrix of the smallest QR code holding `text`, rows top to bottom, true for dark modules.
+// Throws when the text does not fit version 10.
+export function encodeQr(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text)
+  const version = VERSIONS.findIndex(({ blocks }, i) => {
+    const capacity = blocks.reduce((sum, size) => sum + size, 0)
+    const headerBits = 4 + (i + 1 < 10 ? 8 : 16)
+    return headerBits + bytes.length * 8 <= capacity * 8
+  })
+  if (version === -1) throw new Error("Text is too long for a QR code")
+
+  const matrix = new QrMatrix(version + 1)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(codewords(bytes, version + 1))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormat(mask)
+    const penalty = matrix.penalty()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask)
+  }
+  matrix.applyMask(bestMask)
+  matrix.drawFormat(bestMask)
+
+  return matrix.modules
+}
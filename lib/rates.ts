@@ -0,0 +1,152 @@
+import { z } from "zod"
+import type { Db, ObjectId, WithId } from "mongodb"
+import { currencyCode, isoDate } from "@/lib/entry-schema"
+import { parseCsv } from "@/lib/csv"
+
+export interface ExchangeRate {
+  _id?: string
+  id?: string
+  // One unit of fromCurrency buys `rate` units of toCurrency
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  effectiveDate: string
+  source: "manual" | "import"
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// Snapshot of the rate stored on an entry so later rate edits do not change its history
+export interface AppliedRate {
+  rateId: string
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  effectiveDate: string
+  inverted: boolean
+}
+
+const requiredCurrency = currencyCode.pipe(z.string({ required_error: "Currency is required" }))
+
+// A rate as stored
+export interface RateDoc extends Omit<ExchangeRate, "_id" | "id"> {
+  organizationId: ObjectId
+}
+
+export const rateSchema = z
+  .object({
+    fromCurrency: requiredCurrency,
+    toCurrency: requiredCurrency,
+    rate: z.preprocess(
+      (value) => (typeof value === "string" ? Number(value) : value),
+      z.number({ invalid_type_error: "Must be a number" }).finite("Must be a number").positive("Must be positive"),
+    ),
+    effectiveDate: isoDate,
+  })
+  .refine((rate) => rate.fromCurrency !== rate.toCurrency, {
+    message: "Currencies must differ",
+    path: ["toCurrency"],
+  })
+
+export type RateInput = z.output<typeof rateSchema>
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureRateIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = db
+      .collection<RateDoc>("rates")
+      .createIndex({ organizationId: 1, fromCurrency: 1, toCurrency: 1, effectiveDate: 1 }, { unique: true })
+  }
+  return indexReady
+}
+
+export function serializeRate({ _id, organizationId, ...rate }: WithId<RateDoc>): ExchangeRate {
+  return { ...rate, id: _id.toString() }
+}
+
+// The rate effective on `date` is the latest one of the organization dated on or before it. When only the
+// opposite pair has been recorded its reciprocal is used.
+export async function findEffectiveRate(
+  db: Db,
+  organizationId: ObjectId,
+  from: string,
+  to: string,
+  date: string,
+): Promise<AppliedRate | null> {
+  if (from === to) return null
+
+  const rates = db.collection<RateDoc>("rates")
+  const latestOnOrBefore = { sort: { effectiveDate: -1 as const } }
+
+  const direct = await rates.findOne(
+    { organizationId, fromCurrency: from, toCurrency: to, effectiveDate: { $lte: date } },
+    latestOnOrBefore,
+  )
+  if (direct) {
+    return {
+      rateId: direct._id.toString(),
+      fromCurrency: from,
+      toCurrency: to,
+      rate: direct.rate,
+      effectiveDate: direct.effectiveDate,
+      inverted: false,
+    }
+  }
+
+  const inverse = await rates.findOne(
+    { organizationId, fromCurrency: to, toCurrency: from, effectiveDate: { $lte: date } },
+    latestOnOrBefore,
+  )
+  if (inverse) {
+    return {
+      rateId: inverse._id.toString(),
+      fromCurrency: from,
+      toCurrency: to,
+      rate: 1 / inverse.rate,
+      effectiveDate: inverse.effectiveDate,
+      inverted: true,
+    }
+  }
+
+  return null
+}
+
+export interface RateSheetError {
+  line: number
+  message: string
+}
+
+const RATE_SHEET_COLUMNS = ["date", "from", "to", "rate"] as const
+
+// Parse a rate sheet with a header row naming date, from, to and rate columns (any order, extra columns ignored)
+export function parseRateSheet(text: string): { rates: RateInput[]; errors: RateSheetError[] } {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return { rates: [], errors: [{ line: 1, message: "File is empty" }] }
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const missing = RATE_SHEET_COLUMNS.filter((name) => !columns.includes(name))
+  if (missing.length > 0) {
+    return { rates: [], errors: [{ line: 1, message: `Missing column(s): ${missing.join(", ")}` }] }
+  }
+
+  const rates: RateInput[] = []
+  const errors: RateSheetError[] = []
+  rows.forEach((row, index) => {
+    const cell = (name: (typeof RATE_SHEET_COLUMNS)[number]) => row[columns.indexOf(name)]?.trim()
+    const parsed = rateSchema.safeParse({
+      effectiveDate: cell("date"),
+      fromCurrency: cell("from"),
+      toCurrency: cell("to"),
+      rate: cell("rate"),
+    })
+
+    if (parsed.success) {
+      rates.push(parsed.data)
+    } else {
+      errors.push({ line: index + 2, message: parsed.error.issues.map((issue) => issue.message).join("; ") })
+    }
+  })
+
+  return { rates, errors }
+}
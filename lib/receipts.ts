@@ -0,0 +1,42 @@
+import type { Db, ObjectId } from "mongodb"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import { serializeEntry, type AccountEntry, type EntryDoc } from "@/lib/entries"
+import { getLetterhead, type Letterhead } from "@/lib/organization"
+import { ensureEntryReference } from "@/lib/references"
+import type { AccountDoc } from "@/lib/accounts"
+import type { AgentDoc } from "@/lib/agents"
+import type { ContactDoc } from "@/lib/contacts"
+
+// Everything a printed receipt or payout voucher shows about one entry
+export interface EntryReceipt {
+  entry: AccountEntry
+  account: { name: string; baseCurrency: string }
+  letterhead: Letterhead
+  contact: { name: string; phone: string | null; country: string | null; idDocumentNumber: string | null } | null
+  agent: { name: string; country: string } | null
+}
+
+export async function getEntryReceipt(db: Db, organizationId: ObjectId, entry: EntryDoc): Promise<EntryReceipt> {
+  const reference = await ensureEntryReference(db, entry)
+  const [account, letterhead, contact, agent] = await Promise.all([
+    db
+      .collection<AccountDoc>("accounts")
+      .findOne({ _id: entry.accountId }, { projection: { name: 1, baseCurrency: 1 } }),
+    getLetterhead(db, organizationId),
+    entry.contactId ? db.collection<ContactDoc>("contacts").findOne({ _id: entry.contactId, organizationId }) : null,
+    entry.agentId ? db.collection<AgentDoc>("agents").findOne({ _id: entry.agentId, organizationId }) : null,
+  ])
+
+  return {
+    entry: serializeEntry({ ...entry, reference }),
+    account: { name: account?.name ?? "", baseCurrency: account?.baseCurrency ?? DEFAULT_BASE_CURRENCY },
+    letterhead,
+    contact: contact && {
+      name: contact.name,
+      phone: contact.phone ?? null,
+      country: contact.country ?? null,
+      idDocumentNumber: contact.idDocumentNumber ?? null,
+    },
+    agent: agent && { name: agent.name, country: agent.country },
+  }
+}
@@ -0,0 +1,363 @@
+import { ObjectId, type Db, type WithId } from "mongodb"
+import { entryDelta, inBalance } from "@/lib/balances"
+import { normalizeName } from "@/lib/contacts"
+import { serializeEntry, type EntryDoc } from "@/lib/entries"
+import { recordEntryEvent, type AuditActor, type AuditContext } from "@/lib/audit"
+import type { BankLine, ParsedBankStatement } from "@/lib/bank-statements"
+
+export const BANK_LINE_STATUSES = ["unmatched", "matched", "all"] as const
+
+export type BankLineStatus = (typeof BANK_LINE_STATUSES)[number]
+
+// How the line came to be matched: by autoMatchBankLines, picked by hand, or posted from the line
+export type BankLineMatchMethod = "auto" | "manual" | "created"
+
+export interface BankLineMatch {
+  entryId: string
+  method: BankLineMatchMethod
+  at: Date
+  actor: AuditActor
+}
+
+export interface StoredBankLine extends BankLine {
+  id: string
+  accountId: string
+  statementId: string
+  match: BankLineMatch | null
+  // Summary of the matched entry, filled in by listBankLines
+  entry?: { id: string; date: string; particulars: string; debit: number; credit: number } | null
+}
+
+// A bank line as stored; `fingerprint` keeps a line imported twice from being stored twice
+export interface BankLineDoc extends BankLine {
+  organizationId: ObjectId
+  accountId: ObjectId
+  statementId: ObjectId
+  fingerprint: string
+  match: (Omit<BankLineMatch, "entryId"> & { entryId: ObjectId }) | null
+  createdAt: Date
+}
+
+// Auto-matching only pairs a line with an entry dated this many days either side of it
+export const AUTO_MATCH_WINDOW_DAYS = 3
+// Manual matching offers entries with any amount dated this close to the line
+const CANDIDATE_WINDOW_DAYS = 7
+const CANDIDATE_LIMIT = 50
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureReconciliationIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = Promise.all([
+      db.collection<BankLineDoc>("bank_lines").createIndex({ accountId: 1, fingerprint: 1 }, { unique: true }),
+      db.collection<BankLineDoc>("bank_lines").createIndex({ accountId: 1, date: -1 }),
+    ])
+  }
+  return indexReady
+}
+
+export function serializeBankLine(line: WithId<BankLineDoc>): StoredBankLine {
+  return {
+    id: line._id.toString(),
+    accountId: line.accountId.toString(),
+    statementId: line.statementId.toString(),
+    date: line.date,
+    amount: line.amount,
+    reference: line.reference,
+    description: line.description,
+    match: line.match ? { ...line.match, entryId: line.match.entryId.toString() } : null,
+  }
+}
+
+function shiftDate(date: string, days: number) {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().split("T")[0]
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000
+}
+
+function sameAmount(entry: { debit: number; credit: number }, amount: number) {
+  return Math.abs(entryDelta(entry) - amount) < 0.005
+}
+
+// Lines the parser could not read, as 1-based positions in the file
+export function unreadableBankLines(lines: BankLine[]) {
+  return lines.flatMap((line, index) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(line.date) && Number.isFinite(line.amount) && line.amount !== 0 ? [] : [index + 1],
+  )
+}
+
+// Identity of a line for re-imports. Identical lines in one file (two equal fees on the same day) are told
+// apart by their position among the identical ones, so overlapping statements skip what is already stored.
+function fingerprints(lines: BankLine[]) {
+  const counts = new Map<string, number>()
+  return lines.map((line) => {
+    const key = [line.date, line.amount.toFixed(2), line.reference, line.description].join("|")
+    const ordinal = (counts.get(key) ?? 0) + 1
+    counts.set(key, ordinal)
+    return `${key}|${ordinal}`
+  })
+}
+
+// Store a parsed statement's lines under the account, skipping lines already imported from an earlier file
+export async function importBankStatement(
+  db: Db,
+  organizationId: ObjectId,
+  accountId: ObjectId,
+  filename: string,
+  statement: ParsedBankStatement,
+  actor: AuditActor,
+) {
+  await ensureReconciliationIndexes(db)
+
+  const keys = fingerprints(statement.lines)
+  const existing = await db
+    .collection<BankLineDoc>("bank_lines")
+    .find({ accountId, fingerprint: { $in: keys } }, { projection: { fingerprint: 1 } })
+    .toArray()
+  const stored = new Set(existing.map((line) => line.fingerprint))
+
+  const statementId = new ObjectId()
+  const now = new Date()
+  const lines = statement.lines
+    .map((line, index) => ({
+      _id: new ObjectId(),
+      organizationId,
+      accountId,
+      statementId,
+      ...line,
+      fingerprint: keys[index],
+      match: null,
+      createdAt: now,
+    }))
+    .filter((line) => !stored.has(line.fingerprint))
+
+  await db.collection("bank_statements").insertOne({
+    _id: statementId,
+    organizationId,
+    accountId,
+    filename,
+    format: statement.format,
+    currency: statement.currency,
+    openingBalance: statement.openingBalance,
+    closingBalance: statement.closingBalance,
+    lineCount: statement.lines.length,
+    imported: lines.length,
+    importedAt: now,
+    importedBy: actor,
+  })
+  if (lines.length > 0) await db.collection<BankLineDoc>("bank_lines").insertMany(lines, { ordered: true })
+
+  return { statementId: statementId.toString(), imported: lines.length, skipped: statement.lines.length - lines.length }
+}
+
+export async function findBankLine(db: Db, organizationId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null
+  return db.collection<BankLineDoc>("bank_lines").findOne({ _id: new ObjectId(id), organizationId })
+}
+
+// Pair a line with an entry, mark the entry reconciled and record a reconciliation event. Returns false when
+// either side was matched meanwhile, or the entry is voided, in which case nothing changes.
+export async function linkBankLine(
+  db: Db,
+  line: { _id: ObjectId },
+  entry: { _id: ObjectId },
+  method: BankLineMatchMethod,
+  context: AuditContext,
+) {
+  const at = new Date()
+  const reconciled = { bankLineId: line._id, at }
+  const before = await db
+    .collection<EntryDoc>("entries")
+    .findOneAndUpdate(
+      { _id: entry._id, reconciled: null, ...inBalance },
+      { $set: { reconciled, updatedAt: at } },
+      { returnDocument: "before" },
+    )
+  if (!before) return false
+
+  const linked = await db
+    .collection<BankLineDoc>("bank_lines")
+    .updateOne(
+      { _id: line._id, match: null },
+      { $set: { match: { entryId: entry._id, method, at, actor: context.actor } } },
+    )
+  if (linked.modifiedCount === 0) {
+    await db.collection<EntryDoc>("entries").updateOne({ _id: entry._id }, { $set: { reconciled: null } })
+    return false
+  }
+  await recordEntryEvent(
+    db,
+    before.organizationId,
+    "reconciliation",
+    before,
+    { ...before, reconciled, updatedAt: at },
+    context,
+  )
+  return true
+}
+
+// Undo a line's match by hand; the entry is no longer reconciled and gets a reconciliation event
+export async function unlinkBankLine(
+  db: Db,
+  line: { _id: ObjectId; match?: { entryId: ObjectId } | null },
+  context: AuditContext,
+) {
+  if (!line.match) return false
+  await db.collection<BankLineDoc>("bank_lines").updateOne({ _id: line._id }, { $set: { match: null } })
+  const at = new Date()
+  const before = await db
+    .collection<EntryDoc>("entries")
+    .findOneAndUpdate(
+      { _id: line.match.entryId, "reconciled.bankLineId": line._id },
+      { $set: { reconciled: null, updatedAt: at } },
+      { returnDocument: "before" },
+    )
+  if (before) {
+    await recordEntryEvent(
+      db,
+      before.organizationId,
+      "reconciliation",
+      before,
+      { ...before, reconciled: null, updatedAt: at },
+      context,
+    )
+  }
+  return true
+}
+
+// Match every unmatched line of the account to an unreconciled entry with the same balance effect dated
+// within AUTO_MATCH_WINDOW_DAYS. A reference or counterparty name found in the particulars ranks a
+// candidate higher, then the closer date; lines whose best candidates tie are left for manual matching.
+export async function autoMatchBankLines(db: Db, accountId: ObjectId, context: AuditContext) {
+  const lines = await db
+    .collection<BankLineDoc>("bank_lines")
+    .find({ accountId, match: null })
+    .sort({ date: 1, _id: 1 })
+    .toArray()
+  if (lines.length === 0) return 0
+
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({
+      accountId,
+      ...inBalance,
+      reconciled: null,
+      date: {
+        $gte: shiftDate(lines[0].date, -AUTO_MATCH_WINDOW_DAYS),
+        $lte: shiftDate(lines[lines.length - 1].date, AUTO_MATCH_WINDOW_DAYS),
+      },
+    })
+    .toArray()
+
+  const taken = new Set<string>()
+  let matched = 0
+  for (const line of lines) {
+    const reference = line.reference.toLowerCase()
+    const description = normalizeName(line.description)
+    const candidates = entries
+      .filter(
+        (entry) =>
+          !taken.has(entry._id.toString()) &&
+          sameAmount(entry, line.amount) &&
+          daysBetween(entry.date, line.date) <= AUTO_MATCH_WINDOW_DAYS,
+      )
+      .map((entry) => {
+        const particulars = normalizeName(entry.particulars)
+        const score =
+          (reference.length >= 3 && particulars.includes(reference) ? 2 : 0) +
+          (particulars.length >= 3 && description.includes(particulars) ? 1 : 0)
+        return { entry, score, distance: daysBetween(entry.date, line.date) }
+      })
+      .sort((a, b) => b.score - a.score || a.distance - b.distance)
+
+    const [best, runnerUp] = candidates
+    if (!best || (runnerUp && runnerUp.score === best.score && runnerUp.distance === best.distance)) continue
+
+    if (await linkBankLine(db, line, best.entry, "auto", context)) {
+      taken.add(best.entry._id.toString())
+      matched++
+    }
+  }
+  return matched
+}
+
+// The account's bank lines, newest first, each with a summary of the entry it is matched to
+export async function listBankLines(db: Db, accountId: ObjectId, status: BankLineStatus) {
+  const filter = {
+    accountId,
+    ...(status === "unmatched" && { match: null }),
+    ...(status === "matched" && { match: { $ne: null } }),
+  }
+  const lines = await db.collection<BankLineDoc>("bank_lines").find(filter).sort({ date: -1, _id: -1 }).toArray()
+
+  const entryIds = lines.flatMap((line) => (line.match ? [line.match.entryId] : []))
+  const entries = entryIds.length
+    ? await db
+        .collection<EntryDoc>("entries")
+        .find({ _id: { $in: entryIds } }, { projection: { date: 1, particulars: 1, debit: 1, credit: 1 } })
+        .toArray()
+    : []
+  const byId = new Map(entries.map((entry) => [entry._id.toString(), entry]))
+
+  return lines.map((line) => {
+    const entry = line.match && byId.get(line.match.entryId.toString())
+    return {
+      ...serializeBankLine(line),
+      entry: entry
+        ? {
+            id: entry._id.toString(),
+            date: entry.date,
+            particulars: entry.particulars,
+            debit: entry.debit,
+            credit: entry.credit,
+          }
+        : null,
+    }
+  })
+}
+
+export async function countReconciliation(db: Db, accountId: ObjectId) {
+  const [unmatched, matched, unreconciledEntries] = await Promise.all([
+    db.collection<BankLineDoc>("bank_lines").countDocuments({ accountId, match: null }),
+    db.collection<BankLineDoc>("bank_lines").countDocuments({ accountId, match: { $ne: null } }),
+    db.collection<EntryDoc>("entries").countDocuments({ accountId, ...inBalance, reconciled: null }),
+  ])
+  return { unmatched, matched, unreconciledEntries }
+}
+
+// Unreconciled entries a user might match `line` to by hand: those with the same balance effect on any
+// date first, then any amount dated within CANDIDATE_WINDOW_DAYS, closest date first
+export async function listMatchCandidates(db: Db, line: BankLineDoc) {
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({
+      accountId: line.accountId,
+      ...inBalance,
+      reconciled: null,
+      $or: [
+        line.amount > 0 ? { credit: { $gte: line.amount } } : { debit: { $gte: -line.amount } },
+        {
+          date: {
+            $gte: shiftDate(line.date, -CANDIDATE_WINDOW_DAYS),
+            $lte: shiftDate(line.date, CANDIDATE_WINDOW_DAYS),
+          },
+        },
+      ],
+    })
+    .toArray()
+
+  return entries
+    .map((entry) => ({
+      entry,
+      exact: sameAmount(entry, line.amount),
+      distance: daysBetween(entry.date, line.date),
+    }))
+    .filter((candidate) => candidate.exact || candidate.distance <= CANDIDATE_WINDOW_DAYS)
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || a.distance - b.distance)
+    .slice(0, CANDIDATE_LIMIT)
+    .map(({ entry }) => serializeEntry(entry))
+}
@@ -0,0 +1,107 @@
+import type { Db, ObjectId } from "mongodb"
+import type { EntryDoc } from "@/lib/entries"
+import type { AccountDoc } from "@/lib/accounts"
+
+// Every entry carries a reference the customer quotes and the paying agent pays out against:
+// yymmdd-BB-NNNN-C, where yymmdd is the entry date, BB numbers the account (the branch's till) within the
+// organization, NNNN counts the account's entries dated that day and C is a Luhn check digit that catches a
+// mistyped digit. Both numbers come from atomic counters, so two tellers saving at once never get the same
+// reference; the unique index backs that up. Numbers grow wider rather than wrap when they run out.
+
+const REFERENCE_PATTERN = /^\d{6}-\d{2,}-\d{4,}-\d$/
+
+let indexReady: Promise<unknown> | null = null
+
+export function ensureReferenceIndexes(db: Db) {
+  if (!indexReady) {
+    indexReady = Promise.all([
+      db.collection("reference_counters").createIndex({ organizationId: 1, key: 1 }, { unique: true }),
+      // Entries written before references existed have none until their receipt is first opened
+      db
+        .collection<EntryDoc>("entries")
+        .createIndex(
+          { organizationId: 1, reference: 1 },
+          { unique: true, partialFilterExpression: { reference: { $type: "string" } } },
+        ),
+    ])
+  }
+  return indexReady
+}
+
+function checkDigit(digits: string) {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 0) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+export function formatReference(date: string, branch: number, sequence: number) {
+  const day = date.slice(2).replace(/-/g, "")
+  const body = `${day}-${String(branch).padStart(2, "0")}-${String(sequence).padStart(4, "0")}`
+  return `${body}-${checkDigit(body.replace(/-/g, ""))}`
+}
+
+// The reference as stored, or null when `input` is not a well-formed reference with a valid check digit
+export function normalizeReference(input: string) {
+  const reference = input.replace(/\s/g, "")
+  if (!REFERENCE_PATTERN.test(reference)) return null
+
+  const digits = reference.replace(/-/g, "")
+  return checkDigit(digits.slice(0, -1)) === Number(digits.slice(-1)) ? reference : null
+}
+
+// Adds `count` to the counter and returns its new value, creating the counter at zero first
+async function incrementCounter(db: Db, organizationId: ObjectId, key: string, count: number) {
+  const counter = await db
+    .collection("reference_counters")
+    .findOneAndUpdate({ organizationId, key }, { $inc: { value: count } }, { upsert: true, returnDocument: "after" })
+  return counter!.value as number
+}
+
+// The account's branch number, handed out the first time one of its entries needs a reference
+async function branchNumber(db: Db, organizationId: ObjectId, accountId: ObjectId) {
+  const accounts = db.collection<AccountDoc>("accounts")
+  const account = await accounts.findOne({ _id: accountId }, { projection: { referenceBranch: 1 } })
+  if (account?.referenceBranch) return account.referenceBranch
+
+  const branch = await incrementCounter(db, organizationId, "branch", 1)
+  await accounts.updateOne({ _id: accountId, referenceBranch: null }, { $set: { referenceBranch: branch } })
+  // Another request may have numbered the account first; its number wins and ours goes unused
+  const numbered = await accounts.findOne({ _id: accountId }, { projection: { referenceBranch: 1 } })
+  return numbered?.referenceBranch ?? branch
+}
+
+// `count` consecutive references for entries of the account dated `date`
+export async function reserveReferences(
+  db: Db,
+  organizationId: ObjectId,
+  accountId: ObjectId,
+  date: string,
+  count = 1,
+) {
+  await ensureReferenceIndexes(db)
+  const branch = await branchNumber(db, organizationId, accountId)
+  const last = await incrementCounter(db, organizationId, `entries:${accountId}:${date}`, count)
+  return Array.from({ length: count }, (_, i) => formatReference(date, branch, last - count + 1 + i))
+}
+
+// The entry's reference, assigning one first to entries written before references existed
+export async function ensureEntryReference(db: Db, entry: EntryDoc): Promise<string> {
+  if (entry.reference) return entry.reference
+
+  const [reference] = await reserveReferences(db, entry.organizationId, entry.accountId, entry.date)
+  await db.collection<EntryDoc>("entries").updateOne({ _id: entry._id, reference: null }, { $set: { reference } })
+  const stored = await db.collection<EntryDoc>("entries").findOne({ _id: entry._id }, { projection: { reference: 1 } })
+  return stored?.reference ?? reference
+}
+
+export async function findEntryByReference(db: Db, organizationId: ObjectId, reference: string) {
+  await ensureReferenceIndexes(db)
+  return db.collection<EntryDoc>("entries").findOne({ organizationId, reference })
+}
@@ -0,0 +1,161 @@
+import type { Db, ObjectId } from "mongodb"
+import { findEffectiveRate } from "@/lib/rates"
+import { notVoided, paidOutOnly } from "@/lib/balances"
+import type { EntryDoc } from "@/lib/entries"
+
+export type MarginPeriod = "day" | "month"
+
+export interface FxMarginQuery {
+  startDate?: string
+  endDate?: string
+  period: MarginPeriod
+  // Overrides the rate table for every entry when set
+  referenceRate?: number
+}
+
+export interface FxMarginRow {
+  id: string
+  date: string
+  particulars: string
+  side: "debit" | "credit"
+  countryCurrency: string
+  countryAmount: number
+  localAmount: number
+  dealtRate: number
+  referenceRate: number
+  margin: number
+}
+
+export interface FxMarginTotal {
+  key: string
+  transfers: number
+  volume: number
+  margin: number
+}
+
+export interface FxMarginReport {
+  rows: FxMarginRow[]
+  byPeriod: FxMarginTotal[]
+  byParticulars: FxMarginTotal[]
+  totals: { transfers: number; volume: number; margin: number }
+  // Entries with a country amount but no reference rate to compare against
+  unpriced: number
+}
+
+// Margin is what the business keeps relative to converting at the reference rate:
+//  - credit (money in): the customer paid `credit` local for `creditCountry` delivered abroad,
+//    so margin = credit - creditCountry × reference
+//  - debit (money out): we paid `debit` local for `debitCountry` received abroad,
+//    so margin = debitCountry × reference - debit
+// A positive margin is profit, a negative one a loss. Only paid-out transfers have earned theirs.
+export function entryMargin(
+  side: "debit" | "credit",
+  countryAmount: number,
+  localAmount: number,
+  referenceRate: number,
+) {
+  const referenceValue = countryAmount * referenceRate
+  return side === "credit" ? localAmount - referenceValue : referenceValue - localAmount
+}
+
+function addToTotal(totals: Map<string, FxMarginTotal>, key: string, row: FxMarginRow) {
+  const total = totals.get(key) ?? { key, transfers: 0, volume: 0, margin: 0 }
+  total.transfers += 1
+  total.volume += row.localAmount
+  total.margin += row.margin
+  totals.set(key, total)
+}
+
+export async function buildFxMarginReport(
+  db: Db,
+  organizationId: ObjectId,
+  accountId: ObjectId,
+  baseCurrency: string,
+  query: FxMarginQuery,
+): Promise<FxMarginReport> {
+  const entries = await db
+    .collection<EntryDoc>("entries")
+    .find({
+      accountId,
+      ...notVoided,
+      ...paidOutOnly,
+      countryCurrency: { $type: "string" },
+      ...((query.startDate || query.endDate) && {
+        date: {
+          ...(query.startDate && { $gte: query.startDate }),
+          ...(query.endDate && { $lte: query.endDate }),
+        },
+      }),
+    })
+    .sort({ date: 1, _id: 1 })
+    .toArray()
+
+  // Entries saved before the rate table existed have no appliedRate; look those up once per currency and day
+  const lookups = new Map<string, Promise<number | null>>()
+  const referenceRateFor = (entry: EntryDoc): Promise<number | null> => {
+    if (query.referenceRate) return Promise.resolve(query.referenceRate)
+    if (entry.appliedRate?.rate) return Promise.resolve(entry.appliedRate.rate)
+
+    const key = `${entry.countryCurrency}:${entry.date}`
+    if (!lookups.has(key)) {
+      lookups.set(
+        key,
+        findEffectiveRate(db, organizationId, entry.countryCurrency!, baseCurrency, entry.date).then(
+          (rate) => rate?.rate ?? null,
+        ),
+      )
+    }
+    return lookups.get(key)!
+  }
+
+  const rows: FxMarginRow[] = []
+  let unpriced = 0
+  for (const entry of entries) {
+    const sides = [
+      { side: "debit" as const, countryAmount: entry.debitCountry, localAmount: entry.debit },
+      { side: "credit" as const, countryAmount: entry.creditCountry, localAmount: entry.credit },
+    ].filter(({ countryAmount, localAmount }) => countryAmount > 0 && localAmount > 0)
+    if (sides.length === 0) continue
+
+    const referenceRate = await referenceRateFor(entry)
+    if (!referenceRate) {
+      unpriced += 1
+      continue
+    }
+
+    for (const { side, countryAmount, localAmount } of sides) {
+      rows.push({
+        id: entry._id.toString(),
+        date: entry.date,
+        particulars: entry.particulars,
+        side,
+        // Only entries with a country currency were read
+        countryCurrency: entry.countryCurrency!,
+        countryAmount,
+        localAmount,
+        dealtRate: localAmount / countryAmount,
+        referenceRate,
+        margin: entryMargin(side, countryAmount, localAmount, referenceRate),
+      })
+    }
+  }
+
+  const byPeriod = new Map<string, FxMarginTotal>()
+  const byParticulars = new Map<string, FxMarginTotal>()
+  for (const row of rows) {
+    addToTotal(byPeriod, query.period === "month" ? row.date.slice(0, 7) : row.date, row)
+    addToTotal(byParticulars, row.particulars.trim(), row)
+  }
+
+  return {
+    rows,
+    byPeriod: [...byPeriod.values()],
+    byParticulars: [...byParticulars.values()].sort((a, b) => b.margin - a.margin),
+    totals: {
+      transfers: rows.length,
+      volume: rows.reduce((sum, row) => sum + row.localAmount, 0),
+      margin: rows.reduce((sum, row) => sum + row.margin, 0),
+    },
+    unpriced,
+  }
+}
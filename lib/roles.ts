@@ -0,0 +1,83 @@
+export const ROLES = ["viewer", "clerk", "approver", "admin"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  clerk: "Clerk",
+  approver: "Approver",
+  admin: "Admin",
+}
+
+export const PERMISSIONS = [
+  "entries:create",
+  "entries:edit",
+  // Editing entries dated before today, or moving an entry to such a date
+  "entries:editPast",
+  // Voiding moves an entry to the trash and restoring takes it back out; purging removes it for good
+  "entries:delete",
+  "entries:purge",
+  // Posting a counter-entry that cancels an existing one, the only correction allowed in a locked period
+  "entries:reverse",
+  // Bulk loading historical entries from a spreadsheet
+  "entries:import",
+  // Importing bank statements and matching their lines to entries
+  "entries:reconcile",
+  "accounts:manage",
+  // Partner agents and their corridors
+  "agents:manage",
+  // Recording net-off payments that clear an agent's transfers, and undoing them
+  "agents:settle",
+  "contacts:manage",
+  // Relinking existing entries to a contact and folding duplicate contacts together
+  "contacts:merge",
+  "rates:manage",
+  "users:manage",
+  // Business name, address and logo on the letterhead
+  "organization:manage",
+  "periods:manage",
+  // Entry history and the organization-wide audit log
+  "audit:view",
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+// Each role has the permissions of the one before it plus its own
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: [],
+  clerk: ["entries:create", "entries:edit", "contacts:manage"],
+  approver: [
+    "entries:create",
+    "entries:edit",
+    "entries:editPast",
+    "entries:delete",
+    "entries:reverse",
+    "entries:import",
+    "entries:reconcile",
+    "agents:settle",
+    "contacts:manage",
+    "contacts:merge",
+    "rates:manage",
+    "audit:view",
+  ],
+  admin: PERMISSIONS,
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value)
+}
+
+export function can(role: Role | null | undefined, permission: Permission) {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false
+}
+
+// Dates are compared as yyyy-mm-dd strings, the same format entries are stored in
+export function isPastDate(date: string, today = new Date().toISOString().split("T")[0]) {
+  return date < today
+}
+
+// Whether a role may change an entry from `currentDate` to `nextDate` (pass the same date for delete-like checks)
+export function canEditEntryDated(role: Role | null | undefined, currentDate: string, nextDate = currentDate) {
+  if (!can(role, "entries:edit")) return false
+  return can(role, "entries:editPast") || (!isPastDate(currentDate) && !isPastDate(nextDate))
+}
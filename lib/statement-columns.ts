@@ -0,0 +1,46 @@
+// Columns a downloaded statement can include, shared by the export endpoints and the export view
+
+export const STATEMENT_COLUMNS = [
+  "date",
+  "particulars",
+  "countryCurrency",
+  "debitCountry",
+  "debit",
+  "creditCountry",
+  "credit",
+  "rate",
+  "balance",
+] as const
+
+export type StatementColumn = (typeof STATEMENT_COLUMNS)[number]
+
+// Local column labels get the account's base currency appended
+export const STATEMENT_COLUMN_LABELS: Record<StatementColumn, string> = {
+  date: "Date",
+  particulars: "Particulars",
+  countryCurrency: "Country Currency",
+  debitCountry: "Debit Country",
+  debit: "Debit (Out)",
+  creditCountry: "Credit Country",
+  credit: "Credit (In)",
+  rate: "Rate",
+  balance: "Balance",
+}
+
+export const LOCAL_CURRENCY_COLUMNS: readonly StatementColumn[] = ["debit", "credit", "balance"]
+
+export const CSV_DELIMITERS = { comma: ",", semicolon: ";", tab: "\t" } as const
+
+export type CsvDelimiter = keyof typeof CSV_DELIMITERS
+
+export function isStatementColumn(value: string): value is StatementColumn {
+  return (STATEMENT_COLUMNS as readonly string[]).includes(value)
+}
+
+// Parse a comma separated ?columns= value, keeping the canonical order. Null when any name is unknown.
+export function parseStatementColumns(value: string | null): StatementColumn[] | null {
+  if (!value) return [...STATEMENT_COLUMNS]
+  const names = value.split(",").map((name) => name.trim())
+  if (names.length === 0 || !names.every(isStatementColumn)) return null
+  return STATEMENT_COLUMNS.filter((column) => names.includes(column))
+}
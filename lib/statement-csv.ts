@@ -0,0 +1,43 @@
+import { formatCsv } from "@/lib/csv"
+import { CSV_DELIMITERS, type CsvDelimiter, type StatementColumn } from "@/lib/statement-columns"
+import { buildStatementRows, type AccountStatementExport } from "@/lib/statements"
+
+export interface StatementCsvOptions {
+  columns: StatementColumn[]
+  delimiter: CsvDelimiter
+  // BCP 47 locale for the decimal separator, e.g. "de-DE" writes 1234,50
+  locale: string
+  // Excel only reads a UTF-8 file as UTF-8 when it starts with a byte order mark
+  bom: boolean
+}
+
+export const DEFAULT_CSV_LOCALE = "en-US"
+
+export function isSupportedLocale(locale: string) {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+// Numbers are written without grouping separators so spreadsheets read them back as numbers
+export function renderStatementCsv(statement: AccountStatementExport, options: StatementCsvOptions) {
+  const amount = new Intl.NumberFormat(options.locale, {
+    useGrouping: false,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+  const rate = new Intl.NumberFormat(options.locale, { useGrouping: false, maximumFractionDigits: 6 })
+
+  const { header, rows } = buildStatementRows(statement, options.columns)
+  const body = rows.map((row) =>
+    row.cells.map((cell, index) => {
+      if (typeof cell !== "number") return cell
+      return options.columns[index] === "rate" ? rate.format(cell) : amount.format(cell)
+    }),
+  )
+
+  const csv = formatCsv([header, ...body], CSV_DELIMITERS[options.delimiter])
+  return options.bom ? `\uFEFF${csv}` : csv
+}
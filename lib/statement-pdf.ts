@@ -0,0 +1,207 @@
+import {
+  addJpegImage,
+  addPage,
+  createPdfDocument,
+  drawImage,
+  drawLine,
+  drawText,
+  fillRect,
+  fitText,
+  renderPdf,
+  type PdfDocument,
+  type PdfFont,
+  type PdfPage,
+} from "@/lib/pdf"
+import { logoBytes, type Letterhead } from "@/lib/organization"
+import type { AccountStatementExport } from "@/lib/statements"
+
+const MARGIN = 40
+const ROW_HEIGHT = 14
+const FONT_SIZE = 8
+const FOOTER_HEIGHT = 30
+
+interface Column {
+  label: string
+  width: number
+  align: "left" | "right"
+}
+
+// Amounts are printed without currency symbols, which Helvetica cannot show for most currencies;
+// the local currency goes in the column headings and country amounts carry their own code
+function formatAmount(amount: number) {
+  return amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function formatDate(date: string) {
+  const [year, month, day] = date.split("-")
+  return `${day}/${month}/${year}`
+}
+
+function countryAmount(amount: number, currency: string | null | undefined) {
+  if (!amount) return "-"
+  return currency ? `${formatAmount(amount)} ${currency}` : formatAmount(amount)
+}
+
+function periodDescription({ startDate, endDate }: AccountStatementExport["filters"]) {
+  if (startDate && endDate) return `${formatDate(startDate)} to ${formatDate(endDate)}`
+  if (startDate) return `From ${formatDate(startDate)}`
+  if (endDate) return `Up to ${formatDate(endDate)}`
+  return "All dates"
+}
+
+// Render a statement on A4 landscape pages: letterhead on the first page, a repeated column header,
+// opening and closing balances, a totals row, and page numbers with the generation time in the footer
+export function renderStatementPdf(statement: AccountStatementExport, letterhead: Letterhead, generatedAt = new Date()) {
+  const doc = createPdfDocument()
+  const currency = statement.account.baseCurrency
+  const columns: Column[] = [
+    { label: "Date", width: 62, align: "left" },
+    { label: "Particulars", width: 220, align: "left" },
+    { label: "Debit Country", width: 80, align: "right" },
+    { label: `Debit (Out) ${currency}`, width: 80, align: "right" },
+    { label: "Credit Country", width: 80, align: "right" },
+    { label: `Credit (In) ${currency}`, width: 80, align: "right" },
+    { label: "Rate", width: 54, align: "right" },
+    { label: `Balance ${currency}`, width: 105.89, align: "right" },
+  ]
+  const tableWidth = doc.width - MARGIN * 2
+
+  let page: PdfPage
+  let top = 0
+
+  const drawRow = (cells: string[], font: PdfFont = "regular") => {
+    let x = MARGIN
+    cells.forEach((cell, index) => {
+      const column = columns[index]
+      const text = fitText(cell, column.width - 6, FONT_SIZE, font)
+      drawText(doc, page, text, column.align === "right" ? x + column.width - 3 : x + 3, top + 3, {
+        size: FONT_SIZE,
+        font,
+        align: column.align,
+      })
+      x += column.width
+    })
+    top += ROW_HEIGHT
+  }
+
+  const drawColumnHeader = () => {
+    fillRect(doc, page, MARGIN, top, tableWidth, ROW_HEIGHT, 0.93)
+    drawRow(
+      columns.map((column) => column.label),
+      "bold",
+    )
+    drawLine(doc, page, MARGIN, top, MARGIN + tableWidth, top)
+  }
+
+  const startPage = () => {
+    page = addPage(doc)
+    top = MARGIN
+    if (doc.pages.length > 1) {
+      drawText(doc, page, `${letterhead.name} - Statement of ${statement.account.name}`, MARGIN, top, { size: 9 })
+      top += 20
+    }
+    drawColumnHeader()
+  }
+
+  // Keep at least `rows` more rows on the current page, moving to a new one if needed
+  const ensureSpace = (rows: number) => {
+    if (top + rows * ROW_HEIGHT > doc.height - MARGIN - FOOTER_HEIGHT) startPage()
+  }
+
+  page = addPage(doc)
+  top = drawLetterhead(doc, page, letterhead, statement)
+  drawColumnHeader()
+
+  drawRow(["", "Opening balance", "", "", "", "", "", formatAmount(statement.openingBalance)], "bold")
+
+  for (const entry of statement.entries) {
+    ensureSpace(1)
+    drawRow([
+      formatDate(entry.date),
+      entry.particulars,
+      countryAmount(entry.debitCountry, entry.countryCurrency),
+      entry.debit ? formatAmount(entry.debit) : "-",
+      countryAmount(entry.creditCountry, entry.countryCurrency),
+      entry.credit ? formatAmount(entry.credit) : "-",
+      entry.exchangeRate ? entry.exchangeRate.toLocaleString("en-US", { maximumFractionDigits: 6 }) : "-",
+      formatAmount(entry.balance),
+    ])
+  }
+
+  ensureSpace(2)
+  drawLine(doc, page, MARGIN, top, MARGIN + tableWidth, top)
+  drawRow(
+    [
+      "",
+      `Totals (${statement.entries.length} entries)`,
+      "",
+      formatAmount(statement.totals.debit),
+      "",
+      formatAmount(statement.totals.credit),
+      "",
+      "",
+    ],
+    "bold",
+  )
+  drawRow(["", "Closing balance", "", "", "", "", "", formatAmount(statement.closingBalance)], "bold")
+
+  drawFooters(doc, generatedAt)
+  return renderPdf(doc)
+}
+
+// Business details on the left, statement details on the right. Returns where the table starts.
+function drawLetterhead(doc: PdfDocument, page: PdfPage, letterhead: Letterhead, statement: AccountStatementExport) {
+  let left = MARGIN
+  let top = MARGIN
+
+  const logo = letterhead.logo ? addJpegImage(doc, logoBytes(letterhead.logo)) : null
+  if (logo) {
+    const height = 50
+    const width = Math.min((logo.width / logo.height) * height, 150)
+    drawImage(doc, page, logo, MARGIN, MARGIN, width, (width / logo.width) * logo.height)
+    left += width + 12
+  }
+
+  drawText(doc, page, letterhead.name, left, top, { size: 16, font: "bold" })
+  top += 20
+  for (const line of (letterhead.address ?? "").split("\n").filter((line) => line.trim())) {
+    drawText(doc, page, line.trim(), left, top, { size: 9 })
+    top += 11
+  }
+
+  const right = doc.width - MARGIN
+  let detailsTop = MARGIN
+  drawText(doc, page, "Account Statement", right, detailsTop, { size: 14, font: "bold", align: "right" })
+  detailsTop += 18
+  const details = [
+    statement.account.name,
+    periodDescription(statement.filters),
+    ...(statement.filters.particulars ? [`Particulars: ${statement.filters.particulars}`] : []),
+  ]
+  for (const detail of details) {
+    drawText(doc, page, detail, right, detailsTop, { size: 9, align: "right" })
+    detailsTop += 11
+  }
+
+  const bottom = Math.max(top, detailsTop, logo ? MARGIN + 50 : 0) + 10
+  drawLine(doc, page, MARGIN, bottom, doc.width - MARGIN, bottom, 1)
+  return bottom + 14
+}
+
+function drawFooters(doc: PdfDocument, generatedAt: Date) {
+  let generated = `Generated ${generatedAt.toISOString().replace("T", " ").slice(0, 16)} UTC`
+  // Names in other scripts cannot be printed with the built-in fonts; the CSV and Excel exports keep them
+  if (doc.substituted) {
+    generated +=
+      ' - Characters this PDF cannot show are printed as "?" or without accents; export CSV or Excel for the full text'
+  }
+  const top = doc.height - MARGIN
+  doc.pages.forEach((page, index) => {
+    drawLine(doc, page, MARGIN, top - 6, doc.width - MARGIN, top - 6)
+    drawText(doc, page, generated, MARGIN, top, { size: 8 })
+    drawText(doc, page, `Page ${index + 1} of ${doc.pages.length}`, doc.width - MARGIN, top, {
+      size: 8,
+      align: "right",
+    })
+  })
+}
@@ -0,0 +1,285 @@
+import { createZip } from "@/lib/zip"
+import type { AccountStatementExport } from "@/lib/statements"
+
+// Statements as an Excel workbook: a Statement sheet whose Balance column is a running formula and
+// a Summary sheet totalling debits and credits per particulars with formulas over the Statement sheet.
+// Formula cells carry their computed value too, so viewers that do not recalculate still show numbers.
+
+interface Cell {
+  value?: string | number | null
+  formula?: string
+  style?: number
+}
+
+// Indexes into cellXfs in STYLES_XML
+const STYLE = { header: 1, date: 2, amount: 3, debit: 4, credit: 5, total: 6, rate: 7, bold: 8 }
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="#,##0.00"/><numFmt numFmtId="166" formatCode="0.######"/></numFmts>
+<fonts count="4"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><sz val="11"/><color rgb="FFDC2626"/><name val="Calibri"/></font><font><sz val="11"/><color rgb="FF16A34A"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/></patternFill></fill></fills>
+<borders count="1"><border/></borders>
+<cellStyleXfs count="1"><xf/></cellStyleXfs>
+<cellXfs count="9">
+<xf/>
+<xf fontId="1" fillId="2" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" applyNumberFormat="1"/>
+<xf numFmtId="165" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="2" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="165" fontId="3" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="165" fontId="1" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="166" applyNumberFormat="1"/>
+<xf fontId="1" applyFont="1"/>
+</cellXfs>
+</styleSheet>`
+
+const SHEET_NAMES = ["Statement", "Summary"]
+
+function escapeXml(text: string) {
+  return (
+    text
+      // Control characters other than tab and line breaks are not allowed in XML
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  )
+}
+
+function columnName(index: number) {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Days since 1899-12-30, Excel's date serial for a yyyy-mm-dd string
+function dateSerial(date: string) {
+  return (Date.parse(`${date}T00:00:00Z`) - Date.UTC(1899, 11, 30)) / 86_400_000
+}
+
+function cellXml(cell: Cell, reference: string) {
+  const style = cell.style ? ` s="${cell.style}"` : ""
+  if (cell.formula) {
+    const value = typeof cell.value === "number" ? `<v>${cell.value}</v>` : ""
+    return `<c r="${reference}"${style}><f>${escapeXml(cell.formula)}</f>${value}</c>`
+  }
+  if (typeof cell.value === "number") return `<c r="${reference}"${style}><v>${cell.value}</v></c>`
+  if (cell.value) {
+    return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`
+  }
+  return style ? `<c r="${reference}"${style}/>` : ""
+}
+
+function sheetXml(rows: Cell[][], widths: number[]) {
+  const cols = widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+  const data = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => cellXml(cell, `${columnName(columnIndex)}${rowIndex + 1}`))
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`
+  })
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    `<cols>${cols.join("")}</cols>` +
+    `<sheetData>${data.join("")}</sheetData>` +
+    `</worksheet>`
+  )
+}
+
+const header = (labels: string[]) => labels.map((label) => ({ value: label, style: STYLE.header }))
+
+function statementSheet(statement: AccountStatementExport) {
+  const currency = statement.account.baseCurrency
+  const { entries } = statement
+  // A particulars filter leaves out other entries, so the running formula only covers what is listed
+  const filtered = Boolean(statement.filters.particulars)
+  const opening = filtered ? 0 : statement.openingBalance
+
+  const firstEntryRow = 3
+  const lastEntryRow = firstEntryRow + entries.length - 1
+  const totalsRow = lastEntryRow + 1
+  const sumOf = (column: string) => (entries.length > 0 ? `SUM(${column}${firstEntryRow}:${column}${lastEntryRow})` : undefined)
+
+  const rows: Cell[][] = [
+    header([
+      "Date",
+      "Particulars",
+      "Country Currency",
+      "Debit Country",
+      `Debit (Out) ${currency}`,
+      "Credit Country",
+      `Credit (In) ${currency}`,
+      "Rate",
+      `Balance ${currency}`,
+    ]),
+    [
+      {},
+      { value: filtered ? "Opening balance (listed entries only)" : "Opening balance", style: STYLE.bold },
+      {},
+      {},
+      {},
+      {},
+      {},
+      {},
+      { value: opening, style: STYLE.total },
+    ],
+  ]
+
+  let balance = opening
+  entries.forEach((entry, index) => {
+    const row = firstEntryRow + index
+    balance += entry.credit - entry.debit
+    rows.push([
+      { value: dateSerial(entry.date), style: STYLE.date },
+      { value: entry.particulars },
+      { value: entry.countryCurrency || null },
+      { value: entry.debitCountry || null, style: STYLE.debit },
+      { value: entry.debit || null, style: STYLE.debit },
+      { value: entry.creditCountry || null, style: STYLE.credit },
+      { value: entry.credit || null, style: STYLE.credit },
+      { value: entry.exchangeRate, style: STYLE.rate },
+      { formula: `I${row - 1}+G${row}-E${row}`, value: balance, style: STYLE.amount },
+    ])
+  })
+
+  // Country amounts only add up when every entry uses the same country currency
+  const countryCurrencies = new Set(entries.map((entry) => entry.countryCurrency).filter(Boolean))
+  const countryTotal = (column: string, value: number): Cell =>
+    countryCurrencies.size <= 1 ? { formula: sumOf(column), value, style: STYLE.total } : {}
+
+  rows.push([
+    {},
+    { value: "Totals", style: STYLE.bold },
+    {},
+    countryTotal(
+      "D",
+      entries.reduce((sum, entry) => sum + entry.debitCountry, 0),
+    ),
+    { formula: sumOf("E"), value: statement.totals.debit, style: STYLE.total },
+    countryTotal(
+      "F",
+      entries.reduce((sum, entry) => sum + entry.creditCountry, 0),
+    ),
+    { formula: sumOf("G"), value: statement.totals.credit, style: STYLE.total },
+    {},
+    {},
+  ])
+  rows.push([
+    {},
+    { value: "Closing balance", style: STYLE.bold },
+    {},
+    {},
+    {},
+    {},
+    {},
+    {},
+    { formula: `I${totalsRow - 1}`, value: balance, style: STYLE.total },
+  ])
+
+  return sheetXml(rows, [12, 36, 10, 16, 16, 16, 16, 12, 18])
+}
+
+function summarySheet(statement: AccountStatementExport) {
+  const currency = statement.account.baseCurrency
+  const { entries } = statement
+
+  // Excel compares text case-insensitively, so group the same way to keep cached values in line with formulas
+  const groups = new Map<string, { particulars: string; count: number; debit: number; credit: number }>()
+  for (const entry of entries) {
+    const key = entry.particulars.toLowerCase()
+    const group = groups.get(key) ?? { particulars: entry.particulars, count: 0, debit: 0, credit: 0 }
+    group.count += 1
+    group.debit += entry.debit
+    group.credit += entry.credit
+    groups.set(key, group)
+  }
+  const sorted = [...groups.values()].sort((a, b) => a.particulars.localeCompare(b.particulars))
+
+  // Exact matches through SUMPRODUCT, since SUMIF would treat * and ? in particulars as wildcards
+  const lastEntryRow = 2 + entries.length
+  const matches = (row: number) => `(Statement!$B$3:$B$${lastEntryRow}=A${row})`
+
+  const rows: Cell[][] = [header(["Particulars", "Entries", `Debit (Out) ${currency}`, `Credit (In) ${currency}`, `Net ${currency}`])]
+  sorted.forEach((group, index) => {
+    const row = index + 2
+    rows.push([
+      { value: group.particulars },
+      { formula: `SUMPRODUCT(--${matches(row)})`, value: group.count },
+      { formula: `SUMPRODUCT(${matches(row)}*Statement!$E$3:$E$${lastEntryRow})`, value: group.debit, style: STYLE.debit },
+      { formula: `SUMPRODUCT(${matches(row)}*Statement!$G$3:$G$${lastEntryRow})`, value: group.credit, style: STYLE.credit },
+      { formula: `D${row}-C${row}`, value: group.credit - group.debit, style: STYLE.amount },
+    ])
+  })
+
+  const lastGroupRow = sorted.length + 1
+  const sumOf = (column: string) => (sorted.length > 0 ? `SUM(${column}2:${column}${lastGroupRow})` : undefined)
+  rows.push([
+    { value: "Totals", style: STYLE.bold },
+    { formula: sumOf("B"), value: entries.length, style: STYLE.bold },
+    { formula: sumOf("C"), value: statement.totals.debit, style: STYLE.total },
+    { formula: sumOf("D"), value: statement.totals.credit, style: STYLE.total },
+    { formula: sumOf("E"), value: statement.totals.credit - statement.totals.debit, style: STYLE.total },
+  ])
+
+  return sheetXml(rows, [36, 10, 18, 18, 18])
+}
+
+export function renderStatementXlsx(statement: AccountStatementExport) {
+  const sheetOverrides = SHEET_NAMES.map(
+    (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+  )
+  const sheets = SHEET_NAMES.map((name, index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+  const sheetRelationships = SHEET_NAMES.map(
+    (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+  )
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        sheetOverrides.join("") +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets>${sheets.join("")}</sheets>` +
+        `<calcPr calcId="0" fullCalcOnLoad="1"/>` +
+        `</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheetRelationships.join("") +
+        `<Relationship Id="rId${SHEET_NAMES.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        `</Relationships>`,
+    },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    { name: "xl/worksheets/sheet1.xml", data: statementSheet(statement) },
+    { name: "xl/worksheets/sheet2.xml", data: summarySheet(statement) },
+  ])
+}
@@ -0,0 +1,141 @@
+import { ObjectId, type Db } from "mongodb"
+import type { Account } from "@/lib/accounts"
+import { getBalanceAsOf, getPendingTotal, previousDay } from "@/lib/balances"
+import { decodeCursor, listAccountEntries, MAX_PAGE_SIZE, type AccountEntry, type EntryQuery } from "@/lib/entries"
+import { countsInBalance } from "@/lib/transfer-status"
+import { LOCAL_CURRENCY_COLUMNS, STATEMENT_COLUMN_LABELS, type StatementColumn } from "@/lib/statement-columns"
+
+// A whole filtered statement for printing or download, rather than one page of the on-screen list
+export interface AccountStatementExport {
+  account: { id: string; name: string; baseCurrency: string }
+  filters: { particulars?: string; startDate?: string; endDate?: string }
+  entries: AccountEntry[]
+  // Account balances around the requested dates; with a particulars filter they still cover every entry
+  openingBalance: number
+  closingBalance: number
+  totals: { debit: number; credit: number }
+}
+
+const LAST_DATE = "9999-12-31"
+
+export async function buildAccountStatementExport(
+  db: Db,
+  account: Account,
+  query: EntryQuery,
+): Promise<AccountStatementExport> {
+  const accountId = account.id!
+  const accountObjectId = new ObjectId(accountId)
+  const entries: AccountEntry[] = []
+  let cursor: EntryQuery["cursor"]
+  let nextCursor: string | null = null
+  do {
+    const page = await listAccountEntries(db, accountId, {
+      ...query,
+      sort: "date",
+      order: "asc",
+      limit: MAX_PAGE_SIZE,
+      cursor,
+    })
+    // Cancelled and refunded transfers carry no amount, so printed totals and formulas leave them out
+    entries.push(...page.entries.filter((entry) => countsInBalance(entry.status)))
+    nextCursor = page.nextCursor
+    cursor = nextCursor ? (decodeCursor(nextCursor) ?? undefined) : undefined
+  } while (nextCursor)
+
+  // With pending=exclude the rows leave pending transfers out of their balances, so the totals around them do too
+  const balanceAsOf = async (asOf: string) =>
+    (await getBalanceAsOf(db, accountObjectId, asOf)) -
+    (query.excludePending ? await getPendingTotal(db, accountObjectId, asOf) : 0)
+  const openingBalance = query.startDate ? await balanceAsOf(previousDay(query.startDate)) : 0
+  const closingBalance = await balanceAsOf(query.endDate ?? LAST_DATE)
+
+  return {
+    account: { id: accountId, name: account.name, baseCurrency: account.baseCurrency },
+    filters: { particulars: query.particulars, startDate: query.startDate, endDate: query.endDate },
+    entries,
+    openingBalance,
+    closingBalance,
+    totals: {
+      debit: entries.reduce((sum, entry) => sum + entry.debit, 0),
+      credit: entries.reduce((sum, entry) => sum + entry.credit, 0),
+    },
+  }
+}
+
+export type StatementRowType = "opening" | "entry" | "totals" | "closing"
+
+export interface StatementRow {
+  type: StatementRowType
+  // One cell per selected column; amounts stay numbers so each format can render them its own way
+  cells: (string | number | null)[]
+}
+
+// Header and rows of a statement restricted to `columns`. Summary rows put their label in the particulars
+// column, or the first column when particulars is not selected.
+export function buildStatementRows(statement: AccountStatementExport, columns: StatementColumn[]) {
+  const header = columns.map((column) =>
+    LOCAL_CURRENCY_COLUMNS.includes(column)
+      ? `${STATEMENT_COLUMN_LABELS[column]} ${statement.account.baseCurrency}`
+      : STATEMENT_COLUMN_LABELS[column],
+  )
+  const labelIndex = columns.includes("particulars") ? columns.indexOf("particulars") : 0
+
+  const summaryRow = (type: StatementRowType, label: string, values: Partial<Record<StatementColumn, number>>) => {
+    const cells: StatementRow["cells"] = columns.map((column) => values[column] ?? null)
+    if (cells[labelIndex] === null) cells[labelIndex] = label
+    return { type, cells }
+  }
+
+  // Country amounts only add up when every entry uses the same country currency
+  const countryCurrencies = new Set(statement.entries.map((entry) => entry.countryCurrency).filter(Boolean))
+  const countryTotals =
+    countryCurrencies.size <= 1
+      ? {
+          debitCountry: statement.entries.reduce((sum, entry) => sum + entry.debitCountry, 0),
+          creditCountry: statement.entries.reduce((sum, entry) => sum + entry.creditCountry, 0),
+        }
+      : {}
+
+  const rows: StatementRow[] = [
+    summaryRow("opening", "Opening balance", { balance: statement.openingBalance }),
+    ...statement.entries.map((entry) => ({
+      type: "entry" as const,
+      cells: columns.map((column) => entryCell(entry, column)),
+    })),
+    summaryRow("totals", "Totals", { ...countryTotals, ...statement.totals }),
+    summaryRow("closing", "Closing balance", { balance: statement.closingBalance }),
+  ]
+
+  return { header, rows }
+}
+
+function entryCell(entry: AccountEntry, column: StatementColumn) {
+  switch (column) {
+    case "date":
+      return entry.date
+    case "particulars":
+      return entry.particulars
+    case "countryCurrency":
+      return entry.countryCurrency || null
+    case "rate":
+      return entry.exchangeRate
+    case "debitCountry":
+    case "debit":
+    case "creditCountry":
+    case "credit":
+      return entry[column] || null
+    case "balance":
+      return entry.balance
+  }
+}
+
+// e.g. statement-Main-Ali-2026-01-01_2026-01-31.csv
+export function statementFilename(statement: AccountStatementExport, extension: string) {
+  const { particulars, startDate, endDate } = statement.filters
+  const range = startDate || endDate ? `${startDate ?? "start"}_${endDate ?? "today"}` : ""
+  const name = ["statement", statement.account.name, particulars, range]
+    .filter(Boolean)
+    .join("-")
+    .replace(/[^\w.-]+/g, "-")
+  return `${name}.${extension}`
+}
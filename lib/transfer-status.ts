@@ -0,0 +1,61 @@
+import { z } from "zod"
+
+// Where a transfer stands: money received but not yet paid out abroad is pending until the payout is
+// confirmed, or until it is cancelled and the money goes back to the sender. Entries written before
+// statuses existed, and plain ledger lines, count as paid out. Nothing here touches the database so the
+// statement can offer the same transitions the API accepts.
+
+export const TRANSFER_STATUSES = ["pending", "paidOut", "cancelled", "refunded"] as const
+
+export type TransferStatus = (typeof TRANSFER_STATUSES)[number]
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  pending: "Pending",
+  paidOut: "Paid out",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+}
+
+export const DEFAULT_TRANSFER_STATUS: TransferStatus = "paidOut"
+
+// Cancelled and refunded transfers no longer move money: on getting there their amount leaves the running
+// balance, the statement totals and the journal, as if voided, while the entry stays on the statement.
+// Only paid-out transfers count towards agent positions, settlements and FX margin.
+export const INACTIVE_TRANSFER_STATUSES = ["cancelled", "refunded"] as const satisfies readonly TransferStatus[]
+
+// Statuses a new entry may start in; cancelling and refunding always follow an earlier status
+export const INITIAL_TRANSFER_STATUSES = ["pending", "paidOut"] as const satisfies readonly TransferStatus[]
+
+// A payout can still be recalled and refunded; refunded is final
+export const TRANSFER_STATUS_TRANSITIONS: Record<TransferStatus, readonly TransferStatus[]> = {
+  pending: ["paidOut", "cancelled"],
+  paidOut: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+}
+
+export interface TransferStatusChange {
+  status: TransferStatus
+  // Status before the change; null for the status the entry was created in
+  from: TransferStatus | null
+  at: Date
+  actor: { userId: string; name: string; email: string }
+}
+
+export function isTransferStatus(value: unknown): value is TransferStatus {
+  return typeof value === "string" && (TRANSFER_STATUSES as readonly string[]).includes(value)
+}
+
+// Whether an entry in `status` (null for entries written before statuses existed) carries its amount
+export function countsInBalance(status: TransferStatus | null | undefined) {
+  return !(INACTIVE_TRANSFER_STATUSES as readonly string[]).includes(status ?? DEFAULT_TRANSFER_STATUS)
+}
+
+export function canChangeStatus(from: TransferStatus, to: TransferStatus) {
+  return TRANSFER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// Body of POST /api/entries/[id]/status
+export const statusChangeSchema = z.object({
+  status: z.enum(TRANSFER_STATUSES, { errorMap: () => ({ message: "Choose a status" }) }),
+})
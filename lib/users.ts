@@ -0,0 +1,57 @@
+import { z } from "zod"
+import type { Db, ObjectId, WithId } from "mongodb"
+import { ROLES, isRole, type Role } from "@/lib/roles"
+
+export interface OrganizationUser {
+  id: string
+  name: string
+  email: string
+  role: Role
+  disabled: boolean
+  createdAt?: Date
+}
+
+// A user as stored; users created before roles existed have none
+export interface UserDoc {
+  organizationId: ObjectId
+  name: string
+  email: string
+  role?: string
+  passwordHash: string
+  disabled?: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const newUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  role: z.enum(ROLES, { errorMap: () => ({ message: "Choose a role" }) }),
+})
+
+export const userUpdateSchema = z.object({
+  role: z.enum(ROLES, { errorMap: () => ({ message: "Choose a role" }) }).optional(),
+  disabled: z.boolean().optional(),
+})
+
+// Never expose the password hash or organization id
+export function serializeUser(user: WithId<UserDoc>): OrganizationUser {
+  return {
+    id: user._id.toString(),
+    name: user.name,
+    email: user.email,
+    role: isRole(user.role) ? user.role : "admin",
+    disabled: Boolean(user.disabled),
+    createdAt: user.createdAt,
+  }
+}
+
+// Users without a role predate roles and count as admins, see getSession
+export function countActiveAdmins(db: Db, organizationId: ObjectId) {
+  return db.collection<UserDoc>("users").countDocuments({
+    organizationId,
+    disabled: { $ne: true },
+    $or: [{ role: "admin" }, { role: { $exists: false } }],
+  })
+}
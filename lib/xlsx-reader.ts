@@ -0,0 +1,83 @@
+import { readZip } from "@/lib/zip"
+
+// Reads the first worksheet of an XLSX workbook into rows of cell text, the same shape parseCsv returns.
+// Numbers come back as written in the file, so dates stay Excel serial numbers.
+
+function unescapeXml(text: string) {
+  return text.replace(/&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return String.fromCodePoint(code)
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity.toLowerCase()]!
+  })
+}
+
+// Text of every <t> inside `xml`, joined; rich text splits one string into several runs
+function textContent(xml: string) {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((match) => unescapeXml(match[1])).join("")
+}
+
+function attribute(attributes: string, name: string) {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+}
+
+function columnIndex(reference: string) {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "A"
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function firstSheetPath(files: Map<string, Buffer>) {
+  const workbook = files.get("xl/workbook.xml")?.toString("utf8")
+  const relationships = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8")
+  if (!workbook || !relationships) return null
+
+  const sheet = workbook.match(/<sheet\b([^>]*)\/?>/)
+  const id = sheet && attribute(sheet[1], "r:id")
+  if (!id) return null
+
+  for (const match of relationships.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(match[1], "Id") !== id) continue
+    const target = attribute(match[1], "Target") ?? ""
+    return target.startsWith("/") ? target.slice(1) : `xl/${target}`
+  }
+  return null
+}
+
+export function readXlsxRows(data: Buffer): string[][] | null {
+  const files = readZip(data)
+  if (!files) return null
+
+  const path = firstSheetPath(files)
+  const sheet = path && files.get(path)?.toString("utf8")
+  if (!sheet) return null
+
+  const sharedStrings = [...(files.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    (match) => textContent(match[1]),
+  )
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b(?:[^>]*[^/>])?>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = []
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const [, attributes, content = ""] = cellMatch
+      const type = attribute(attributes, "t")
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let text = ""
+      if (type === "s") text = sharedStrings[Number(value)] ?? ""
+      else if (type === "inlineStr") text = textContent(content)
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE"
+      else if (value !== undefined) text = unescapeXml(value)
+
+      // Empty cells are often left out, so place each cell by its reference rather than its position
+      const reference = attribute(attributes, "r")
+      const index = reference ? columnIndex(reference) : row.length
+      while (row.length < index) row.push("")
+      row[index] = text
+    }
+    // Skip rows that are empty or only hold formatting
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row)
+  }
+  return rows
+}
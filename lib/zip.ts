@@ -0,0 +1,128 @@
+import { deflateRawSync, inflateRawSync } from "zlib"
+
+// Minimal ZIP reader and writer for XLSX workbooks: stored or deflated entries, no encryption and
+// no ZIP64, so every file and the archive must stay under 4 GB.
+
+export interface ZipFile {
+  name: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// 1980-01-01 00:00, the earliest DOS timestamp; generated files carry no meaningful modification time
+const DOS_TIME = 0
+const DOS_DATE = (0 << 9) | (1 << 5) | 1
+
+export function createZip(files: ZipFile[]): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8")
+    const data = typeof file.data === "string" ? Buffer.from(file.data, "utf8") : Buffer.from(file.data)
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6) // names are UTF-8
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt16LE(DOS_TIME, 10)
+    local.writeUInt16LE(DOS_DATE, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(DOS_TIME, 12)
+    central.writeUInt16LE(DOS_DATE, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+// Limits on what readZip unpacks, so a small upload cannot expand into gigabytes (a "zip bomb")
+export const MAX_ZIP_ENTRIES = 1000
+export const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024
+
+// Read every file of an archive through its central directory. Returns null for anything that is not a
+// readable ZIP, including archives using compression methods other than store and deflate, and for
+// archives with more than MAX_ZIP_ENTRIES files or more than MAX_UNZIPPED_BYTES once unpacked.
+export function readZip(archive: Buffer): Map<string, Buffer> | null {
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  if (endOffset < 0 || endOffset + 22 > archive.length) return null
+
+  const count = archive.readUInt16LE(endOffset + 10)
+  if (count > MAX_ZIP_ENTRIES) return null
+  let offset = archive.readUInt32LE(endOffset + 16)
+  const files = new Map<string, Buffer>()
+  let remaining = MAX_UNZIPPED_BYTES
+
+  try {
+    for (let i = 0; i < count; i++) {
+      if (archive.readUInt32LE(offset) !== 0x02014b50) return null
+      const method = archive.readUInt16LE(offset + 10)
+      const compressedSize = archive.readUInt32LE(offset + 20)
+      const nameLength = archive.readUInt16LE(offset + 28)
+      const extraLength = archive.readUInt16LE(offset + 30)
+      const commentLength = archive.readUInt16LE(offset + 32)
+      const localOffset = archive.readUInt32LE(offset + 42)
+      const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength)
+
+      // The local header repeats the name and may carry a different extra field
+      const dataOffset = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28)
+      const data = archive.subarray(dataOffset, dataOffset + compressedSize)
+      let file: Buffer
+      if (method === 0) file = data
+      // Throws once the output would pass the limit, before inflating any further
+      else if (method === 8) file = inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) })
+      else return null
+      remaining -= file.length
+      if (remaining < 0) return null
+      files.set(name, file)
+
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+  } catch {
+    return null
+  }
+
+  return files
+}
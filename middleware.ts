@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+// Must match SESSION_COOKIE in lib/auth.ts; middleware runs on the edge runtime and cannot import the database
+const SESSION_COOKIE = "session"
+
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/register", "/api/auth/logout"]
+
+// Turns away requests without a session cookie. Route handlers still verify the session against the
+// database with getSession(), so a forged or expired cookie only gets as far as a 401 there.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  if (PUBLIC_PATHS.includes(pathname) || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+  }
+
+  const loginUrl = new URL("/login", request.url)
+  loginUrl.searchParams.set("next", `${pathname}${search}`)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|svg)$).*)"],
+}